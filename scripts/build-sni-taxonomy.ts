@@ -0,0 +1,114 @@
+/**
+ * SNI 2007 taxonomy build script
+ * Regenerates src/taxonomy/sni2007-data.ts from Statistics Sweden's (SCB) classification
+ * export, saved as CSV/text with one code per row: code;Swedish name[;English name]
+ *
+ * Usage:
+ *   npm run build-sni -- <sni2007.csv> [english.csv]
+ *
+ * The optional second file supplies English names (code;English name) when the first has none.
+ * Nothing is written unless the input has every level, from section to subclass, with both names.
+ */
+
+import { splitCsvLine } from '../src/importers/bolagsverket.js';
+import { SNI_2007 } from '../src/taxonomy/sni2007-data.js';
+import { hierarchyProblems, levelOf, normalizeSniCode } from '../src/taxonomy/sni.js';
+import { SNI_LEVELS, SniLevel } from '../src/types.js';
+import fs from 'fs';
+import path from 'path';
+
+const OUTPUT = path.join(process.cwd(), 'src/taxonomy/sni2007-data.ts');
+
+function readRows(file: string): string[][] {
+  const lines = fs
+    .readFileSync(file, 'utf-8')
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((l) => l.trim());
+  const delimiter = [';', '\t', ','].find((d) => lines[0]?.includes(d)) || ';';
+
+  // Names contain the delimiter ("Handel; reparation av ..."), so cells may be quoted
+  return lines.map((line) => splitCsvLine(line, delimiter).map((cell) => cell.trim()));
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function formatRow([code, parent, name_sv, name_en]: [string, string | null, string, string]): string {
+  return `  [${[quote(code), parent ? quote(parent) : 'null', quote(name_sv), quote(name_en)].join(', ')}],`;
+}
+
+async function buildTaxonomy() {
+  const [file, englishFile] = process.argv.slice(2);
+
+  if (!file) {
+    console.error('Usage: build-sni <sni2007.csv> [english.csv]');
+    process.exit(1);
+  }
+
+  const english = new Map(
+    englishFile ? readRows(englishFile).map(([code, name]) => [normalizeSniCode(code), name]) : []
+  );
+  // Division -> section never changes within SNI 2007; reuse the bundled mapping
+  const sectionOf = new Map(
+    SNI_2007.filter(([, parent]) => parent && /^[A-U]$/.test(parent)).map(([code, parent]) => [code, parent!])
+  );
+
+  const rows: Array<[string, string | null, string, string]> = [];
+  const levels = new Set<SniLevel>();
+
+  for (const [rawCode, name_sv, name_en] of readRows(file)) {
+    const code = normalizeSniCode(rawCode || '');
+    const level = levelOf(code);
+    if (!level || !name_sv) continue; // header or blank line
+
+    const parent =
+      level === 'section'
+        ? null
+        : level === 'division'
+          ? sectionOf.get(code) || null
+          : code.slice(0, code.length - 1);
+
+    rows.push([code, parent, name_sv, name_en || english.get(code) || '']);
+    levels.add(level);
+  }
+
+  // A partial bundle would let made-up codes below its deepest level validate
+  const problems = hierarchyProblems(rows);
+  if (problems.length > 0) {
+    console.error(`❌ ${file} is not the complete SNI 2007 hierarchy:`);
+    for (const problem of problems) console.error(`   - ${problem}`);
+    process.exit(1);
+  }
+
+  const bundled = SNI_LEVELS.filter((l) => levels.has(l));
+  const source = `/**
+ * SNI 2007 classification data (Statistics Sweden, based on NACE Rev. 2)
+ * Generated by scripts/build-sni-taxonomy.ts - do not edit by hand.
+ *
+ * Rows are [code, parent, name_sv, name_en]. Codes are stored without dots:
+ * section "J", division "62", group "620", class "6201", subclass "62010".
+ */
+
+import { SniLevel } from '../types.js';
+
+/**
+ * Levels present in this file; codes below the deepest level are validated
+ * against their ancestor at that level
+ */
+export const SNI_2007_LEVELS: SniLevel[] = [${bundled.map(quote).join(', ')}];
+
+export const SNI_2007: Array<[string, string | null, string, string]> = [
+${rows.map(formatRow).join('\n')}
+];
+`;
+
+  fs.writeFileSync(OUTPUT, source);
+  console.log(`✅ Wrote ${rows.length} SNI codes (${bundled.join(', ')}) to ${OUTPUT}`);
+}
+
+buildTaxonomy().catch((error) => {
+  console.error('❌ Build failed:', error);
+  process.exit(1);
+});
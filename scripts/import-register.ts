@@ -0,0 +1,47 @@
+/**
+ * Bolagsverket register import script
+ * Seeds the cache from a downloaded bulk register file (no scraping)
+ *
+ * Usage:
+ *   npm run import-register -- <file.csv|file.txt|file.json> [--limit N] [--dry-run]
+ */
+
+import { CompanyDatabase } from '../src/cache/database.js';
+import { importRegisterFile } from '../src/importers/bolagsverket.js';
+import { DEFAULT_CONFIG } from '../src/types.js';
+import fs from 'fs';
+
+async function importRegister() {
+  const args = process.argv.slice(2);
+  const file = args.find((a, i) => !a.startsWith('--') && args[i - 1] !== '--limit');
+  const limitIndex = args.indexOf('--limit');
+  const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1]) : undefined;
+  const dry_run = args.includes('--dry-run');
+
+  if (!file || !fs.existsSync(file) || (limit !== undefined && isNaN(limit))) {
+    console.error('Usage: import-register <file.csv|file.txt|file.json> [--limit N] [--dry-run]');
+    process.exit(1);
+  }
+
+  console.log(`📥 Importing ${file} into ${DEFAULT_CONFIG.database_path}${dry_run ? ' (dry run)' : ''}...\n`);
+
+  const db = new CompanyDatabase();
+  const result = await importRegisterFile(db, file, { limit, dry_run });
+  db.close();
+
+  console.log('✅ Import complete!\n');
+  console.log(`  - Rows read: ${result.rows_read}`);
+  console.log(`  - Inserted: ${result.inserted}`);
+  console.log(`  - Updated: ${result.updated}`);
+  console.log(`  - Skipped: ${result.skipped}`);
+  console.log(`  - Duration: ${(result.duration_ms / 1000).toFixed(1)} s`);
+
+  for (const { row, error } of result.errors) {
+    console.log(`  ⚠️  Row ${row}: ${error}`);
+  }
+}
+
+importRegister().catch((error) => {
+  console.error('❌ Import failed:', error);
+  process.exit(1);
+});
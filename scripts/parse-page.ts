@@ -0,0 +1,51 @@
+/**
+ * Offline page parser
+ * Runs merinfo extraction against saved HTML files (no browser, no network)
+ *
+ * Usage:
+ *   npm run parse-page -- company <file.html|dir> [org_number]
+ *   npm run parse-page -- person <file.html|dir> [org_number] [role]
+ */
+
+import { parseCompanyPage, parsePersonPage } from '../src/scraper/merinfo-parser.js';
+import { extractOrgNumber } from '../src/utils/parsers.js';
+import fs from 'fs';
+import path from 'path';
+
+function collectFiles(target: string): string[] {
+  if (fs.statSync(target).isDirectory()) {
+    return fs
+      .readdirSync(target)
+      .filter((f) => f.endsWith('.html') || f.endsWith('.htm'))
+      .map((f) => path.join(target, f));
+  }
+  return [target];
+}
+
+async function parsePages() {
+  const [kind, target, org_number_arg, role = 'Okänd'] = process.argv.slice(2);
+
+  if ((kind !== 'company' && kind !== 'person') || !target) {
+    console.error('Usage: parse-page <company|person> <file.html|dir> [org_number] [role]');
+    process.exit(1);
+  }
+
+  for (const file of collectFiles(target)) {
+    const html = fs.readFileSync(file, 'utf-8');
+    const url = `file://${path.resolve(file)}`;
+    // Fall back to an org number in the file name (e.g. 556631-3788.html)
+    const org_number = org_number_arg || extractOrgNumber(path.basename(file)) || '';
+
+    const result =
+      kind === 'company'
+        ? parseCompanyPage(html, { org_number, url })
+        : parsePersonPage(html, { org_number, role, url });
+
+    console.log(JSON.stringify({ file, result }, null, 2));
+  }
+}
+
+parsePages().catch((error) => {
+  console.error('❌ Parse failed:', error);
+  process.exit(1);
+});
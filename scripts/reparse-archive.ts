@@ -0,0 +1,61 @@
+/**
+ * Page archive re-parse script
+ * Re-runs extraction over the archived raw pages and updates the cache (no scraping)
+ *
+ * Usage:
+ *   npm run reparse-archive -- [org_number ...] [--limit N] [--dry-run]
+ */
+
+import { CompanyDatabase } from '../src/cache/database.js';
+import { pageArchive } from '../src/cache/page-archive.js';
+import { reparseArchive } from '../src/importers/page-archive.js';
+import { DEFAULT_CONFIG } from '../src/types.js';
+import { OrgNumberSchema } from '../src/utils/validators.js';
+
+async function reparse() {
+  const args = process.argv.slice(2);
+  const limitIndex = args.indexOf('--limit');
+  const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1]) : undefined;
+  const dry_run = args.includes('--dry-run');
+  const positional = args.filter((a, i) => !a.startsWith('--') && args[i - 1] !== '--limit');
+  const parsed = positional.map((a) => OrgNumberSchema.safeParse(a));
+
+  if ((limit !== undefined && isNaN(limit)) || parsed.some((p) => !p.success)) {
+    console.error('Usage: reparse-archive [org_number ...] [--limit N] [--dry-run]');
+    process.exit(1);
+  }
+  const org_numbers = parsed.map((p) => p.data!);
+
+  console.log(
+    `🔁 Re-parsing ${DEFAULT_CONFIG.page_archive_path} into ${DEFAULT_CONFIG.database_path}${dry_run ? ' (dry run)' : ''}...\n`
+  );
+
+  const db = new CompanyDatabase();
+  const result = await reparseArchive(db, {
+    org_numbers: org_numbers.length > 0 ? org_numbers : undefined,
+    limit,
+    dry_run,
+  });
+  db.close();
+  pageArchive.close();
+
+  console.log('✅ Re-parse complete!\n');
+  console.log(`  - Companies read: ${result.companies_read}`);
+  console.log(`  - ${dry_run ? 'Would update' : 'Updated'}: ${result.updated}`);
+  console.log(`  - Unchanged: ${result.unchanged}`);
+  console.log(`  - Skipped: ${result.skipped}`);
+  console.log(`  - People saved: ${result.people_saved}`);
+  console.log(`  - Duration: ${(result.duration_ms / 1000).toFixed(1)} s`);
+
+  for (const [field, count] of Object.entries(result.changed_fields)) {
+    console.log(`  • ${field}: ${count}`);
+  }
+  for (const { org_number, error } of result.errors) {
+    console.log(`  ⚠️  ${org_number}: ${error}`);
+  }
+}
+
+reparse().catch((error) => {
+  console.error('❌ Re-parse failed:', error);
+  process.exit(1);
+});
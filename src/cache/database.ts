@@ -4,12 +4,68 @@
  */
 
 import Database from 'better-sqlite3';
-import { SCHEMA_SQL, CLEANUP_SQL } from './schema.js';
-import { CompanyData, PersonDetails, CacheStats, DEFAULT_CONFIG } from '../types.js';
+import { SCHEMA_SQL, CLEANUP_SQL, COLUMN_MIGRATIONS } from './schema.js';
+import {
+  CompanyData,
+  PersonDetails,
+  PersonProfile,
+  PersonEngagement,
+  FinancialYear,
+  ExtractionReport,
+  SelectorHealth,
+  CacheStats,
+  RegisterCompany,
+  ScrapeJob,
+  ScrapeJobStatus,
+  QueueSummary,
+  SCRAPE_JOB_STATUSES,
+  CircuitBreakerState,
+  DataSubject,
+  ErasureMode,
+  DEFAULT_CONFIG,
+} from '../types.js';
 import { logger, logCacheOperation } from '../utils/logger.js';
+import {
+  ANONYMIZED_NAME,
+  anonymizePerson,
+  birthYears,
+  identifierHash,
+  matchPerson,
+  nameKey,
+} from '../utils/person-match.js';
+import { sniTaxonomy } from '../taxonomy/sni.js';
 import path from 'path';
 import fs from 'fs';
 
+/**
+ * Columns a register import writes, with their field_sources path
+ */
+const REGISTER_COLUMNS: Array<[keyof RegisterCompany & string, string]> = [
+  ['name', 'name'],
+  ['legal_form', 'legal_form'],
+  ['status', 'status'],
+  ['registration_date', 'registration_date'],
+  ['address', 'contact.address'],
+  ['postal_code', 'contact.postal_code'],
+  ['city', 'contact.city'],
+  ['activity_description', 'industry.activity_description'],
+];
+
+/**
+ * Thresholds for flagging selector drift
+ */
+const SELECTOR_DRIFT = {
+  min_recent_samples: 5,
+  min_baseline_samples: 10,
+  min_baseline_rate: 0.5,
+  min_drop: 0.4,
+};
+
+/**
+ * Thrown inside a transaction to roll it back
+ */
+const ROLLBACK = Symbol('rollback');
+
 export class CompanyDatabase {
   private db: Database.Database;
 
@@ -23,6 +79,7 @@ export class CompanyDatabase {
     this.db = new Database(dbPath);
     this.db.pragma('journal_mode = WAL');
     this.db.pragma('foreign_keys = ON');
+    this.db.function('name_key', { deterministic: true }, (name) => (typeof name === 'string' ? nameKey(name) : null));
     this.initialize();
 
     logger.info({ path: dbPath }, 'Database initialized');
@@ -33,6 +90,41 @@ export class CompanyDatabase {
    */
   private initialize(): void {
     this.db.exec(SCHEMA_SQL);
+    this.migrateColumns();
+    this.migrateFtsTriggers();
+  }
+
+  /**
+   * Replace FTS triggers from older schemas, which broke the index whenever a company
+   * name changed, and rebuild the index from the companies table
+   */
+  private migrateFtsTriggers(): void {
+    const trigger = this.db
+      .prepare(`SELECT sql FROM sqlite_master WHERE type = 'trigger' AND name = 'companies_fts_update'`)
+      .get() as { sql: string } | undefined;
+    if (!trigger || trigger.sql.includes(`'delete'`)) return;
+
+    this.db.exec(`
+      DROP TRIGGER companies_fts_insert;
+      DROP TRIGGER companies_fts_update;
+      DROP TRIGGER companies_fts_delete;
+    `);
+    this.db.exec(SCHEMA_SQL);
+    this.db.exec(`INSERT INTO companies_fts(companies_fts) VALUES ('rebuild')`);
+    logger.info('Full-text search triggers replaced and index rebuilt');
+  }
+
+  /**
+   * Add columns that older databases are missing
+   */
+  private migrateColumns(): void {
+    for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (columns.some((c) => c.name === column)) continue;
+
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      logger.info({ table, column }, 'Database column added');
+    }
   }
 
   /**
@@ -53,7 +145,16 @@ export class CompanyDatabase {
     }
 
     logCacheOperation('read', org_number, true);
-    return this.rowToCompany(row);
+    const company = this.rowToCompany(row);
+    const history = this.getFinancialHistory(org_number);
+    if (history.length > 0) {
+      company.financial_history = history;
+    }
+    // Only single-company reads carry provenance; listings stay compact
+    if (row.field_provenance) {
+      company.field_provenance = JSON.parse(row.field_provenance);
+    }
+    return company;
   }
 
   /**
@@ -63,18 +164,22 @@ export class CompanyDatabase {
     const stmt = this.db.prepare(`
       INSERT INTO companies (
         org_number, name, legal_form, status, registration_date,
-        phone, address, postal_code, city, municipality, county,
+        phone, email, website, address, postal_code, city, municipality, county,
         f_skatt, vat_registered, employer_registered,
         financial_period, revenue, profit_after_financial, net_profit, total_assets, currency,
         sni_code, sni_description, categories, activity_description,
-        bankgiro_number, has_remarks, remarks, source_url, scraped_at, updated_at
+        employees, employees_range, share_capital, size_class,
+        bankgiro_number, has_remarks, remarks, remark_details, group_structure, field_sources, field_provenance,
+        origin, source_url, scraped_at, updated_at
       ) VALUES (
         ?, ?, ?, ?, ?,
-        ?, ?, ?, ?, ?, ?,
+        ?, ?, ?, ?, ?, ?, ?, ?,
         ?, ?, ?,
         ?, ?, ?, ?, ?, ?,
         ?, ?, ?, ?,
-        ?, ?, ?, ?, ?, ?
+        ?, ?, ?, ?,
+        ?, ?, ?, ?, ?, ?, ?,
+        ?, ?, ?, ?
       )
       ON CONFLICT(org_number) DO UPDATE SET
         name = excluded.name,
@@ -82,6 +187,8 @@ export class CompanyDatabase {
         status = excluded.status,
         registration_date = excluded.registration_date,
         phone = excluded.phone,
+        email = excluded.email,
+        website = excluded.website,
         address = excluded.address,
         postal_code = excluded.postal_code,
         city = excluded.city,
@@ -100,10 +207,20 @@ export class CompanyDatabase {
         sni_description = excluded.sni_description,
         categories = excluded.categories,
         activity_description = excluded.activity_description,
+        employees = excluded.employees,
+        employees_range = excluded.employees_range,
+        share_capital = excluded.share_capital,
+        size_class = excluded.size_class,
         bankgiro_number = excluded.bankgiro_number,
         has_remarks = excluded.has_remarks,
         remarks = excluded.remarks,
+        remark_details = excluded.remark_details,
+        group_structure = excluded.group_structure,
+        field_sources = excluded.field_sources,
+        field_provenance = excluded.field_provenance,
+        origin = excluded.origin,
         source_url = excluded.source_url,
+        scraped_at = excluded.scraped_at,
         updated_at = excluded.updated_at
     `);
 
@@ -114,6 +231,8 @@ export class CompanyDatabase {
       company.status || null,
       company.registration_date || null,
       company.contact.phone || null,
+      company.contact.email || null,
+      company.contact.website || null,
       company.contact.address || null,
       company.contact.postal_code || null,
       company.contact.city || null,
@@ -132,17 +251,85 @@ export class CompanyDatabase {
       company.industry.sni_description || null,
       JSON.stringify(company.industry.categories || []),
       company.industry.activity_description || null,
+      company.employees ?? null,
+      company.employees_range || null,
+      company.share_capital ?? null,
+      company.size_class || null,
       company.bankgiro_number || null,
       company.has_remarks ? 1 : 0,
       company.remarks || null,
+      company.remark_details?.length ? JSON.stringify(company.remark_details) : null,
+      company.group ? JSON.stringify(company.group) : null,
+      company.field_sources ? JSON.stringify(company.field_sources) : null,
+      company.field_provenance ? JSON.stringify(company.field_provenance) : null,
+      'scrape',
       company.source_url,
       company.scraped_at,
       new Date().toISOString()
     );
 
+    // Keep earlier fiscal years; only upsert what this scrape saw
+    const history = company.financial_history?.length
+      ? company.financial_history
+      : company.financials?.fiscal_year
+        ? [{ ...company.financials, fiscal_year: company.financials.fiscal_year }]
+        : [];
+    this.saveFinancialHistory(company.org_number, history, company.scraped_at);
+
     logCacheOperation('write', company.org_number, true);
   }
 
+  /**
+   * Get financial history for a company (oldest fiscal year first)
+   */
+  getFinancialHistory(org_number: string): FinancialYear[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM financials WHERE org_number = ? ORDER BY fiscal_year ASC`)
+      .all(org_number) as any[];
+
+    return rows.map(this.rowToFinancialYear);
+  }
+
+  /**
+   * Upsert financial history, one row per fiscal year
+   */
+  saveFinancialHistory(org_number: string, history: FinancialYear[], scraped_at?: string): void {
+    if (history.length === 0) return;
+
+    const stmt = this.db.prepare(`
+      INSERT INTO financials (
+        org_number, fiscal_year, period, revenue, profit_after_financial,
+        net_profit, total_assets, currency, scraped_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(org_number, fiscal_year) DO UPDATE SET
+        period = excluded.period,
+        revenue = COALESCE(excluded.revenue, financials.revenue),
+        profit_after_financial = COALESCE(excluded.profit_after_financial, financials.profit_after_financial),
+        net_profit = COALESCE(excluded.net_profit, financials.net_profit),
+        total_assets = COALESCE(excluded.total_assets, financials.total_assets),
+        currency = excluded.currency,
+        scraped_at = excluded.scraped_at
+    `);
+
+    const upsert = this.db.transaction((years: FinancialYear[]) => {
+      for (const year of years) {
+        stmt.run(
+          org_number,
+          year.fiscal_year,
+          year.period || null,
+          year.revenue ?? null,
+          year.profit_after_financial ?? null,
+          year.net_profit ?? null,
+          year.total_assets ?? null,
+          year.currency || 'SEK',
+          scraped_at || new Date().toISOString()
+        );
+      }
+    });
+
+    upsert(history);
+  }
+
   /**
    * Get board members for a company
    */
@@ -154,6 +341,69 @@ export class CompanyDatabase {
     return rows.map(this.rowToPerson);
   }
 
+  /**
+   * Upsert companies from a Bolagsverket register file
+   * Register rows are overwritten on re-import; scraped rows only have missing values filled
+   */
+  upsertRegisterCompanies(records: RegisterCompany[]): { inserted: number; updated: number } {
+    const columns = REGISTER_COLUMNS.map(([column]) => column);
+    const exists = this.db.prepare(`SELECT 1 FROM companies WHERE org_number = ?`);
+    const stmt = this.db.prepare(`
+      INSERT INTO companies (
+        org_number, ${columns.join(', ')},
+        field_sources, field_provenance, origin, imported_at, scraped_at, updated_at
+      ) VALUES (?, ${columns.map(() => '?').join(', ')}, ?, ?, 'register', ?, NULL, ?)
+      ON CONFLICT(org_number) DO UPDATE SET
+        ${columns
+          .map(
+            (c) =>
+              `${c} = CASE WHEN companies.origin = 'register' THEN excluded.${c} ELSE COALESCE(companies.${c}, excluded.${c}) END`
+          )
+          .join(',\n        ')},
+        field_sources = CASE WHEN companies.origin = 'register' THEN excluded.field_sources ELSE companies.field_sources END,
+        field_provenance = CASE WHEN companies.origin = 'register' THEN excluded.field_provenance ELSE companies.field_provenance END,
+        imported_at = excluded.imported_at,
+        updated_at = excluded.updated_at
+    `);
+
+    let inserted = 0;
+    let updated = 0;
+    const now = new Date().toISOString();
+
+    const upsert = this.db.transaction((records: RegisterCompany[]) => {
+      for (const record of records) {
+        const present = REGISTER_COLUMNS.filter(([column]) => record[column]);
+        const field_sources = Object.fromEntries(present.map(([, field]) => [field, 'bolagsverket']));
+        const field_provenance = Object.fromEntries(
+          present.map(([column, field]) => [
+            field,
+            { source: 'bolagsverket', extracted_at: now, rule: `register:${column}`, status: 'found', confidence: 'high' },
+          ])
+        );
+
+        if (exists.get(record.org_number)) {
+          updated++;
+        } else {
+          inserted++;
+        }
+
+        stmt.run(
+          record.org_number,
+          ...columns.map((c) => record[c] || null),
+          JSON.stringify(field_sources),
+          JSON.stringify(field_provenance),
+          now,
+          now
+        );
+      }
+    });
+
+    upsert(records);
+    logger.info({ inserted, updated }, 'Register companies upserted');
+
+    return { inserted, updated };
+  }
+
   /**
    * Save board members
    */
@@ -161,14 +411,15 @@ export class CompanyDatabase {
     // Delete existing members
     this.db.prepare(`DELETE FROM people WHERE org_number = ?`).run(org_number);
 
+    members = this.applySuppressions(members);
     if (members.length === 0) return;
 
     // Insert new members
     const stmt = this.db.prepare(`
       INSERT INTO people (
         org_number, name, role, personal_number, age, phone,
-        street, apartment, postal_code, city, profile_url, scraped_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        street, apartment, postal_code, city, profile_url, source, scraped_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const insert = this.db.transaction((members: PersonDetails[]) => {
@@ -185,6 +436,7 @@ export class CompanyDatabase {
           member.address.postal_code || null,
           member.address.city || null,
           member.profile_url || null,
+          member.source || null,
           member.scraped_at || new Date().toISOString()
         );
       }
@@ -193,6 +445,386 @@ export class CompanyDatabase {
     insert(members);
   }
 
+  /**
+   * Get profile URL for a cached person row
+   */
+  getPersonProfileUrl(person_id: number): string | null {
+    const row = this.db
+      .prepare(`SELECT profile_url FROM people WHERE id = ?`)
+      .get(person_id) as { profile_url: string | null } | undefined;
+
+    return row?.profile_url || null;
+  }
+
+  /**
+   * Get cached engagements for a person profile
+   */
+  getPersonProfile(profile_url: string): PersonProfile | null {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM person_engagements WHERE profile_url = ? ORDER BY is_current DESC, from_date DESC`
+      )
+      .all(profile_url) as any[];
+
+    if (rows.length === 0) return null;
+
+    return {
+      name: rows[0].person_name,
+      profile_url,
+      engagements: rows.map(this.rowToEngagement),
+      scraped_at: rows[0].scraped_at,
+    };
+  }
+
+  /**
+   * Save person engagements (replaces previous snapshot for the profile)
+   */
+  savePersonProfile(profile: PersonProfile): void {
+    if (this.getSuppression({ profile_url: profile.profile_url })) {
+      logger.debug('Skipping engagements of a suppressed person');
+      return;
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO person_engagements (
+        profile_url, person_name, org_number, company_name, role,
+        is_current, from_date, to_date, company_url, scraped_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = this.db.transaction((profile: PersonProfile) => {
+      this.db.prepare(`DELETE FROM person_engagements WHERE profile_url = ?`).run(profile.profile_url);
+
+      for (const engagement of profile.engagements) {
+        stmt.run(
+          profile.profile_url,
+          profile.name,
+          engagement.org_number,
+          engagement.company_name,
+          engagement.role,
+          engagement.current ? 1 : 0,
+          engagement.from_date || null,
+          engagement.to_date || null,
+          engagement.company_url || null,
+          profile.scraped_at
+        );
+      }
+    });
+
+    save(profile);
+  }
+
+  /**
+   * Stored people matching a data subject, every other row under their profile URLs,
+   * and same-name rows without a birth year to confirm
+   */
+  findPeople(subject: DataSubject): { people: PersonDetails[]; unverified: PersonDetails[]; profile_urls: string[] } {
+    const candidates = (
+      this.db
+        .prepare(`SELECT * FROM people WHERE profile_url = ? OR name_key(name) = ?`)
+        .all(subject.profile_url ?? null, subject.name ? nameKey(subject.name) : null) as any[]
+    ).map(this.rowToPerson);
+
+    const people = candidates.filter((p) => matchPerson(p, subject) === 'match');
+    const profile_urls = [
+      ...new Set([subject.profile_url, ...people.map((p) => p.profile_url)].filter((url): url is string => !!url)),
+    ];
+
+    // A shared profile URL is the same person, whatever name or age the other row has
+    if (profile_urls.length > 0) {
+      const found = new Set(people.map((p) => p.id));
+      const linked = this.db
+        .prepare(`SELECT * FROM people WHERE profile_url IN (${profile_urls.map(() => '?').join(', ')})`)
+        .all(...profile_urls) as any[];
+      people.push(...linked.map(this.rowToPerson).filter((p) => !found.has(p.id)));
+    }
+
+    const ids = new Set(people.map((p) => p.id));
+    const unverified = candidates.filter((p) => !ids.has(p.id) && matchPerson(p, subject) === 'unverified');
+
+    return { people, unverified, profile_urls };
+  }
+
+  /**
+   * Delete or anonymize people rows, and drop the engagements stored under their profile URLs
+   */
+  erasePeople(ids: number[], profile_urls: string[], mode: ErasureMode): { people: number; engagements: number } {
+    const erasePerson =
+      mode === 'delete'
+        ? this.db.prepare(`DELETE FROM people WHERE id = ?`)
+        : this.db.prepare(`
+            UPDATE people SET
+              name = '${ANONYMIZED_NAME}', personal_number = NULL, age = NULL, phone = NULL,
+              street = NULL, apartment = NULL, postal_code = NULL, city = NULL, profile_url = NULL
+            WHERE id = ?
+          `);
+    const eraseEngagements = this.db.prepare(`DELETE FROM person_engagements WHERE profile_url = ?`);
+
+    return this.transaction(() => ({
+      people: ids.reduce((count, id) => count + erasePerson.run(id).changes, 0),
+      engagements: profile_urls.reduce((count, url) => count + eraseEngagements.run(url).changes, 0),
+    }));
+  }
+
+  /**
+   * Keep an erased person out of future scrapes; identifiers are stored hashed
+   */
+  suppressPerson(subject: DataSubject, profile_urls: string[], mode: ErasureMode): void {
+    const remove = this.db.prepare(
+      `DELETE FROM suppressed_people WHERE name_hash IS ? AND birth_year IS ? AND profile_url_hash IS ?`
+    );
+    const insert = this.db.prepare(
+      `INSERT INTO suppressed_people (name_hash, birth_year, profile_url_hash, mode) VALUES (?, ?, ?, ?)`
+    );
+    const entries: Array<[string | null, number | null, string | null]> = profile_urls.map((url) => [
+      null,
+      null,
+      identifierHash(url),
+    ]);
+    if (subject.name && subject.birth_year) {
+      entries.push([identifierHash(nameKey(subject.name)), subject.birth_year, null]);
+    }
+
+    this.transaction(() => {
+      for (const entry of entries) {
+        remove.run(...entry);
+        insert.run(...entry, mode);
+      }
+    });
+  }
+
+  /**
+   * How a data subject was erased, or null if they are not suppressed
+   */
+  getSuppression(subject: DataSubject): ErasureMode | null {
+    return this.suppressionMatcher()(subject.name, subject.birth_year ? [subject.birth_year] : [], subject.profile_url);
+  }
+
+  /**
+   * Drop or anonymize people who were erased on request
+   */
+  applySuppressions(members: PersonDetails[]): PersonDetails[] {
+    const suppression = this.suppressionMatcher();
+
+    return members.flatMap((member) => {
+      const mode = suppression(member.name, birthYears(member), member.profile_url);
+      return mode === 'delete' ? [] : mode === 'anonymize' ? [anonymizePerson(member)] : [member];
+    });
+  }
+
+  /**
+   * Add org numbers to the scrape queue (skips ones already pending)
+   * Returns the number of newly queued jobs
+   */
+  enqueueScrape(org_numbers: string[], priority: number = 5, include_board: boolean = true): number {
+    const exists = this.db.prepare(
+      `SELECT 1 FROM scrape_queue WHERE org_number = ? AND status IN ('pending', 'processing')`
+    );
+    const insert = this.db.prepare(
+      `INSERT INTO scrape_queue (org_number, priority, include_board) VALUES (?, ?, ?)`
+    );
+
+    const enqueue = this.db.transaction((org_numbers: string[]) => {
+      let queued = 0;
+      for (const org_number of new Set(org_numbers)) {
+        if (exists.get(org_number)) continue;
+        insert.run(org_number, priority, include_board ? 1 : 0);
+        queued++;
+      }
+      return queued;
+    });
+
+    return enqueue(org_numbers);
+  }
+
+  /**
+   * Claim the next runnable job (highest priority, then oldest) and mark it processing
+   * With `min_priority`, lower-priority jobs are left in the queue.
+   */
+  claimNextScrapeJob(min_priority?: number): ScrapeJob | null {
+    const claim = this.db.transaction(() => {
+      const row = this.db
+        .prepare(
+          `
+        SELECT * FROM scrape_queue
+        WHERE status = 'pending'
+        AND (available_at IS NULL OR available_at <= datetime('now'))
+        ${min_priority !== undefined ? 'AND priority >= ?' : ''}
+        ORDER BY priority DESC, created_at ASC, id ASC
+        LIMIT 1
+      `
+        )
+        .get(...(min_priority !== undefined ? [min_priority] : [])) as any;
+
+      if (!row) return null;
+
+      this.db
+        .prepare(
+          `UPDATE scrape_queue SET status = 'processing', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+        )
+        .run(row.id);
+
+      return this.rowToScrapeJob({ ...row, status: 'processing', attempts: row.attempts + 1 });
+    });
+
+    return claim();
+  }
+
+  /**
+   * Mark a job completed
+   */
+  completeScrapeJob(id: number): void {
+    this.db
+      .prepare(
+        `UPDATE scrape_queue SET status = 'completed', error_message = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+      )
+      .run(id);
+  }
+
+  /**
+   * Record a failed attempt: back to pending after `retry_in_ms`, or failed for good when null
+   */
+  failScrapeJob(id: number, error_message: string, retry_in_ms: number | null): void {
+    if (retry_in_ms === null) {
+      this.db
+        .prepare(
+          `UPDATE scrape_queue SET status = 'failed', error_message = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+        )
+        .run(error_message, id);
+      return;
+    }
+
+    this.db
+      .prepare(
+        `
+      UPDATE scrape_queue
+      SET status = 'pending', error_message = ?,
+          available_at = datetime('now', '+' || ? || ' seconds'),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `
+      )
+      .run(error_message, Math.ceil(retry_in_ms / 1000), id);
+  }
+
+  /**
+   * Postpone a claimed job without using up an attempt (e.g. while a circuit breaker is open)
+   */
+  deferScrapeJob(id: number, retry_in_ms: number, reason: string): void {
+    this.db
+      .prepare(
+        `
+      UPDATE scrape_queue
+      SET status = 'pending', attempts = MAX(attempts - 1, 0), error_message = ?,
+          available_at = datetime('now', '+' || ? || ' seconds'),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `
+      )
+      .run(reason, Math.ceil(retry_in_ms / 1000), id);
+  }
+
+  /**
+   * Put failed jobs back in the queue with a fresh attempt budget
+   * Without ids, all failed jobs are retried. Returns the number of jobs requeued.
+   */
+  retryFailedScrapeJobs(ids?: number[]): number {
+    const sql = `
+      UPDATE scrape_queue
+      SET status = 'pending', attempts = 0, available_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE status = 'failed'`;
+
+    if (!ids) {
+      return this.db.prepare(sql).run().changes;
+    }
+    if (ids.length === 0) return 0;
+
+    return this.db.prepare(`${sql} AND id IN (${ids.map(() => '?').join(', ')})`).run(...ids).changes;
+  }
+
+  /**
+   * Return jobs left in processing by a previous run to the queue
+   */
+  resetProcessingScrapeJobs(): number {
+    return this.db
+      .prepare(
+        `UPDATE scrape_queue SET status = 'pending', updated_at = CURRENT_TIMESTAMP WHERE status = 'processing'`
+      )
+      .run().changes;
+  }
+
+  /**
+   * Pending jobs at a given priority
+   */
+  countPendingScrapeJobs(priority: number): number {
+    const row = this.db
+      .prepare(`SELECT COUNT(*) as count FROM scrape_queue WHERE status = 'pending' AND priority = ?`)
+      .get(priority) as { count: number };
+
+    return row.count;
+  }
+
+  getScrapeJob(id: number): ScrapeJob | null {
+    const row = this.db.prepare(`SELECT * FROM scrape_queue WHERE id = ?`).get(id);
+    return row ? this.rowToScrapeJob(row) : null;
+  }
+
+  /**
+   * Jobs filtered by status and/or org number, newest first
+   */
+  listScrapeJobs(params: { status?: ScrapeJobStatus; org_number?: string; limit?: number }): ScrapeJob[] {
+    let sql = 'SELECT * FROM scrape_queue WHERE 1=1';
+    const values: any[] = [];
+
+    if (params.status) {
+      sql += ' AND status = ?';
+      values.push(params.status);
+    }
+
+    if (params.org_number) {
+      sql += ' AND org_number = ?';
+      values.push(params.org_number);
+    }
+
+    sql += ' ORDER BY updated_at DESC, id DESC LIMIT ?';
+    values.push(params.limit || 50);
+
+    return (this.db.prepare(sql).all(...values) as any[]).map((row) => this.rowToScrapeJob(row));
+  }
+
+  /**
+   * Job counts by status
+   */
+  getQueueSummary(): QueueSummary {
+    const rows = this.db
+      .prepare(`SELECT status, COUNT(*) as count FROM scrape_queue GROUP BY status`)
+      .all() as { status: ScrapeJobStatus; count: number }[];
+
+    const oldest = this.db
+      .prepare(`SELECT MIN(created_at) as oldest FROM scrape_queue WHERE status = 'pending'`)
+      .get() as { oldest: string | null };
+
+    const next = this.db
+      .prepare(
+        `
+      SELECT * FROM scrape_queue
+      WHERE status = 'pending'
+      ORDER BY priority DESC, created_at ASC, id ASC
+      LIMIT 1
+    `
+      )
+      .get();
+
+    return {
+      counts: {
+        ...(Object.fromEntries(SCRAPE_JOB_STATUSES.map((s) => [s, 0])) as Record<ScrapeJobStatus, number>),
+        ...Object.fromEntries(rows.map((r) => [r.status, r.count])),
+      },
+      next_job: next ? this.rowToScrapeJob(next) : undefined,
+      oldest_pending_at: oldest.oldest || undefined,
+    };
+  }
+
   /**
    * Search companies by name (full-text search)
    */
@@ -220,14 +852,21 @@ export class CompanyDatabase {
     category?: string;
     city?: string;
     min_revenue?: number;
+    min_employees?: number;
+    max_employees?: number;
+    size_class?: string;
+    min_share_capital?: number;
+    has_website?: boolean;
+    has_email?: boolean;
     limit?: number;
   }): CompanyData[] {
     let sql = 'SELECT * FROM companies WHERE 1=1';
     const values: any[] = [];
 
     if (params.sni_code) {
-      sql += ' AND sni_code = ?';
-      values.push(params.sni_code);
+      const filter = this.sniFilter(params.sni_code);
+      sql += ` AND ${filter.sql}`;
+      values.push(...filter.values);
     }
 
     if (params.category) {
@@ -245,6 +884,34 @@ export class CompanyDatabase {
       values.push(params.min_revenue);
     }
 
+    if (params.min_employees !== undefined) {
+      sql += ' AND employees >= ?';
+      values.push(params.min_employees);
+    }
+
+    if (params.max_employees !== undefined) {
+      sql += ' AND employees <= ?';
+      values.push(params.max_employees);
+    }
+
+    if (params.size_class) {
+      sql += ' AND size_class = ?';
+      values.push(params.size_class);
+    }
+
+    if (params.min_share_capital !== undefined) {
+      sql += ' AND share_capital >= ?';
+      values.push(params.min_share_capital);
+    }
+
+    if (params.has_website !== undefined) {
+      sql += params.has_website ? ' AND website IS NOT NULL' : ' AND website IS NULL';
+    }
+
+    if (params.has_email !== undefined) {
+      sql += params.has_email ? ' AND email IS NOT NULL' : ' AND email IS NULL';
+    }
+
     sql += ' ORDER BY revenue DESC LIMIT ?';
     values.push(params.limit || 20);
 
@@ -278,6 +945,7 @@ export class CompanyDatabase {
     city?: string;
     status?: string;
     has_remarks?: boolean;
+    remark_type?: string;
     sort_by?: string;
     order?: string;
     limit?: number;
@@ -301,6 +969,14 @@ export class CompanyDatabase {
       values.push(params.has_remarks ? 1 : 0);
     }
 
+    if (params.remark_type) {
+      sql += ` AND EXISTS (
+        SELECT 1 FROM json_each(companies.remark_details)
+        WHERE json_extract(value, '$.type') = ?
+      )`;
+      values.push(params.remark_type);
+    }
+
     const sortBy = params.sort_by || 'scraped_at';
     const order = params.order || 'desc';
     sql += ` ORDER BY ${sortBy} ${order.toUpperCase()}`;
@@ -312,6 +988,80 @@ export class CompanyDatabase {
     return rows.map(this.rowToCompany);
   }
 
+  /**
+   * Record which fields resolved in each scraped page
+   */
+  recordExtraction(reports: ExtractionReport[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO selector_hits (page_type, field, resolved, selector, registry_version)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const record = this.db.transaction((reports: ExtractionReport[]) => {
+      for (const report of reports) {
+        for (const [field, resolution] of Object.entries(report.fields)) {
+          stmt.run(
+            report.page_type,
+            field,
+            resolution.resolved ? 1 : 0,
+            resolution.selector || null,
+            report.registry_version
+          );
+        }
+      }
+    });
+
+    record(reports);
+  }
+
+  /**
+   * Compare each field's recent hit rate against its earlier baseline
+   * A field drifts when it used to resolve reliably and suddenly stops
+   */
+  getSelectorHealth(recent_pages: number = 20, baseline_pages: number = 100): SelectorHealth[] {
+    const fields = this.db
+      .prepare('SELECT DISTINCT page_type, field FROM selector_hits ORDER BY page_type, field')
+      .all() as { page_type: string; field: string }[];
+
+    const history = this.db.prepare(`
+      SELECT resolved, selector FROM selector_hits
+      WHERE page_type = ? AND field = ?
+      ORDER BY id DESC
+      LIMIT ?
+    `);
+
+    return fields.map(({ page_type, field }) => {
+      const rows = history.all(page_type, field, recent_pages + baseline_pages) as {
+        resolved: number;
+        selector: string | null;
+      }[];
+
+      const recent = rows.slice(0, recent_pages);
+      const baseline = rows.slice(recent_pages);
+      const rate = (sample: typeof rows) =>
+        sample.length > 0 ? sample.filter((r) => r.resolved).length / sample.length : 0;
+
+      const recent_hit_rate = rate(recent);
+      const baseline_hit_rate = baseline.length > 0 ? rate(baseline) : null;
+
+      return {
+        page_type,
+        field,
+        recent_hit_rate: Math.round(recent_hit_rate * 100) / 100,
+        baseline_hit_rate: baseline_hit_rate !== null ? Math.round(baseline_hit_rate * 100) / 100 : null,
+        recent_samples: recent.length,
+        baseline_samples: baseline.length,
+        last_selector: rows.find((r) => r.selector)?.selector || undefined,
+        drift:
+          baseline_hit_rate !== null &&
+          recent.length >= SELECTOR_DRIFT.min_recent_samples &&
+          baseline.length >= SELECTOR_DRIFT.min_baseline_samples &&
+          baseline_hit_rate >= SELECTOR_DRIFT.min_baseline_rate &&
+          baseline_hit_rate - recent_hit_rate >= SELECTOR_DRIFT.min_drop,
+      };
+    });
+  }
+
   /**
    * Get cache statistics
    */
@@ -342,6 +1092,10 @@ export class CompanyDatabase {
       .prepare('SELECT status, COUNT(*) as count FROM companies GROUP BY status')
       .all() as { status: string; count: number }[];
 
+    const origins = this.db
+      .prepare('SELECT origin, COUNT(*) as count FROM companies GROUP BY origin')
+      .all() as { origin: string | null; count: number }[];
+
     // Get database file size
     const dbPath = (this.db as any).name;
     const stats = fs.existsSync(dbPath) ? fs.statSync(dbPath) : { size: 0 };
@@ -354,6 +1108,7 @@ export class CompanyDatabase {
       cache_size_mb: Math.round((stats.size / 1024 / 1024) * 100) / 100,
       companies_by_city: Object.fromEntries(cities.map((c) => [c.city, c.count])),
       companies_by_status: Object.fromEntries(statuses.map((s) => [s.status || 'unknown', s.count])),
+      companies_by_origin: Object.fromEntries(origins.map((o) => [o.origin || 'scrape', o.count])),
     };
   }
 
@@ -366,6 +1121,38 @@ export class CompanyDatabase {
     return result.changes;
   }
 
+  /**
+   * Count cached companies within an SNI code (sections and divisions include all subcodes)
+   */
+  countCompaniesBySni(sni_code: string): number {
+    const filter = this.sniFilter(sni_code);
+    const row = this.db
+      .prepare(`SELECT COUNT(*) as count FROM companies WHERE ${filter.sql}`)
+      .get(...filter.values) as { count: number };
+
+    return row.count;
+  }
+
+  /**
+   * SQL prefix match for an SNI code and all its subcodes
+   */
+  private sniFilter(sni_code: string): { sql: string; values: string[] } {
+    const prefixes = sniTaxonomy.expand(sni_code);
+
+    return {
+      sql: `(${prefixes.map(() => "REPLACE(sni_code, '.', '') LIKE ?").join(' OR ')})`,
+      values: prefixes.map((p) => `${p}%`),
+    };
+  }
+
+  /**
+   * Which of the given organization numbers are in the cache
+   */
+  cachedOrgNumbers(org_numbers: string[]): Set<string> {
+    const exists = this.db.prepare(`SELECT 1 FROM companies WHERE org_number = ?`);
+    return new Set(org_numbers.filter((org_number) => exists.get(org_number)));
+  }
+
   /**
    * Check if company cache is stale
    */
@@ -377,9 +1164,107 @@ export class CompanyDatabase {
       FROM companies WHERE org_number = ?
     `
       )
-      .get(org_number) as { age_days: number } | undefined;
+      .get(org_number) as { age_days: number | null } | undefined;
+
+    // Register imports have no scrape time and are always stale
+    return !row || row.age_days === null || row.age_days > stale_days;
+  }
+
+  getCircuitState(name: string): CircuitBreakerState | null {
+    const row = this.db.prepare(`SELECT * FROM circuit_breakers WHERE name = ?`).get(name) as any;
+    if (!row) return null;
+
+    return {
+      name: row.name,
+      state: row.state,
+      consecutive_blocks: row.consecutive_blocks,
+      trips: row.trips,
+      opened_at: row.opened_at ?? undefined,
+      retry_at: row.retry_at ?? undefined,
+      last_page_class: row.last_page_class ?? undefined,
+      updated_at: row.updated_at,
+    };
+  }
+
+  saveCircuitState(state: CircuitBreakerState): void {
+    this.db
+      .prepare(
+        `
+      INSERT INTO circuit_breakers (name, state, consecutive_blocks, trips, opened_at, retry_at, last_page_class, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        state = excluded.state,
+        consecutive_blocks = excluded.consecutive_blocks,
+        trips = excluded.trips,
+        opened_at = excluded.opened_at,
+        retry_at = excluded.retry_at,
+        last_page_class = excluded.last_page_class,
+        updated_at = excluded.updated_at
+    `
+      )
+      .run(
+        state.name,
+        state.state,
+        state.consecutive_blocks,
+        state.trips,
+        state.opened_at || null,
+        state.retry_at || null,
+        state.last_page_class || null,
+        state.updated_at
+      );
+  }
 
-    return !row || row.age_days > stale_days;
+  /**
+   * Count a read of a cached company (used to prioritize background refresh)
+   */
+  recordCompanyAccess(org_number: string): void {
+    this.db
+      .prepare(
+        `UPDATE companies SET access_count = access_count + 1, last_accessed_at = CURRENT_TIMESTAMP WHERE org_number = ?`
+      )
+      .run(org_number);
+  }
+
+  /**
+   * Stale companies to refresh, most accessed first
+   * Register imports only qualify once someone has read them; companies already queued are skipped.
+   */
+  getRefreshCandidates(stale_days: number, limit: number): string[] {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT org_number FROM companies c
+      WHERE (
+        (scraped_at IS NOT NULL AND julianday('now') - julianday(scraped_at) > ?)
+        OR (scraped_at IS NULL AND access_count > 0)
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM scrape_queue q
+        WHERE q.org_number = c.org_number AND q.status IN ('pending', 'processing')
+      )
+      ORDER BY access_count DESC, last_accessed_at DESC, scraped_at ASC
+      LIMIT ?
+    `
+      )
+      .all(stale_days, limit) as { org_number: string }[];
+
+    return rows.map((r) => r.org_number);
+  }
+
+  /**
+   * Number of companies past the staleness threshold
+   */
+  countStaleCompanies(stale_days: number): number {
+    const row = this.db
+      .prepare(
+        `
+      SELECT COUNT(*) as count FROM companies
+      WHERE scraped_at IS NOT NULL AND julianday('now') - julianday(scraped_at) > ?
+    `
+      )
+      .get(stale_days) as { count: number };
+
+    return row.count;
   }
 
   /**
@@ -394,6 +1279,8 @@ export class CompanyDatabase {
       registration_date: row.registration_date,
       contact: {
         phone: row.phone,
+        email: row.email ?? undefined,
+        website: row.website ?? undefined,
         address: row.address,
         postal_code: row.postal_code,
         city: row.city,
@@ -422,14 +1309,93 @@ export class CompanyDatabase {
         activity_description: row.activity_description,
       },
       bankgiro_number: row.bankgiro_number,
+      employees: row.employees ?? undefined,
+      employees_range: row.employees_range ?? undefined,
+      share_capital: row.share_capital ?? undefined,
+      size_class: row.size_class ?? undefined,
       has_remarks: Boolean(row.has_remarks),
       remarks: row.remarks,
+      remark_details: row.remark_details ? JSON.parse(row.remark_details) : undefined,
+      group: row.group_structure ? JSON.parse(row.group_structure) : undefined,
+      field_sources: row.field_sources ? JSON.parse(row.field_sources) : undefined,
+      origin: row.origin ?? 'scrape',
+      imported_at: row.imported_at ?? undefined,
       source_url: row.source_url,
-      scraped_at: row.scraped_at,
+      scraped_at: row.scraped_at ?? '',
       updated_at: row.updated_at,
     };
   }
 
+  /**
+   * Convert database row to ScrapeJob
+   */
+  private rowToScrapeJob(row: any): ScrapeJob {
+    return {
+      id: row.id,
+      org_number: row.org_number,
+      priority: row.priority,
+      status: row.status,
+      attempts: row.attempts,
+      include_board: row.include_board !== 0,
+      error_message: row.error_message ?? undefined,
+      available_at: row.available_at ?? undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  /**
+   * Convert database row to FinancialYear
+   */
+  private rowToFinancialYear(row: any): FinancialYear {
+    return {
+      fiscal_year: row.fiscal_year,
+      period: row.period ?? undefined,
+      revenue: row.revenue ?? undefined,
+      profit_after_financial: row.profit_after_financial ?? undefined,
+      net_profit: row.net_profit ?? undefined,
+      total_assets: row.total_assets ?? undefined,
+      currency: row.currency || 'SEK',
+    };
+  }
+
+  /**
+   * Convert database row to PersonEngagement
+   */
+  private rowToEngagement(row: any): PersonEngagement {
+    return {
+      org_number: row.org_number,
+      company_name: row.company_name,
+      role: row.role,
+      current: Boolean(row.is_current),
+      from_date: row.from_date ?? undefined,
+      to_date: row.to_date ?? undefined,
+      company_url: row.company_url ?? undefined,
+    };
+  }
+
+  /**
+   * Check people against the suppression list, read once; a delete entry wins over anonymize
+   */
+  private suppressionMatcher(): (name?: string, birth_years?: number[], profile_url?: string) => ErasureMode | null {
+    const rows = this.db.prepare(`SELECT * FROM suppressed_people`).all() as any[];
+
+    return (name, birth_years = [], profile_url) => {
+      if (rows.length === 0) return null;
+
+      const urlHash = profile_url ? identifierHash(profile_url) : null;
+      const nameHash = name ? identifierHash(nameKey(name)) : null;
+      const matches = rows.filter(
+        (r) =>
+          (r.profile_url_hash && r.profile_url_hash === urlHash) ||
+          (r.name_hash && r.name_hash === nameHash && birth_years.includes(r.birth_year))
+      );
+
+      if (matches.length === 0) return null;
+      return matches.some((r) => r.mode === 'delete') ? 'delete' : 'anonymize';
+    };
+  }
+
   /**
    * Convert database row to PersonDetails
    */
@@ -449,10 +1415,27 @@ export class CompanyDatabase {
         city: row.city,
       },
       profile_url: row.profile_url,
+      source: row.source ?? undefined,
       scraped_at: row.scraped_at,
     };
   }
 
+  /**
+   * Run several writes as one transaction; with rollback: true nothing is kept (dry runs)
+   */
+  transaction<T>(fn: () => T, options: { rollback?: boolean } = {}): T {
+    let result!: T;
+    try {
+      this.db.transaction(() => {
+        result = fn();
+        if (options.rollback) throw ROLLBACK;
+      })();
+    } catch (error) {
+      if (error !== ROLLBACK) throw error;
+    }
+    return result;
+  }
+
   /**
    * Close database connection
    */
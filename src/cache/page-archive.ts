@@ -0,0 +1,238 @@
+/**
+ * Raw page archive
+ * Keeps the latest HTML of every scraped company and person page, gzipped, in its own
+ * SQLite file next to the cache, so improved parsers can be re-run without scraping.
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { ArchivedPage, DEFAULT_CONFIG, PageArchiveStats } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { identifierHash } from '../utils/person-match.js';
+
+const ARCHIVE_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS pages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    org_number TEXT NOT NULL,
+    url TEXT NOT NULL,
+    html_gz BLOB NOT NULL,
+    raw_bytes INTEGER NOT NULL,
+    fetched_at TEXT NOT NULL,
+    UNIQUE(source, kind, org_number, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pages_org_number ON pages(org_number);
+CREATE INDEX IF NOT EXISTS idx_pages_url ON pages(url);
+
+-- Person pages of people erased on request, never archived again
+CREATE TABLE IF NOT EXISTS suppressed_urls (
+    url_hash TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL
+);
+`;
+
+export class PageArchive {
+  private db: Database.Database | null = null;
+
+  constructor(
+    private dbPath: string = DEFAULT_CONFIG.page_archive_path,
+    readonly enabled: boolean = DEFAULT_CONFIG.page_archive_enabled
+  ) {}
+
+  /**
+   * Store a page, replacing the previous copy
+   * A company keeps one page per source; never throws, so archiving cannot fail a scrape
+   */
+  save(page: Omit<ArchivedPage, 'fetched_at'> & { fetched_at?: string }): void {
+    if (!this.enabled) return;
+
+    try {
+      const db = this.open();
+      if (page.kind === 'person' && this.isSuppressed(db, page.url)) return;
+
+      const html_gz = zlib.gzipSync(page.html);
+      const fetched_at = page.fetched_at || new Date().toISOString();
+
+      db.transaction(() => {
+        if (page.kind === 'company') {
+          db.prepare(`DELETE FROM pages WHERE source = ? AND kind = 'company' AND org_number = ? AND url != ?`).run(
+            page.source,
+            page.org_number,
+            page.url
+          );
+        }
+
+        db.prepare(`
+          INSERT INTO pages (source, kind, org_number, url, html_gz, raw_bytes, fetched_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(source, kind, org_number, url) DO UPDATE SET
+            html_gz = excluded.html_gz,
+            raw_bytes = excluded.raw_bytes,
+            fetched_at = excluded.fetched_at
+        `).run(page.source, page.kind, page.org_number, page.url, html_gz, Buffer.byteLength(page.html), fetched_at);
+      })();
+    } catch (error) {
+      logger.error({ error, url: page.url }, 'Failed to archive page');
+    }
+  }
+
+  /**
+   * Organization numbers with an archived company page
+   */
+  listOrgNumbers(params: { org_numbers?: string[]; limit?: number } = {}): string[] {
+    if (!this.exists()) return [];
+
+    const conditions = [`kind = 'company'`];
+    const values: any[] = [];
+
+    if (params.org_numbers?.length) {
+      conditions.push(`org_number IN (${params.org_numbers.map(() => '?').join(', ')})`);
+      values.push(...params.org_numbers);
+    }
+
+    let sql = `SELECT DISTINCT org_number FROM pages WHERE ${conditions.join(' AND ')} ORDER BY org_number`;
+    if (params.limit) {
+      sql += ` LIMIT ?`;
+      values.push(params.limit);
+    }
+
+    return (this.open().prepare(sql).all(...values) as { org_number: string }[]).map((r) => r.org_number);
+  }
+
+  /**
+   * Every archived page for a company (company pages and its people), decompressed
+   */
+  getPages(org_number: string): ArchivedPage[] {
+    if (!this.exists()) return [];
+
+    const rows = this.open()
+      .prepare(`SELECT source, kind, org_number, url, html_gz, fetched_at FROM pages WHERE org_number = ?`)
+      .all(org_number) as any[];
+
+    return rows.map((row) => ({
+      source: row.source,
+      kind: row.kind,
+      org_number: row.org_number,
+      url: row.url,
+      html: zlib.gunzipSync(row.html_gz).toString('utf-8'),
+      fetched_at: row.fetched_at,
+    }));
+  }
+
+  /**
+   * Archived person pages by profile URL, decompressed
+   */
+  getPersonPages(urls: string[]): ArchivedPage[] {
+    if (urls.length === 0 || !this.exists()) return [];
+
+    const rows = this.open()
+      .prepare(
+        `SELECT source, kind, org_number, url, html_gz, fetched_at FROM pages
+         WHERE kind = 'person' AND url IN (${urls.map(() => '?').join(', ')})`
+      )
+      .all(...urls) as any[];
+
+    return rows.map((row) => ({
+      source: row.source,
+      kind: row.kind,
+      org_number: row.org_number,
+      url: row.url,
+      html: zlib.gunzipSync(row.html_gz).toString('utf-8'),
+      fetched_at: row.fetched_at,
+    }));
+  }
+
+  /**
+   * Delete archived person pages; with suppress, they are not archived again
+   */
+  erasePersonPages(urls: string[], options: { suppress?: boolean } = {}): number {
+    if (urls.length === 0 || (!this.exists() && !options.suppress)) return 0;
+
+    const db = this.open();
+    const erase = db.prepare(`DELETE FROM pages WHERE kind = 'person' AND url = ?`);
+    const suppress = db.prepare(`INSERT OR IGNORE INTO suppressed_urls (url_hash, created_at) VALUES (?, ?)`);
+
+    return db.transaction(() => {
+      let deleted = 0;
+      for (const url of urls) {
+        deleted += erase.run(url).changes;
+        if (options.suppress) suppress.run(identifierHash(url), new Date().toISOString());
+      }
+      return deleted;
+    })();
+  }
+
+  getStats(): PageArchiveStats {
+    const stats: PageArchiveStats = {
+      enabled: this.enabled,
+      path: this.dbPath,
+      pages: 0,
+      companies: 0,
+      pages_by_source: {},
+      raw_mb: 0,
+      compressed_mb: 0,
+    };
+    if (!this.exists()) return stats;
+
+    const db = this.open();
+    const totals = db
+      .prepare(
+        `SELECT COUNT(*) as pages, COALESCE(SUM(raw_bytes), 0) as raw, COALESCE(SUM(LENGTH(html_gz)), 0) as compressed
+         FROM pages`
+      )
+      .get() as { pages: number; raw: number; compressed: number };
+    const companies = db
+      .prepare(`SELECT COUNT(DISTINCT org_number) as count FROM pages WHERE kind = 'company'`)
+      .get() as { count: number };
+    const bySource = db
+      .prepare(`SELECT source, COUNT(*) as count FROM pages GROUP BY source`)
+      .all() as { source: string; count: number }[];
+
+    stats.pages = totals.pages;
+    stats.companies = companies.count;
+    stats.pages_by_source = Object.fromEntries(bySource.map((r) => [r.source, r.count]));
+    stats.raw_mb = Math.round((totals.raw / 1024 / 1024) * 100) / 100;
+    stats.compressed_mb = Math.round((totals.compressed / 1024 / 1024) * 100) / 100;
+    return stats;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Whether there is an archive to read; a disabled archive may still have one from before
+   */
+  private exists(): boolean {
+    return this.enabled || fs.existsSync(this.dbPath);
+  }
+
+  private isSuppressed(db: Database.Database, url: string): boolean {
+    return !!db.prepare(`SELECT 1 FROM suppressed_urls WHERE url_hash = ?`).get(identifierHash(url));
+  }
+
+  /**
+   * Open the archive file on first use
+   */
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+    this.db = new Database(this.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(ARCHIVE_SCHEMA_SQL);
+
+    logger.info({ path: this.dbPath }, 'Page archive opened');
+    return this.db;
+  }
+}
+
+/**
+ * Global page archive instance
+ */
+export const pageArchive = new PageArchive();
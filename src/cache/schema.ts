@@ -13,6 +13,8 @@ CREATE TABLE IF NOT EXISTS companies (
 
     -- Contact
     phone TEXT,
+    email TEXT,
+    website TEXT,
     address TEXT,
     postal_code TEXT,
     city TEXT,
@@ -38,10 +40,24 @@ CREATE TABLE IF NOT EXISTS companies (
     categories TEXT, -- JSON array
     activity_description TEXT,
 
+    -- Size
+    employees INTEGER,
+    employees_range TEXT,
+    share_capital INTEGER,
+    size_class TEXT, -- micro, small, medium, large
+
     -- Metadata
     bankgiro_number TEXT,
     has_remarks INTEGER DEFAULT 0,
     remarks TEXT,
+    remark_details TEXT, -- JSON array of CompanyRemark
+    group_structure TEXT, -- JSON CompanyGroup (koncern)
+    field_sources TEXT, -- JSON map of field -> provider id
+    field_provenance TEXT, -- JSON map of field -> source, rule, status and confidence
+    origin TEXT DEFAULT 'scrape', -- scrape, register (bulk import, not yet scraped)
+    imported_at DATETIME,
+    access_count INTEGER DEFAULT 0, -- reads through tools/resources, drives background refresh order
+    last_accessed_at DATETIME,
     source_url TEXT,
     scraped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
@@ -61,11 +77,55 @@ CREATE TABLE IF NOT EXISTS people (
     postal_code TEXT,
     city TEXT,
     profile_url TEXT,
+    source TEXT, -- provider id the roster came from
     scraped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
 
     FOREIGN KEY (org_number) REFERENCES companies(org_number) ON DELETE CASCADE
 );
 
+-- Person engagements across companies (from merinfo person profiles)
+CREATE TABLE IF NOT EXISTS person_engagements (
+    profile_url TEXT NOT NULL,
+    person_name TEXT NOT NULL,
+    org_number TEXT NOT NULL,
+    company_name TEXT,
+    role TEXT NOT NULL,
+    is_current INTEGER DEFAULT 1,
+    from_date TEXT,
+    to_date TEXT,
+    company_url TEXT,
+    scraped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (profile_url, org_number, role, is_current)
+);
+
+-- Financial history (one row per company and fiscal year)
+CREATE TABLE IF NOT EXISTS financials (
+    org_number TEXT NOT NULL,
+    fiscal_year INTEGER NOT NULL,
+    period TEXT,
+    revenue INTEGER,
+    profit_after_financial INTEGER,
+    net_profit INTEGER,
+    total_assets INTEGER,
+    currency TEXT DEFAULT 'SEK',
+    scraped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (org_number, fiscal_year),
+    FOREIGN KEY (org_number) REFERENCES companies(org_number) ON DELETE CASCADE
+);
+
+-- Selector hit statistics (one row per field per scraped page)
+CREATE TABLE IF NOT EXISTS selector_hits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    page_type TEXT NOT NULL,
+    field TEXT NOT NULL,
+    resolved INTEGER NOT NULL,
+    selector TEXT,
+    registry_version TEXT,
+    recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Rate limiting tracker
 CREATE TABLE IF NOT EXISTS rate_limits (
     identifier TEXT PRIMARY KEY,
@@ -81,11 +141,35 @@ CREATE TABLE IF NOT EXISTS scrape_queue (
     priority INTEGER DEFAULT 5,
     status TEXT DEFAULT 'pending', -- pending, processing, completed, failed
     attempts INTEGER DEFAULT 0,
+    include_board INTEGER DEFAULT 1,
     error_message TEXT,
+    available_at DATETIME, -- retry backoff; NULL = immediately
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Circuit breaker state per scraped site (survives restarts)
+CREATE TABLE IF NOT EXISTS circuit_breakers (
+    name TEXT PRIMARY KEY,
+    state TEXT NOT NULL DEFAULT 'closed', -- closed, open, half_open
+    consecutive_blocks INTEGER DEFAULT 0,
+    trips INTEGER DEFAULT 0,
+    opened_at DATETIME,
+    retry_at DATETIME,
+    last_page_class TEXT,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- People erased on request, kept out of future scrapes (identifiers stored as SHA-256)
+CREATE TABLE IF NOT EXISTS suppressed_people (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name_hash TEXT, -- with birth_year
+    birth_year INTEGER,
+    profile_url_hash TEXT,
+    mode TEXT NOT NULL, -- delete, anonymize
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Full-text search index
 CREATE VIRTUAL TABLE IF NOT EXISTS companies_fts USING fts5(
     org_number,
@@ -103,28 +187,56 @@ CREATE INDEX IF NOT EXISTS idx_companies_city ON companies(city);
 CREATE INDEX IF NOT EXISTS idx_companies_scraped_at ON companies(scraped_at);
 CREATE INDEX IF NOT EXISTS idx_people_org_number ON people(org_number);
 CREATE INDEX IF NOT EXISTS idx_people_name ON people(name);
+CREATE INDEX IF NOT EXISTS idx_people_profile_url ON people(profile_url);
+CREATE INDEX IF NOT EXISTS idx_engagements_org_number ON person_engagements(org_number);
+CREATE INDEX IF NOT EXISTS idx_selector_hits_field ON selector_hits(page_type, field, id DESC);
 CREATE INDEX IF NOT EXISTS idx_scrape_queue_status ON scrape_queue(status, priority DESC);
+CREATE INDEX IF NOT EXISTS idx_scrape_queue_org_number ON scrape_queue(org_number);
 
--- Triggers for FTS sync
+-- Triggers for FTS sync (external content: old values are removed with the 'delete' command)
 CREATE TRIGGER IF NOT EXISTS companies_fts_insert AFTER INSERT ON companies BEGIN
-  INSERT INTO companies_fts(org_number, name, sni_description, activity_description, categories)
-  VALUES (new.org_number, new.name, new.sni_description, new.activity_description, new.categories);
+  INSERT INTO companies_fts(rowid, org_number, name, sni_description, activity_description, categories)
+  VALUES (new.rowid, new.org_number, new.name, new.sni_description, new.activity_description, new.categories);
 END;
 
-CREATE TRIGGER IF NOT EXISTS companies_fts_update AFTER UPDATE ON companies BEGIN
-  UPDATE companies_fts SET
-    name = new.name,
-    sni_description = new.sni_description,
-    activity_description = new.activity_description,
-    categories = new.categories
-  WHERE org_number = new.org_number;
+CREATE TRIGGER IF NOT EXISTS companies_fts_update
+AFTER UPDATE OF org_number, name, sni_description, activity_description, categories ON companies BEGIN
+  INSERT INTO companies_fts(companies_fts, rowid, org_number, name, sni_description, activity_description, categories)
+  VALUES ('delete', old.rowid, old.org_number, old.name, old.sni_description, old.activity_description, old.categories);
+  INSERT INTO companies_fts(rowid, org_number, name, sni_description, activity_description, categories)
+  VALUES (new.rowid, new.org_number, new.name, new.sni_description, new.activity_description, new.categories);
 END;
 
 CREATE TRIGGER IF NOT EXISTS companies_fts_delete AFTER DELETE ON companies BEGIN
-  DELETE FROM companies_fts WHERE org_number = old.org_number;
+  INSERT INTO companies_fts(companies_fts, rowid, org_number, name, sni_description, activity_description, categories)
+  VALUES ('delete', old.rowid, old.org_number, old.name, old.sni_description, old.activity_description, old.categories);
 END;
 `;
 
+/**
+ * Columns added after the initial schema
+ * Applied with ALTER TABLE on databases created before the column existed
+ */
+export const COLUMN_MIGRATIONS: Array<{ table: string; column: string; definition: string }> = [
+  { table: 'companies', column: 'remark_details', definition: 'TEXT' },
+  { table: 'companies', column: 'email', definition: 'TEXT' },
+  { table: 'companies', column: 'website', definition: 'TEXT' },
+  { table: 'companies', column: 'employees', definition: 'INTEGER' },
+  { table: 'companies', column: 'employees_range', definition: 'TEXT' },
+  { table: 'companies', column: 'share_capital', definition: 'INTEGER' },
+  { table: 'companies', column: 'size_class', definition: 'TEXT' },
+  { table: 'companies', column: 'field_sources', definition: 'TEXT' },
+  { table: 'companies', column: 'group_structure', definition: 'TEXT' },
+  { table: 'people', column: 'source', definition: 'TEXT' },
+  { table: 'companies', column: 'origin', definition: "TEXT DEFAULT 'scrape'" },
+  { table: 'companies', column: 'imported_at', definition: 'DATETIME' },
+  { table: 'companies', column: 'access_count', definition: 'INTEGER DEFAULT 0' },
+  { table: 'companies', column: 'last_accessed_at', definition: 'DATETIME' },
+  { table: 'scrape_queue', column: 'include_board', definition: 'INTEGER DEFAULT 1' },
+  { table: 'scrape_queue', column: 'available_at', definition: 'DATETIME' },
+  { table: 'companies', column: 'field_provenance', definition: 'TEXT' },
+];
+
 export const CLEANUP_SQL = `
 -- Remove companies older than specified days
 DELETE FROM companies
@@ -134,6 +246,14 @@ WHERE julianday('now') - julianday(scraped_at) > ?;
 DELETE FROM people
 WHERE org_number NOT IN (SELECT org_number FROM companies);
 
+-- Remove orphaned financial history
+DELETE FROM financials
+WHERE org_number NOT IN (SELECT org_number FROM companies);
+
+-- Clean selector statistics older than 30 days
+DELETE FROM selector_hits
+WHERE julianday('now') - julianday(recorded_at) > 30;
+
 -- Clean old rate limit records
 DELETE FROM rate_limits
 WHERE julianday('now') - julianday(window_start) > 1;
@@ -0,0 +1,245 @@
+/**
+ * Bolagsverket bulk register importer
+ * Reads a downloaded register file (CSV or JSON) and upserts the companies into the cache
+ * without scraping. Imported rows are marked origin = 'register'.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { CompanyDatabase } from '../cache/database.js';
+import { RegisterCompany, RegisterImportResult } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { cleanText, parseDate } from '../utils/parsers.js';
+import { checkIdentityNumber } from '../utils/org-number.js';
+
+const BATCH_SIZE = 1000;
+const MAX_REPORTED_ERRORS = 50;
+
+/**
+ * Column names used by Bolagsverket files (and common exports), lowercased
+ */
+const COLUMN_ALIASES: Record<keyof RegisterCompany | 'deregistration_date' | 'winding_up', string[]> = {
+  org_number: ['organisationsidentitet', 'organisationsnummer', 'orgnr', 'org_number'],
+  name: ['organisationsnamn', 'foretagsnamn', 'företagsnamn', 'namn', 'name'],
+  legal_form: ['organisationsform', 'foretagsform', 'företagsform', 'bolagsform', 'legal_form'],
+  status: ['status'],
+  registration_date: ['registreringsdatum', 'registration_date'],
+  address: ['utdelningsadress', 'gatuadress', 'adress', 'address', 'postadress'],
+  postal_code: ['postnummer', 'postal_code'],
+  city: ['postort', 'city'],
+  activity_description: ['verksamhetsbeskrivning', 'activity_description'],
+  deregistration_date: ['avregistreringsdatum'],
+  winding_up: ['pagandeavvecklingselleromstruktureringsforfarande', 'avvecklingsforfarande'],
+};
+
+/**
+ * Bolagsverket legal form codes
+ */
+const LEGAL_FORMS: Record<string, string> = {
+  AB: 'Aktiebolag',
+  BAB: 'Bankaktiebolag',
+  BRF: 'Bostadsrättsförening',
+  E: 'Enskild näringsidkare',
+  EF: 'Enskild firma',
+  EK: 'Ekonomisk förening',
+  FAB: 'Försäkringsaktiebolag',
+  FL: 'Filial',
+  HB: 'Handelsbolag',
+  I: 'Ideell förening',
+  KB: 'Kommanditbolag',
+  S: 'Stiftelse',
+};
+
+/**
+ * Import a register file into the cache
+ */
+export async function importRegisterFile(
+  db: CompanyDatabase,
+  file: string,
+  options: { limit?: number; dry_run?: boolean } = {}
+): Promise<RegisterImportResult> {
+  const startTime = Date.now();
+  const result: RegisterImportResult = {
+    file,
+    rows_read: 0,
+    inserted: 0,
+    updated: 0,
+    skipped: 0,
+    errors: [],
+    duration_ms: 0,
+  };
+
+  let batch: RegisterCompany[] = [];
+  const flush = () => {
+    if (batch.length === 0) return;
+    if (!options.dry_run) {
+      const { inserted, updated } = db.upsertRegisterCompanies(batch);
+      result.inserted += inserted;
+      result.updated += updated;
+    }
+    batch = [];
+  };
+
+  for await (const row of readRegisterRows(file)) {
+    if (options.limit && result.rows_read >= options.limit) break;
+    result.rows_read++;
+
+    try {
+      const record = parseRegisterRow(row);
+      if (!record) {
+        result.skipped++;
+        continue;
+      }
+      batch.push(record);
+    } catch (error) {
+      result.skipped++;
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push({ row: result.rows_read, error: (error as Error).message });
+      }
+    }
+
+    if (batch.length >= BATCH_SIZE) flush();
+  }
+  flush();
+
+  result.duration_ms = Date.now() - startTime;
+  logger.info({ ...result, errors: result.errors.length }, 'Register import finished');
+
+  return result;
+}
+
+/**
+ * Map one raw register row to a RegisterCompany
+ * Returns null for rows without an organization number or name
+ */
+export function parseRegisterRow(row: Record<string, unknown>): RegisterCompany | null {
+  const columns = new Map(Object.entries(row).map(([key, value]) => [key.toLowerCase().trim(), value]));
+  const pick = (field: keyof typeof COLUMN_ALIASES): string | undefined => {
+    for (const alias of COLUMN_ALIASES[field]) {
+      const value = columns.get(alias);
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        return String(value);
+      }
+    }
+    return undefined;
+  };
+
+  const rawOrgNumber = firstPart(pick('org_number'));
+  const name = cleanText(firstPart(pick('name')));
+  if (!rawOrgNumber || !name) return null;
+
+  const check = checkIdentityNumber(rawOrgNumber);
+  if (!check.valid) {
+    throw new Error(`Invalid organization number ${rawOrgNumber}: ${check.error}`);
+  }
+  const org_number = check.normalized!;
+
+  // Postadress is a compound value: street$c/o$city$postal code$country
+  const address = pick('address');
+  const addressParts = address?.includes('$') ? address.split('$') : undefined;
+
+  const legal_form_code = firstPart(pick('legal_form'))?.toUpperCase().replace(/-ORGFO$/, '');
+  const deregistered = pick('deregistration_date');
+  const winding_up = firstPart(pick('winding_up'));
+
+  return {
+    org_number,
+    name,
+    legal_form: legal_form_code ? LEGAL_FORMS[legal_form_code] || legal_form_code : undefined,
+    status:
+      cleanText(pick('status')) ||
+      (deregistered ? 'Avregistrerad' : winding_up ? cleanText(winding_up) || undefined : 'Registrerad'),
+    registration_date: parseDate(firstPart(pick('registration_date'))) || undefined,
+    address: cleanText(addressParts ? addressParts[0] : address) || undefined,
+    postal_code: (addressParts ? addressParts[3] : pick('postal_code'))?.replace(/\s/g, '') || undefined,
+    city: cleanText(addressParts ? addressParts[2] : pick('city')) || undefined,
+    activity_description: cleanText(pick('activity_description')) || undefined,
+  };
+}
+
+/**
+ * Stream rows from a CSV (`;`, `,` or tab separated), NDJSON or JSON array file
+ */
+async function* readRegisterRows(file: string): AsyncGenerator<Record<string, unknown>> {
+  const ext = path.extname(file).toLowerCase();
+
+  if (ext === '.json') {
+    const data = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+    yield* Array.isArray(data) ? data : data.companies || data.data || [];
+    return;
+  }
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+
+  let header: string[] | null = null;
+  let delimiter = ';';
+
+  for await (const raw of lines) {
+    const line = raw.replace(/^\uFEFF/, '');
+    if (!line.trim()) continue;
+
+    if (ext === '.ndjson' || ext === '.jsonl') {
+      yield JSON.parse(line);
+      continue;
+    }
+
+    if (!header) {
+      delimiter = detectDelimiter(line);
+      header = splitCsvLine(line, delimiter);
+      continue;
+    }
+
+    const cells = splitCsvLine(line, delimiter);
+    yield Object.fromEntries(header.map((column, i) => [column, cells[i]]));
+  }
+}
+
+function detectDelimiter(header: string): string {
+  const counts = [';', ',', '\t'].map((d) => [d, header.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Split a CSV line, honouring double-quoted cells with "" escapes
+ */
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Bolagsverket values carry type suffixes ("5560000000$ORGNR-IDORG", "AB$AB-ORGFO"); keep the value
+ */
+function firstPart(value: string | undefined): string | undefined {
+  return value?.split('$')[0].trim() || undefined;
+}
@@ -0,0 +1,226 @@
+/**
+ * Page archive re-parse
+ * Re-runs extraction over the archived raw pages and updates companies and people in
+ * the cache without touching the network. Sources are merged with the live merge policy.
+ */
+
+import { CompanyDatabase } from '../cache/database.js';
+import { PageArchive, pageArchive } from '../cache/page-archive.js';
+import { changedFields, mergeProviderResults, mergeWithCached } from '../providers/merge.js';
+import { providerRegistry } from '../providers/registry.js';
+import { parseAllabolagCompanyPage } from '../scraper/allabolag-parser.js';
+import { parseBoardRoster, parseCompanyPage, parsePersonPage } from '../scraper/merinfo-parser.js';
+import {
+  ArchivedPage,
+  CompanyData,
+  MergePolicy,
+  PersonDetails,
+  ProviderResult,
+  ReparseResult,
+} from '../types.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_REPORTED_ERRORS = 50;
+const YIELD_EVERY = 100;
+
+/**
+ * Re-parse archived pages into the cache
+ */
+export async function reparseArchive(
+  db: CompanyDatabase,
+  options: {
+    org_numbers?: string[];
+    limit?: number;
+    dry_run?: boolean;
+    archive?: PageArchive;
+    policy?: MergePolicy;
+  } = {}
+): Promise<ReparseResult> {
+  const startTime = Date.now();
+  const archive = options.archive || pageArchive;
+  const policy = options.policy || providerRegistry.getPolicy();
+  const dry_run = options.dry_run ?? false;
+
+  const result: ReparseResult = {
+    companies_read: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    people_saved: 0,
+    changed_fields: {},
+    errors: [],
+    dry_run,
+    duration_ms: 0,
+  };
+
+  const org_numbers = archive.listOrgNumbers({ org_numbers: options.org_numbers, limit: options.limit });
+
+  for (const org_number of org_numbers) {
+    result.companies_read++;
+
+    try {
+      const results = parsePages(org_number, archive.getPages(org_number));
+      if (results.length === 0) {
+        result.skipped++;
+        continue;
+      }
+
+      const { changed, people } = db.transaction(
+        () => {
+          const cached = db.getCompany(org_number);
+          const cachedBoard = db.getBoardMembers(org_number);
+          const merged = mergeProviderResults(org_number, results, policy);
+          const company = keepSearchCardRemarks(
+            mergeWithCached(merged.company, cached, results.map((r) => r.provider)),
+            cached
+          );
+
+          db.saveCompany(company);
+          if (merged.board_members.length > 0) {
+            db.saveBoardMembers(org_number, merged.board_members);
+          }
+
+          // Compare what the cache returns before and after, so storage round-trips do not count
+          const changed: string[] = changedFields(db.getCompany(org_number)!, cached);
+          if (boardKey(db.getBoardMembers(org_number)) !== boardKey(cachedBoard)) {
+            changed.push('board_members');
+          }
+          return { changed, people: merged.board_members.length };
+        },
+        { rollback: dry_run }
+      );
+
+      if (changed.length === 0) {
+        result.unchanged++;
+        continue;
+      }
+
+      result.updated++;
+      if (!dry_run) result.people_saved += people;
+      for (const field of changed) {
+        result.changed_fields[field] = (result.changed_fields[field] || 0) + 1;
+      }
+    } catch (error) {
+      logger.warn({ org_number, error }, 'Re-parse failed');
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push({ org_number, error: (error as Error).message });
+      }
+    }
+
+    // Let other work run during long re-parses
+    if (result.companies_read % YIELD_EVERY === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  result.duration_ms = Date.now() - startTime;
+  logger.info({ ...result, errors: result.errors.length }, 'Archive re-parse complete');
+  return result;
+}
+
+/**
+ * One provider result per source with an archived company page
+ */
+function parsePages(org_number: string, pages: ArchivedPage[]): ProviderResult[] {
+  const results: ProviderResult[] = [];
+
+  for (const page of pages.filter((p) => p.kind === 'company')) {
+    const people = pages.filter((p) => p.kind === 'person' && p.source === page.source);
+    const parsed =
+      page.source === 'merinfo'
+        ? parseMerinfoPages(org_number, page, people)
+        : page.source === 'allabolag'
+          ? parseAllabolagCompanyPage(page.html, {
+              org_number,
+              url: page.url,
+              base_url: new URL(page.url).origin,
+              scraped_at: page.fetched_at,
+            })
+          : null;
+
+    if (!parsed) {
+      logger.warn({ org_number, source: page.source }, 'No parser for archived page source');
+      continue;
+    }
+    if (!parsed.company.name) continue;
+
+    results.push({
+      provider: page.source,
+      company: parsed.company,
+      board_members: parsed.board_members,
+      source_url: page.url,
+      fetched_at: page.fetched_at,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * merinfo company page plus its board roster; members without an archived profile
+ * page keep the roster name, as in a live scrape
+ */
+function parseMerinfoPages(
+  org_number: string,
+  page: ArchivedPage,
+  people: ArchivedPage[]
+): { company: CompanyData; board_members: PersonDetails[] } {
+  const company = parseCompanyPage(page.html, { org_number, url: page.url, scraped_at: page.fetched_at });
+  const profiles = new Map(people.map((p) => [p.url, p]));
+
+  const board_members = parseBoardRoster(page.html, new URL(page.url).origin).map((entry) => {
+    const profile = profiles.get(entry.profile_url);
+
+    return profile
+      ? parsePersonPage(profile.html, {
+          org_number,
+          role: entry.role,
+          url: entry.profile_url,
+          scraped_at: profile.fetched_at,
+        })
+      : {
+          org_number,
+          name: entry.name,
+          role: entry.role,
+          address: {},
+          profile_url: entry.profile_url,
+          scraped_at: page.fetched_at,
+        };
+  });
+
+  return { company, board_members };
+}
+
+/**
+ * Search card warnings are not on the company page; keep the cached ones
+ */
+function keepSearchCardRemarks(company: CompanyData, cached: CompanyData | null): CompanyData {
+  const details = company.remark_details || [];
+  const cardRemarks = (cached?.remark_details || []).filter(
+    (r) => r.source === 'search_card' && !details.some((d) => d.type === r.type)
+  );
+  if (cardRemarks.length === 0) return company;
+
+  const provenance = { ...company.field_provenance };
+  for (const field of ['has_remarks', 'remarks', 'remark_details']) {
+    const cachedProvenance = cached?.field_provenance?.[field];
+    if (provenance[field]?.status !== 'found' && cachedProvenance) provenance[field] = cachedProvenance;
+  }
+
+  return {
+    ...company,
+    remark_details: [...details, ...cardRemarks],
+    has_remarks: true,
+    remarks: company.remarks || cardRemarks[0].text,
+    field_provenance: provenance,
+  };
+}
+
+/**
+ * Board contents without row ids and timestamps, for change detection
+ */
+function boardKey(members: PersonDetails[]): string {
+  return JSON.stringify(
+    members.map((m) => [m.name, m.role, m.personal_number, m.age, m.phone, m.address, m.profile_url, m.source])
+  );
+}
@@ -21,8 +21,12 @@ import { MerinfoTools } from './server/tools.js';
 import { MerinfoResources } from './server/resources.js';
 import { MerinfoPrompts } from './server/prompts.js';
 import { browserPool } from './scraper/browser.js';
+import { providerRegistry } from './providers/registry.js';
+import { ScrapeWorker } from './queue/scrape-worker.js';
+import { circuitBreakers } from './scraper/circuit-breaker.js';
+import { RefreshScheduler } from './queue/refresh-scheduler.js';
 import { logger } from './utils/logger.js';
-import { DEFAULT_CONFIG } from './types.js';
+import { DEFAULT_CONFIG, RateLimitError, REMARK_TYPES, SIZE_CLASSES } from './types.js';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -36,14 +40,30 @@ async function main() {
 
   // Initialize database
   const db = new CompanyDatabase(DEFAULT_CONFIG.database_path);
+  circuitBreakers.attach(db);
+
+  // Background scrape queue worker and stale-company refresh
+  const worker = new ScrapeWorker(db);
+  const scheduler = new RefreshScheduler(db);
 
   // Initialize tools, resources, and prompts
-  const tools = new MerinfoTools(db);
+  const tools = new MerinfoTools(db, providerRegistry, worker, scheduler);
   const resources = new MerinfoResources(db);
   const prompts = new MerinfoPrompts(db);
 
-  // Initialize browser pool
-  await browserPool.initialize();
+  // Initialize browser pool (HTTP fetch modes launch it only on fallback)
+  if (DEFAULT_CONFIG.scrape_fetch_mode === 'browser') {
+    await browserPool.initialize();
+  } else if (DEFAULT_CONFIG.proxies.length > 0) {
+    logger.warn({ mode: DEFAULT_CONFIG.scrape_fetch_mode }, 'PROXY_LIST only applies to browser scrapes');
+  }
+
+  if (DEFAULT_CONFIG.queue_worker_enabled) {
+    worker.start();
+  }
+  if (DEFAULT_CONFIG.enable_background_refresh) {
+    scheduler.start();
+  }
 
   // Create MCP server
   const server = new Server(
@@ -88,6 +108,11 @@ async function main() {
                 description: 'Include board member details',
                 default: true,
               },
+              source: {
+                type: 'string',
+                description:
+                  'Fetch from this data source only (e.g. "merinfo", "allabolag"); bypasses the cache and merges into the cached record. See list_data_sources',
+              },
             },
             required: ['org_number'],
           },
@@ -102,19 +127,26 @@ async function main() {
                 type: 'string',
                 description: 'Swedish organization number',
               },
+              include_provenance: {
+                type: 'boolean',
+                description:
+                  'Include per-field provenance: source, extraction time, selector or rule, status (found, absent, failed) and confidence',
+                default: false,
+              },
             },
             required: ['org_number'],
           },
         },
         {
           name: 'search_companies_by_industry',
-          description: 'Search cached companies by SNI code or industry category',
+          description: 'Search cached companies by SNI code or industry category, with size and contact filters',
           inputSchema: {
             type: 'object',
             properties: {
               sni_code: {
                 type: 'string',
-                description: 'Swedish SNI code (5 digits)',
+                description:
+                  'SNI 2007 code at any level: section letter ("J"), division ("62"), group, class or subclass ("62010"). Broader codes include all subcodes',
               },
               category: {
                 type: 'string',
@@ -128,6 +160,31 @@ async function main() {
                 type: 'number',
                 description: 'Minimum revenue in SEK',
               },
+              min_employees: {
+                type: 'number',
+                description: 'Minimum number of employees',
+              },
+              max_employees: {
+                type: 'number',
+                description: 'Maximum number of employees',
+              },
+              size_class: {
+                type: 'string',
+                enum: [...SIZE_CLASSES],
+                description: 'SME size class',
+              },
+              min_share_capital: {
+                type: 'number',
+                description: 'Minimum share capital in SEK',
+              },
+              has_website: {
+                type: 'boolean',
+                description: 'Only companies with (true) or without (false) a website',
+              },
+              has_email: {
+                type: 'boolean',
+                description: 'Only companies with (true) or without (false) an email address',
+              },
               limit: {
                 type: 'number',
                 description: 'Maximum number of results',
@@ -139,7 +196,8 @@ async function main() {
         },
         {
           name: 'search_company_by_name',
-          description: 'Full-text search for companies by name or description',
+          description:
+            'Search companies by name. Defaults to full-text search in the cache; with live=true, searches merinfo.se and returns candidates (org number, name, city, status) to pass to search_company_by_org_number.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -153,13 +211,25 @@ async function main() {
                 default: 10,
                 maximum: 50,
               },
+              live: {
+                type: 'boolean',
+                description: 'Search merinfo.se instead of the local cache',
+                default: false,
+              },
+              max_pages: {
+                type: 'number',
+                description: 'Maximum number of merinfo result pages to read (live mode)',
+                default: 3,
+                maximum: 10,
+              },
             },
             required: ['query'],
           },
         },
         {
           name: 'get_board_members',
-          description: 'Get board members and key people for a company',
+          description:
+            'Get the full board and management roster for a company (VD, ordförande, ledamöter, suppleanter, revisorer, firmatecknare, etc.)',
           inputSchema: {
             type: 'object',
             properties: {
@@ -188,7 +258,8 @@ async function main() {
               },
               role: {
                 type: 'string',
-                description: 'Filter by role (VD, Ordförande, Styrelseledamot, etc.)',
+                description:
+                  'Filter by role (VD, Ordförande, Styrelseledamot, Styrelsesuppleant, Revisor, Firmatecknare, etc.). Synonyms such as "Ordinarie ledamot" are normalized.',
               },
               limit: {
                 type: 'number',
@@ -199,9 +270,42 @@ async function main() {
             required: ['name'],
           },
         },
+        {
+          name: 'get_person_engagements',
+          description:
+            "Get all of a person's current and past board and management roles across companies, from their merinfo profile. Optionally queue the linked companies for scraping.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              profile_url: {
+                type: 'string',
+                description: 'merinfo person profile URL (https://www.merinfo.se/person/...)',
+              },
+              person_id: {
+                type: 'number',
+                description: 'Cached person id (from get_board_members or search_person)',
+              },
+              include_past: {
+                type: 'boolean',
+                description: 'Include past engagements',
+                default: true,
+              },
+              enqueue_companies: {
+                type: 'boolean',
+                description: 'Add linked companies that are not cached to the scrape queue',
+                default: false,
+              },
+              force_refresh: {
+                type: 'boolean',
+                default: false,
+              },
+            },
+          },
+        },
         {
           name: 'get_financial_data',
-          description: 'Get financial summary for a company',
+          description:
+            'Get financial data for a company: latest snapshot plus per-fiscal-year history with year-over-year growth',
           inputSchema: {
             type: 'object',
             properties: {
@@ -234,6 +338,11 @@ async function main() {
               city: { type: 'string' },
               status: { type: 'string' },
               has_remarks: { type: 'boolean' },
+              remark_type: {
+                type: 'string',
+                enum: [...REMARK_TYPES],
+                description: 'Only companies with a structured remark of this type',
+              },
               sort_by: {
                 type: 'string',
                 enum: ['name', 'revenue', 'scraped_at'],
@@ -289,6 +398,58 @@ async function main() {
             required: ['confirm'],
           },
         },
+        {
+          name: 'browse_sni_taxonomy',
+          description:
+            'Browse the SNI 2007 industry classification (sections, divisions and below, Swedish and English names) with cached company counts. Omit code to list sections',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              code: {
+                type: 'string',
+                description: 'SNI code to open (e.g. "J", "62", "62010")',
+              },
+              query: {
+                type: 'string',
+                description: 'Search industry names instead (Swedish or English)',
+              },
+              include_counts: {
+                type: 'boolean',
+                description: 'Include the number of cached companies per node',
+                default: true,
+              },
+            },
+          },
+        },
+        {
+          name: 'import_register_file',
+          description:
+            'Bulk import a Bolagsverket register file (CSV or JSON) from the server import directory into the cache (admin operation). Seeds names, legal forms, statuses, registration dates and addresses without scraping; imported companies are marked as register data and scraped on first lookup',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: {
+                type: 'string',
+                description: 'File name relative to REGISTER_IMPORT_DIR (.csv, .txt, .json, .ndjson)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Only import the first N rows',
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Parse and count rows without writing to the cache',
+                default: false,
+              },
+              confirm: {
+                type: 'boolean',
+                description: 'Confirmation flag',
+                default: false,
+              },
+            },
+            required: ['file', 'confirm'],
+          },
+        },
         {
           name: 'get_cache_stats',
           description: 'Get cache statistics and health metrics',
@@ -297,6 +458,267 @@ async function main() {
             properties: {},
           },
         },
+        {
+          name: 'get_selector_health',
+          description:
+            'Show per-field selector hit rates for scraped merinfo pages and warn about selector drift (fields that suddenly stopped resolving)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              recent_pages: {
+                type: 'number',
+                description: 'Number of most recent pages to compare',
+                default: 20,
+              },
+              baseline_pages: {
+                type: 'number',
+                description: 'Number of earlier pages used as the baseline',
+                default: 100,
+              },
+              only_drift: {
+                type: 'boolean',
+                description: 'Only return fields with drift',
+                default: false,
+              },
+            },
+          },
+        },
+        {
+          name: 'enqueue_companies',
+          description:
+            'Queue organization numbers for background scraping. A worker drains the queue at the scraping rate limit and saves results to the cache; poll with get_job_status',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              org_numbers: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Organization numbers (XXXXXX-XXXX), up to 1000',
+              },
+              priority: {
+                type: 'number',
+                description: 'Priority 1-10, higher runs first',
+                default: 5,
+              },
+              include_board: {
+                type: 'boolean',
+                description: 'Also scrape board members',
+                default: true,
+              },
+            },
+            required: ['org_numbers'],
+          },
+        },
+        {
+          name: 'get_job_status',
+          description:
+            'Get the status of a scrape job by id, the jobs for an organization number, or (without arguments) a summary of the whole queue',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              job_id: {
+                type: 'number',
+                description: 'Job id returned by enqueue_companies',
+              },
+              org_number: {
+                type: 'string',
+                description: 'Organization number to list jobs for',
+              },
+            },
+          },
+        },
+        {
+          name: 'list_failed_jobs',
+          description: 'List scrape jobs that failed after all attempts, with their last error',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'number',
+                description: 'Maximum number of jobs',
+                default: 10,
+              },
+            },
+          },
+        },
+        {
+          name: 'retry_failed_jobs',
+          description: 'Put failed scrape jobs back in the queue with a fresh attempt budget (admin operation)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              job_ids: {
+                type: 'array',
+                items: { type: 'number' },
+                description: 'Job ids to retry',
+              },
+              all: {
+                type: 'boolean',
+                description: 'Retry every failed job',
+                default: false,
+              },
+            },
+          },
+        },
+        {
+          name: 'get_proxy_health',
+          description:
+            'Show outbound proxy health: contexts opened, successes, failures, search-limit hits and which proxies are cooling down',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'list_scrape_failures',
+          description:
+            'List recent failed or partial scrapes with the error, URL chain and paths to the saved screenshot and HTML',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'number',
+                description: 'Maximum number of failures',
+                default: 10,
+              },
+              kind: {
+                type: 'string',
+                enum: ['failed', 'partial'],
+                description: 'Only errors (failed) or pages missing required fields (partial)',
+              },
+              operation: {
+                type: 'string',
+                description: 'Only this scrape operation, e.g. scrape_company or search_company_by_name',
+              },
+            },
+          },
+        },
+        {
+          name: 'reparse_archive',
+          description:
+            'Re-run extraction over the archived raw company and person pages and update cached companies and board members, without scraping (admin operation). Use after a parser fix or a new field',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              org_numbers: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only these companies (default: every archived company)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Only re-parse the first N companies',
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Report which fields would change without writing to the cache',
+                default: false,
+              },
+              confirm: {
+                type: 'boolean',
+                description: 'Confirmation flag',
+                default: false,
+              },
+            },
+            required: ['confirm'],
+          },
+        },
+        {
+          name: 'list_data_sources',
+          description:
+            'List the registered company data sources, which are enabled, and which source wins for each field when results are merged',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'validate_org_numbers',
+          description:
+            'Validate a list of Swedish organization numbers offline: format, Luhn checksum, and the legal-entity group from the leading digit (aktiebolag, ekonomisk förening, ideell förening, handelsbolag, ...). Also accepts 12-digit personal identity numbers of sole traders (enskild firma). No scraping',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              org_numbers: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Numbers to check (XXXXXX-XXXX, 10 or 12 digits)',
+              },
+              check_cache: {
+                type: 'boolean',
+                description: 'Report whether each valid number is already cached',
+                default: true,
+              },
+            },
+            required: ['org_numbers'],
+          },
+        },
+        {
+          name: 'export_person_data',
+          description:
+            'Export everything stored about one person as JSON, for a GDPR data access request (admin operation): board rows, engagements, archived profile pages and failure artifacts. Identify the person by profile URL, or by name plus birth year. Same-name rows without an age are listed separately as unverified',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Full name; requires birth_year',
+              },
+              birth_year: {
+                type: 'number',
+                description: 'Year of birth, matched against stored ages and personal numbers',
+              },
+              profile_url: {
+                type: 'string',
+                description: 'merinfo person profile URL (https://www.merinfo.se/person/...)',
+              },
+            },
+          },
+        },
+        {
+          name: 'erase_person_data',
+          description:
+            'Delete or anonymize everything stored about one person, for a GDPR erasure request (admin operation). By default the person is suppressed, so later scrapes do not store them again. Identify the person by profile URL, or by name plus birth year',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Full name; requires birth_year',
+              },
+              birth_year: {
+                type: 'number',
+                description: 'Year of birth, matched against stored ages and personal numbers',
+              },
+              profile_url: {
+                type: 'string',
+                description: 'merinfo person profile URL (https://www.merinfo.se/person/...)',
+              },
+              mode: {
+                type: 'string',
+                enum: ['delete', 'anonymize'],
+                description: 'delete removes the rows; anonymize keeps board roles without personal data',
+                default: 'delete',
+              },
+              suppress: {
+                type: 'boolean',
+                description: 'Keep the person out of future scrapes and re-parses',
+                default: true,
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Report what would be erased without changing anything',
+                default: false,
+              },
+              confirm: {
+                type: 'boolean',
+                description: 'Confirmation flag',
+                default: false,
+              },
+            },
+            required: ['confirm'],
+          },
+        },
       ],
     };
   });
@@ -329,6 +751,9 @@ async function main() {
         case 'search_person':
           result = await tools.searchPerson(args as any);
           break;
+        case 'get_person_engagements':
+          result = await tools.getPersonEngagements(args as any);
+          break;
         case 'get_financial_data':
           result = await tools.getFinancialData(args as any);
           break;
@@ -347,6 +772,48 @@ async function main() {
         case 'get_cache_stats':
           result = await tools.getCacheStats();
           break;
+        case 'get_selector_health':
+          result = await tools.getSelectorHealth(args as any);
+          break;
+        case 'list_data_sources':
+          result = await tools.listDataSources();
+          break;
+        case 'import_register_file':
+          result = await tools.importRegisterFile(args as any);
+          break;
+        case 'browse_sni_taxonomy':
+          result = await tools.browseSniTaxonomy(args as any);
+          break;
+        case 'enqueue_companies':
+          result = await tools.enqueueCompanies(args as any);
+          break;
+        case 'get_job_status':
+          result = await tools.getJobStatus(args as any);
+          break;
+        case 'list_failed_jobs':
+          result = await tools.listFailedJobs(args as any);
+          break;
+        case 'retry_failed_jobs':
+          result = await tools.retryFailedJobs(args as any);
+          break;
+        case 'get_proxy_health':
+          result = await tools.getProxyHealth();
+          break;
+        case 'list_scrape_failures':
+          result = await tools.listScrapeFailures(args as any);
+          break;
+        case 'reparse_archive':
+          result = await tools.reparseArchive(args as any);
+          break;
+        case 'validate_org_numbers':
+          result = await tools.validateOrgNumbers(args as any);
+          break;
+        case 'export_person_data':
+          result = await tools.exportPersonData(args as any);
+          break;
+        case 'erase_person_data':
+          result = await tools.erasePersonData(args as any);
+          break;
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -370,6 +837,7 @@ async function main() {
               {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                retry_after_ms: error instanceof RateLimitError ? error.retry_after_ms : undefined,
               },
               null,
               2
@@ -463,6 +931,8 @@ async function main() {
    */
   process.on('SIGINT', async () => {
     logger.info('Shutting down...');
+    scheduler.stop();
+    await worker.stop();
     await browserPool.closeAll();
     db.close();
     process.exit(0);
@@ -470,6 +940,8 @@ async function main() {
 
   process.on('SIGTERM', async () => {
     logger.info('Shutting down...');
+    scheduler.stop();
+    await worker.stop();
     await browserPool.closeAll();
     db.close();
     process.exit(0);
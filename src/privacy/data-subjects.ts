@@ -0,0 +1,128 @@
+/**
+ * Data subject requests (GDPR articles 15 and 17)
+ * Finds everything stored about one person across the cache, the page archive and
+ * failure artifacts, exports it, and erases it. Erased people are suppressed, so later
+ * scrapes and re-parses do not store them again.
+ */
+
+import { CompanyDatabase } from '../cache/database.js';
+import { PageArchive, pageArchive } from '../cache/page-archive.js';
+import { FailureArtifactStore, failureArtifacts } from '../scraper/failure-artifacts.js';
+import {
+  DataSubject,
+  ErasureMode,
+  FailureArtifact,
+  PersonDataExport,
+  PersonErasureResult,
+  PersonProfile,
+} from '../types.js';
+import { logger } from '../utils/logger.js';
+
+interface DataSubjectStores {
+  archive?: PageArchive;
+  artifacts?: FailureArtifactStore;
+}
+
+/**
+ * Everything stored about a person, unredacted
+ */
+export async function exportPersonData(
+  db: CompanyDatabase,
+  subject: DataSubject,
+  options: DataSubjectStores = {}
+): Promise<PersonDataExport> {
+  const archive = options.archive || pageArchive;
+  const { people, unverified, profile_urls } = db.findPeople(subject);
+
+  const profiles = profile_urls
+    .map((url) => db.getPersonProfile(url))
+    .filter((profile): profile is PersonProfile => profile !== null);
+
+  // Company pages are kept, but their board rosters name the person
+  const org_numbers = [...new Set(people.map((p) => p.org_number))];
+  const archived_company_pages = org_numbers.length > 0 ? archive.listOrgNumbers({ org_numbers }) : [];
+
+  return {
+    subject,
+    exported_at: new Date().toISOString(),
+    suppressed: db.getSuppression(subject),
+    people,
+    unverified_matches: unverified,
+    profiles,
+    archived_pages: archive.getPersonPages(profile_urls),
+    archived_company_pages,
+    failure_artifacts: await findArtifacts(options.artifacts || failureArtifacts, profile_urls),
+  };
+}
+
+/**
+ * Delete or anonymize everything stored about a person
+ * Unverified same-name rows are left alone; erase them by profile URL once confirmed.
+ */
+export async function erasePersonData(
+  db: CompanyDatabase,
+  subject: DataSubject,
+  options: DataSubjectStores & { mode?: ErasureMode; suppress?: boolean; dry_run?: boolean } = {}
+): Promise<PersonErasureResult> {
+  const archive = options.archive || pageArchive;
+  const artifacts = options.artifacts || failureArtifacts;
+  const mode = options.mode || 'delete';
+  const suppress = options.suppress ?? true;
+  const dry_run = options.dry_run ?? false;
+
+  const { people, unverified, profile_urls } = db.findPeople(subject);
+  const ids = people.map((p) => p.id!);
+  const artifactIds = (await findArtifacts(artifacts, profile_urls)).map((a) => a.id);
+
+  const result: PersonErasureResult = {
+    subject,
+    mode,
+    people_deleted: 0,
+    people_anonymized: 0,
+    engagements_deleted: 0,
+    archived_pages_deleted: 0,
+    failure_artifacts_deleted: 0,
+    profile_urls: profile_urls.length,
+    unverified_matches: unverified.length,
+    suppressed: suppress && !dry_run,
+    dry_run,
+  };
+
+  if (dry_run) {
+    result[mode === 'delete' ? 'people_deleted' : 'people_anonymized'] = ids.length;
+    result.engagements_deleted = profile_urls.reduce(
+      (count, url) => count + (db.getPersonProfile(url)?.engagements.length || 0),
+      0
+    );
+    result.archived_pages_deleted = archive.getPersonPages(profile_urls).length;
+    result.failure_artifacts_deleted = artifactIds.length;
+    return result;
+  }
+
+  const erased = db.transaction(() => {
+    const erased = db.erasePeople(ids, profile_urls, mode);
+    if (suppress) db.suppressPerson(subject, profile_urls, mode);
+    return erased;
+  });
+
+  result[mode === 'delete' ? 'people_deleted' : 'people_anonymized'] = erased.people;
+  result.engagements_deleted = erased.engagements;
+  result.archived_pages_deleted = archive.erasePersonPages(profile_urls, { suppress });
+  result.failure_artifacts_deleted = await artifacts.erase(artifactIds);
+
+  // Log counts only; the subject is what is being erased
+  logger.warn({ ...result, subject: undefined }, 'Person data erased');
+  return result;
+}
+
+/**
+ * Captures of a person's profile pages
+ */
+async function findArtifacts(artifacts: FailureArtifactStore, profile_urls: string[]): Promise<FailureArtifact[]> {
+  if (profile_urls.length === 0) return [];
+  const urls = new Set(profile_urls);
+
+  return (await artifacts.list()).filter(
+    (a) => urls.has(a.key) || (a.url !== undefined && urls.has(a.url)) || a.url_chain.some((u) => urls.has(u))
+  );
+}
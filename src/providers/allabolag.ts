@@ -0,0 +1,25 @@
+/**
+ * allabolag.se provider
+ * Adapts AllabolagScraper to the common provider interface
+ */
+
+import { allabolagScraper, ALLABOLAG_BASE_URL } from '../scraper/allabolag.js';
+import { CompanyDataProvider, ProviderResult } from '../types.js';
+
+export class AllabolagProvider implements CompanyDataProvider {
+  readonly id = 'allabolag';
+  readonly description = 'allabolag.se company pages: financials, board and group structure';
+  readonly base_url = ALLABOLAG_BASE_URL;
+
+  async fetchCompany(org_number: string, options: { include_board: boolean }): Promise<ProviderResult> {
+    const { company, board_members } = await allabolagScraper.scrapeCompany(org_number, options.include_board);
+
+    return {
+      provider: this.id,
+      company,
+      board_members,
+      source_url: company.source_url,
+      fetched_at: company.scraped_at || new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Field-level merge of provider results into one CompanyData
+ */
+
+import { CompanyData, FieldProvenance, MergePolicy, PersonDetails, ProviderResult } from '../types.js';
+
+/**
+ * Every mergeable field, as a dotted path into CompanyData
+ * Arrays and objects (financials, categories, ...) are merged as a whole
+ */
+export const MERGE_FIELDS = [
+  'name',
+  'legal_form',
+  'status',
+  'registration_date',
+  'contact.phone',
+  'contact.email',
+  'contact.website',
+  'contact.address',
+  'contact.postal_code',
+  'contact.city',
+  'contact.municipality',
+  'contact.county',
+  'tax_info.f_skatt',
+  'tax_info.vat_registered',
+  'tax_info.employer_registered',
+  'financials',
+  'financial_history',
+  'industry.sni_code',
+  'industry.sni_description',
+  'industry.categories',
+  'industry.activity_description',
+  'group',
+  'bankgiro_number',
+  'employees',
+  'employees_range',
+  'share_capital',
+  'size_class',
+  'has_remarks',
+  'remarks',
+  'remark_details',
+] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+/**
+ * Provider order for a field: field override first, then the default order,
+ * then any remaining providers in the order they returned
+ */
+export function providerOrder(field: string, policy: MergePolicy, available: string[]): string[] {
+  const preferred = [...(policy.fields[field] || []), ...policy.default_order];
+  const ordered = preferred.filter((id, i) => available.includes(id) && preferred.indexOf(id) === i);
+  return [...ordered, ...available.filter((id) => !ordered.includes(id))];
+}
+
+/**
+ * Merge provider results field by field; the first provider (by policy) with a
+ * non-empty value wins. Boolean values count only where the provider's provenance
+ * says the field was found. Records the winning provider per field in field_sources,
+ * and its provenance in field_provenance.
+ */
+export function mergeProviderResults(
+  org_number: string,
+  results: ProviderResult[],
+  policy: MergePolicy
+): { company: CompanyData; board_members: PersonDetails[] } {
+  const byProvider = new Map(results.map((r) => [r.provider, r]));
+  const available = results.map((r) => r.provider);
+
+  const company: CompanyData = {
+    org_number,
+    name: '',
+    contact: {},
+    tax_info: {
+      f_skatt: false,
+      vat_registered: false,
+      employer_registered: false,
+    },
+    industry: {},
+    has_remarks: false,
+    source_url: '',
+    scraped_at: new Date().toISOString(),
+  };
+  const field_sources: Record<string, string> = {};
+  const field_provenance: Record<string, FieldProvenance> = {};
+
+  for (const field of MERGE_FIELDS) {
+    const order = providerOrder(field, policy, available);
+
+    for (const provider of order) {
+      const result = byProvider.get(provider)!;
+      const value = getPath(result.company, field);
+      if (isEmpty(value)) continue;
+      // Parsers default booleans to false; only a provider that read the field knows
+      if (typeof value === 'boolean' && result.company.field_provenance?.[field]?.status !== 'found') continue;
+
+      setPath(company, field, value);
+      field_sources[field] = provider;
+      field_provenance[field] = result.company.field_provenance?.[field] || {
+        source: provider,
+        extracted_at: result.fetched_at,
+        status: 'found',
+        confidence: 'medium',
+      };
+      break;
+    }
+
+    // No value anywhere: a failed extraction says more than a field the page lacks
+    if (!field_provenance[field]) {
+      const reported = order.map((provider) => byProvider.get(provider)!.company.field_provenance?.[field]);
+      const provenance = reported.find((p) => p?.status === 'failed') || reported.find((p) => p);
+      if (provenance) field_provenance[field] = provenance;
+    }
+  }
+
+  // Source URL and timestamp follow whichever provider supplied the name
+  const primary = byProvider.get(field_sources.name || available[0]);
+  company.source_url = primary?.source_url || primary?.company.source_url || '';
+  company.scraped_at = primary?.fetched_at || company.scraped_at;
+  company.field_sources = field_sources;
+  company.field_provenance = field_provenance;
+
+  // Board members are taken as a whole from one provider
+  let board_members: PersonDetails[] = [];
+  for (const provider of providerOrder('board_members', policy, available)) {
+    const members = byProvider.get(provider)!.board_members;
+    if (members && members.length > 0) {
+      board_members = members.map((m) => ({ ...m, source: provider }));
+      field_sources.board_members = provider;
+      break;
+    }
+  }
+
+  return { company, board_members };
+}
+
+/**
+ * Fill fields a partial refresh (e.g. one forced source) did not return from the
+ * cached record, keeping the cached field's source and provenance
+ * Cached fields that came from one of `replaced_sources` are not carried over.
+ */
+export function mergeWithCached(
+  fresh: CompanyData,
+  cached: CompanyData | null,
+  replaced_sources: string[] = []
+): CompanyData {
+  if (!cached) return fresh;
+
+  const company: CompanyData = structuredClone(fresh);
+  const field_sources = { ...(fresh.field_sources || {}) };
+  const field_provenance = { ...(fresh.field_provenance || {}) };
+
+  for (const field of MERGE_FIELDS) {
+    if (field_sources[field]) continue;
+    const source = cached.field_sources?.[field];
+    if (source && replaced_sources.includes(source)) continue;
+
+    const value = getPath(cached, field);
+    if (isEmpty(value)) continue;
+
+    setPath(company, field, value);
+    if (source) {
+      field_sources[field] = source;
+    }
+    if (cached.field_provenance?.[field]) {
+      field_provenance[field] = cached.field_provenance[field];
+    } else {
+      delete field_provenance[field];
+    }
+  }
+
+  if (!field_sources.board_members && cached.field_sources?.board_members) {
+    field_sources.board_members = cached.field_sources.board_members;
+  }
+
+  company.field_sources = field_sources;
+  company.field_provenance = field_provenance;
+  return company;
+}
+
+/**
+ * Merge fields whose value differs between two records
+ */
+export function changedFields(a: CompanyData, b: CompanyData | null): MergeField[] {
+  return MERGE_FIELDS.filter((field) => {
+    const before = b ? getPath(b, field) : undefined;
+    const after = getPath(a, field);
+    if (isEmpty(before) && isEmpty(after)) return false;
+    return JSON.stringify(before) !== JSON.stringify(after);
+  });
+}
+
+export function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+export function getPath(source: object, path: string): unknown {
+  return path.split('.').reduce<any>((obj, key) => (obj == null ? undefined : obj[key]), source);
+}
+
+function setPath(target: object, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce<any>((obj, key) => (obj[key] ??= {}), target);
+  parent[keys[keys.length - 1]] = value;
+}
@@ -0,0 +1,37 @@
+/**
+ * merinfo.se provider
+ * Adapts MerinfoScraper to the common provider interface
+ */
+
+import { merinfoScraper } from '../scraper/merinfo.js';
+import { CompanyDataProvider, CompanySearchCandidate, PersonProfile, ProviderResult } from '../types.js';
+
+export class MerinfoProvider implements CompanyDataProvider {
+  readonly id = 'merinfo';
+  readonly description = 'merinfo.se company pages (Playwright scraper)';
+  readonly base_url = 'https://www.merinfo.se';
+
+  async fetchCompany(org_number: string, options: { include_board: boolean }): Promise<ProviderResult> {
+    const { company, board_members, extraction } = await merinfoScraper.scrapeCompany(
+      org_number,
+      options.include_board
+    );
+
+    return {
+      provider: this.id,
+      company,
+      board_members,
+      extraction,
+      source_url: company.source_url,
+      fetched_at: company.scraped_at,
+    };
+  }
+
+  async searchByName(query: string, limit: number, max_pages: number): Promise<CompanySearchCandidate[]> {
+    return merinfoScraper.searchCompaniesByName(query, limit, max_pages);
+  }
+
+  async fetchPersonEngagements(profile_url: string): Promise<PersonProfile> {
+    return merinfoScraper.scrapePersonEngagements(profile_url);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Provider registry
+ * Holds the available data sources, which of them are enabled, and the merge policy
+ */
+
+import {
+  CompanyDataProvider,
+  CompanySearchCandidate,
+  MergePolicy,
+  PersonProfile,
+  ProviderResult,
+  ScrapeResult,
+  DEFAULT_CONFIG,
+} from '../types.js';
+import { logger } from '../utils/logger.js';
+import { mergeProviderResults } from './merge.js';
+import { MerinfoProvider } from './merinfo.js';
+import { AllabolagProvider } from './allabolag.js';
+
+export class ProviderRegistry {
+  private providers: Map<string, CompanyDataProvider> = new Map();
+  private enabled: Set<string> = new Set();
+
+  constructor(private policy: MergePolicy = { default_order: [], fields: {} }) {}
+
+  /**
+   * Register a provider; enabled unless stated otherwise
+   */
+  register(provider: CompanyDataProvider, enabled: boolean = true): void {
+    this.providers.set(provider.id, provider);
+    if (enabled) {
+      this.enabled.add(provider.id);
+    } else {
+      this.enabled.delete(provider.id);
+    }
+    if (!this.policy.default_order.includes(provider.id)) {
+      this.policy.default_order.push(provider.id);
+    }
+  }
+
+  /**
+   * Enable or disable a registered provider
+   */
+  setEnabled(id: string, enabled: boolean): void {
+    this.get(id);
+    if (enabled) {
+      this.enabled.add(id);
+    } else {
+      this.enabled.delete(id);
+    }
+  }
+
+  /**
+   * Get a registered provider by id
+   */
+  get(id: string): CompanyDataProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown data source: ${id} (available: ${[...this.providers.keys()].join(', ')})`);
+    }
+    return provider;
+  }
+
+  /**
+   * Enabled providers in merge priority order
+   */
+  listEnabled(): CompanyDataProvider[] {
+    return this.policy.default_order.filter((id) => this.enabled.has(id)).map((id) => this.get(id));
+  }
+
+  /**
+   * Registered providers and their status
+   */
+  describe(): Array<{ id: string; description: string; enabled: boolean }> {
+    return [...this.providers.values()].map((p) => ({
+      id: p.id,
+      description: p.description,
+      enabled: this.enabled.has(p.id),
+    }));
+  }
+
+  getPolicy(): MergePolicy {
+    return this.policy;
+  }
+
+  /**
+   * Fetch a company from the enabled providers (or only `sources`) and merge the results
+   * Providers that fail are skipped; if all fail, the first error is thrown
+   */
+  async fetchCompany(
+    org_number: string,
+    options: { include_board: boolean; sources?: string[] }
+  ): Promise<ScrapeResult & { providers: string[]; provider_errors: Record<string, string> }> {
+    const providers = options.sources?.length
+      ? options.sources.map((id) => this.get(id))
+      : this.listEnabled();
+
+    if (providers.length === 0) {
+      throw new Error('No data sources enabled');
+    }
+
+    const results: ProviderResult[] = [];
+    const errors: Error[] = [];
+    const provider_errors: Record<string, string> = {};
+
+    // Sequential on purpose: providers share the browser pool and rate budget
+    for (const provider of providers) {
+      try {
+        results.push(await provider.fetchCompany(org_number, { include_board: options.include_board }));
+      } catch (error) {
+        const err = error as Error;
+        logger.warn({ provider: provider.id, org_number, error: err.message }, 'Provider failed');
+        errors.push(err);
+        provider_errors[provider.id] = err.message;
+      }
+    }
+
+    if (results.length === 0) {
+      throw errors[0];
+    }
+
+    const { company, board_members } = mergeProviderResults(org_number, results, this.policy);
+
+    return {
+      company,
+      board_members,
+      extraction: results.flatMap((r) => r.extraction || []),
+      providers: results.map((r) => r.provider),
+      provider_errors,
+    };
+  }
+
+  /**
+   * Live name search through the first enabled provider that supports it
+   */
+  async searchByName(query: string, limit: number, max_pages: number): Promise<CompanySearchCandidate[]> {
+    const provider = this.listEnabled().find((p) => p.searchByName);
+    if (!provider) {
+      throw new Error('No enabled data source supports live name search');
+    }
+    return provider.searchByName!(query, limit, max_pages);
+  }
+
+  /**
+   * Person engagements through the enabled provider that owns the profile URL
+   */
+  async fetchPersonEngagements(profile_url: string): Promise<PersonProfile> {
+    const host = new URL(profile_url).host;
+    const provider = this.listEnabled().find(
+      (p) => p.fetchPersonEngagements && new URL(p.base_url).host === host
+    );
+    if (!provider) {
+      throw new Error(`No enabled data source supports person engagements for ${host}`);
+    }
+    return provider.fetchPersonEngagements!(profile_url);
+  }
+}
+
+/**
+ * Global provider registry, configured from PROVIDERS_ENABLED / PROVIDER_FIELD_PRIORITY
+ */
+export const providerRegistry = new ProviderRegistry({
+  default_order: [...DEFAULT_CONFIG.providers_enabled],
+  fields: DEFAULT_CONFIG.provider_field_priority,
+});
+
+providerRegistry.register(new MerinfoProvider(), DEFAULT_CONFIG.providers_enabled.includes('merinfo'));
+providerRegistry.register(new AllabolagProvider(), DEFAULT_CONFIG.providers_enabled.includes('allabolag'));
@@ -0,0 +1,101 @@
+/**
+ * Background refresh scheduler
+ * Periodically queues stale companies, most accessed first, at the lowest queue priority.
+ * Each run queues at most REFRESH_RATE_SHARE of the scraping rate budget for the interval;
+ * the queue worker releases those jobs evenly across it, so on-demand scrapes keep the rest.
+ */
+
+import { CompanyDatabase } from '../cache/database.js';
+import { DEFAULT_CONFIG } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Below the 1-10 range enqueue_companies accepts, so client jobs are never taken for refresh jobs
+ */
+export const REFRESH_PRIORITY = 0;
+
+export class RefreshScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private lastRun: { at: string; queued: number; stale: number } | null = null;
+
+  constructor(
+    private db: CompanyDatabase,
+    private options: {
+      interval_minutes: number;
+      rate_share: number;
+      stale_days: number;
+      scraping_rpm: number;
+    } = {
+      interval_minutes: DEFAULT_CONFIG.refresh_interval_minutes,
+      rate_share: DEFAULT_CONFIG.refresh_rate_share,
+      stale_days: DEFAULT_CONFIG.cache_stale_days,
+      scraping_rpm: DEFAULT_CONFIG.rate_limit_scraping_rpm,
+    }
+  ) {}
+
+  /**
+   * Run once now, then every interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    if (!DEFAULT_CONFIG.queue_worker_enabled) {
+      logger.warn('Background refresh is enabled but the queue worker is not; refresh jobs will wait in the queue');
+    }
+
+    logger.info(
+      { interval_minutes: this.options.interval_minutes, budget_per_run: this.budget() },
+      'Background refresh scheduler started'
+    );
+
+    this.runOnce();
+    this.timer = setInterval(() => this.runOnce(), this.options.interval_minutes * 60_000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    logger.info('Background refresh scheduler stopped');
+  }
+
+  /**
+   * Queue the next batch of stale companies
+   * Refresh jobs still waiting from earlier runs count against this run's budget.
+   */
+  runOnce(): number {
+    try {
+      const available = this.budget() - this.db.countPendingScrapeJobs(REFRESH_PRIORITY);
+      const candidates = available > 0 ? this.db.getRefreshCandidates(this.options.stale_days, available) : [];
+      const queued = candidates.length > 0 ? this.db.enqueueScrape(candidates, REFRESH_PRIORITY) : 0;
+      const stale = this.db.countStaleCompanies(this.options.stale_days);
+
+      this.lastRun = { at: new Date().toISOString(), queued, stale };
+      logger.info({ queued, stale, budget: this.budget() }, 'Background refresh queued stale companies');
+
+      return queued;
+    } catch (error) {
+      logger.error({ error }, 'Background refresh failed');
+      return 0;
+    }
+  }
+
+  getStatus() {
+    return {
+      running: this.timer !== null,
+      interval_minutes: this.options.interval_minutes,
+      budget_per_run: this.budget(),
+      last_run: this.lastRun,
+    };
+  }
+
+  /**
+   * Scrapes allowed per interval: a share of the scraping rate limit
+   */
+  private budget(): number {
+    const share = Math.min(Math.max(this.options.rate_share, 0), 1);
+    return Math.floor(this.options.scraping_rpm * this.options.interval_minutes * share);
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Scrape queue worker
+ * Drains the persistent scrape_queue one job at a time. Scrapes go through the
+ * provider registry, so the scrapers' own rate limiters pace the worker. Refresh jobs
+ * are also released evenly at their own rate (REFRESH_RATE_SHARE of the scraping rate),
+ * so a queued refresh batch never takes the whole scraping budget.
+ */
+
+import { CompanyDatabase } from '../cache/database.js';
+import { ProviderRegistry, providerRegistry } from '../providers/registry.js';
+import { CircuitOpenError, DEFAULT_CONFIG, ScrapeJob } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { BackoffStrategy } from '../utils/rate-limiter.js';
+import { REFRESH_PRIORITY } from './refresh-scheduler.js';
+
+/**
+ * Errors that will not go away by trying again later
+ */
+const PERMANENT_ERRORS = ['NoSuchCompanyError', 'ZodError'];
+
+export class ScrapeWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private current: Promise<void> | null = null;
+  private backoff = new BackoffStrategy(30_000, 30 * 60_000);
+  private nextRefreshAt = 0;
+
+  constructor(
+    private db: CompanyDatabase,
+    private providers: ProviderRegistry = providerRegistry,
+    private options: { poll_interval_ms: number; max_attempts: number; refresh_rpm: number } = {
+      poll_interval_ms: DEFAULT_CONFIG.queue_poll_interval_ms,
+      max_attempts: DEFAULT_CONFIG.queue_max_attempts,
+      refresh_rpm: DEFAULT_CONFIG.rate_limit_scraping_rpm * DEFAULT_CONFIG.refresh_rate_share,
+    }
+  ) {}
+
+  /**
+   * Start polling the queue
+   * Jobs left in processing by a previous run are returned to the queue first.
+   */
+  start(): void {
+    if (this.running) return;
+
+    const reset = this.db.resetProcessingScrapeJobs();
+    if (reset > 0) {
+      logger.info({ jobs: reset }, 'Requeued interrupted scrape jobs');
+    }
+
+    this.running = true;
+    logger.info({ poll_interval_ms: this.options.poll_interval_ms }, 'Scrape queue worker started');
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the job in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.current;
+    logger.info('Scrape queue worker stopped');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Claim and process one job
+   * Returns false when nothing is runnable. Refresh jobs are skipped until their next
+   * slot (never at a zero refresh rate), while higher-priority jobs run as usual.
+   */
+  async processNext(): Promise<boolean> {
+    const refreshDue = this.options.refresh_rpm > 0 && Date.now() >= this.nextRefreshAt;
+    const job = this.db.claimNextScrapeJob(refreshDue ? undefined : REFRESH_PRIORITY + 1);
+    if (!job) return false;
+
+    if (job.priority <= REFRESH_PRIORITY) {
+      this.nextRefreshAt = Date.now() + 60_000 / this.options.refresh_rpm;
+    }
+
+    this.current = this.process(job);
+    try {
+      await this.current;
+    } finally {
+      this.current = null;
+    }
+    return true;
+  }
+
+  private schedule(delay_ms: number): void {
+    if (!this.running) return;
+
+    this.timer = setTimeout(() => void this.tick(), delay_ms);
+    this.timer.unref();
+  }
+
+  /**
+   * Drain runnable jobs, then sleep until the next poll or refresh slot
+   */
+  private async tick(): Promise<void> {
+    try {
+      while (this.running && (await this.processNext())) {
+        // keep draining
+      }
+    } catch (error) {
+      logger.error({ error }, 'Scrape queue worker error');
+    }
+
+    const untilRefresh = this.nextRefreshAt - Date.now();
+    const { poll_interval_ms } = this.options;
+    this.schedule(untilRefresh > 0 ? Math.min(untilRefresh, poll_interval_ms) : poll_interval_ms);
+  }
+
+  private async process(job: ScrapeJob): Promise<void> {
+    const startTime = Date.now();
+    logger.info({ job_id: job.id, org_number: job.org_number, attempt: job.attempts }, 'Processing scrape job');
+
+    try {
+      const result = await this.providers.fetchCompany(job.org_number, { include_board: job.include_board });
+
+      this.db.recordExtraction(result.extraction);
+      this.db.saveCompany(result.company);
+      if (job.include_board && result.board_members.length > 0) {
+        this.db.saveBoardMembers(job.org_number, result.board_members);
+      }
+
+      this.db.completeScrapeJob(job.id);
+      logger.info({ job_id: job.id, duration_ms: Date.now() - startTime }, 'Scrape job completed');
+    } catch (error) {
+      // The site is blocking us; wait for the circuit without using up an attempt
+      if (error instanceof CircuitOpenError) {
+        this.db.deferScrapeJob(job.id, error.retry_after_ms, error.message);
+        logger.info({ job_id: job.id, retry_in_ms: error.retry_after_ms }, 'Scrape job deferred');
+        return;
+      }
+
+      const err = error as Error;
+      const permanent = PERMANENT_ERRORS.includes(err.name);
+      const retry_in_ms =
+        permanent || job.attempts >= this.options.max_attempts ? null : this.backoff.getDelay(job.attempts);
+
+      this.db.failScrapeJob(job.id, err.message, retry_in_ms);
+      logger.warn(
+        { job_id: job.id, org_number: job.org_number, attempt: job.attempts, error: err.message, retry_in_ms },
+        retry_in_ms === null ? 'Scrape job failed' : 'Scrape job failed, will retry'
+      );
+    }
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Allabolag.se page parser
+ * Company pages embed their data as Next.js page props (script#__NEXT_DATA__);
+ * the parser reads that JSON and falls back to the page heading for the name
+ */
+
+import * as cheerio from 'cheerio';
+import {
+  CompanyData,
+  CompanyGroup,
+  FieldProvenance,
+  FinancialData,
+  FinancialYear,
+  PersonDetails,
+} from '../types.js';
+import {
+  cleanText,
+  deriveSizeClass,
+  extractOrgNumber,
+  normalizeRole,
+  parseDate,
+} from '../utils/parsers.js';
+import { getPath, isEmpty } from '../providers/merge.js';
+
+/**
+ * Account codes in allabolag's annual accounts (amounts in tkr)
+ */
+const ACCOUNT_CODES: Record<
+  string,
+  keyof Pick<FinancialData, 'revenue' | 'profit_after_financial' | 'net_profit' | 'total_assets'>
+> = {
+  SDI: 'revenue', // Nettoomsättning
+  RPE: 'profit_after_financial', // Resultat efter finansnetto
+  DR: 'net_profit', // Årets resultat
+  SV: 'total_assets', // Summa tillgångar
+};
+const EMPLOYEES_ACCOUNT_CODE = 'ANT';
+
+/**
+ * Page props key each company field is read from (size class is derived)
+ */
+const FIELD_KEYS: Record<string, string | null> = {
+  name: 'name',
+  legal_form: 'companyType',
+  status: 'status',
+  registration_date: 'registrationDate',
+  'contact.phone': 'phone',
+  'contact.email': 'email',
+  'contact.website': 'homePage',
+  'contact.address': 'visitorAddress.addressLine',
+  'contact.postal_code': 'visitorAddress.zipCode',
+  'contact.city': 'visitorAddress.postPlace',
+  'contact.municipality': 'location.municipality',
+  'contact.county': 'location.county',
+  financials: 'companyAccounts',
+  financial_history: 'companyAccounts',
+  'industry.sni_code': 'industries',
+  'industry.sni_description': 'industries',
+  'industry.activity_description': 'purpose',
+  group: 'corporateStructure',
+  employees: 'employees',
+  share_capital: 'shareCapital',
+  size_class: null,
+};
+
+export interface AllabolagCompanyPage {
+  company: Partial<CompanyData> & { org_number: string };
+  board_members: PersonDetails[];
+}
+
+/**
+ * Parse an allabolag company page into partial CompanyData and the board roster
+ */
+export function parseAllabolagCompanyPage(
+  html: string,
+  meta: { org_number: string; url: string; base_url: string; scraped_at?: string }
+): AllabolagCompanyPage {
+  const $ = cheerio.load(html);
+  const scraped_at = meta.scraped_at || new Date().toISOString();
+  const data = readCompanyProps($('script#__NEXT_DATA__').html());
+
+  if (!data) {
+    const name = cleanText($('h1').first().text()) || '';
+    const failed: FieldProvenance = {
+      source: 'allabolag',
+      extracted_at: scraped_at,
+      status: 'failed',
+      confidence: 'low',
+    };
+
+    // Only the heading is readable; every other field failed to extract
+    const field_provenance = Object.fromEntries(Object.keys(FIELD_KEYS).map((path) => [path, failed]));
+    if (name) {
+      field_provenance.name = { ...failed, rule: 'css:h1', status: 'found', confidence: 'medium' };
+    }
+
+    return {
+      company: {
+        org_number: meta.org_number,
+        name,
+        source_url: meta.url,
+        scraped_at,
+        field_provenance,
+      },
+      board_members: [],
+    };
+  }
+
+  const financial_history = parseAccounts(data.companyAccounts);
+  const latest = financial_history[financial_history.length - 1];
+  const employees = num(data.employees) ?? latestEmployees(data.companyAccounts);
+  const sni = Array.isArray(data.industries) ? data.industries[0] : data.currentIndustry;
+
+  const company: AllabolagCompanyPage['company'] = {
+    org_number: meta.org_number,
+    name: str(data.name) || str(data.legalName) || cleanText($('h1').first().text()) || '',
+    legal_form: str(data.companyType?.name) || str(data.companyType),
+    status: str(data.status?.status) || str(data.status),
+    registration_date: parseDate(str(data.registrationDate)) || str(data.registrationDate),
+    contact: {
+      phone: str(data.phone) || str(data.legalPhone),
+      email: str(data.email),
+      website: website(str(data.homePage)),
+      address: str(data.visitorAddress?.addressLine),
+      postal_code: str(data.visitorAddress?.zipCode)?.replace(/\s/g, ''),
+      city: str(data.visitorAddress?.postPlace),
+      municipality: str(data.location?.municipality),
+      county: str(data.location?.county),
+    },
+    financials: latest,
+    financial_history,
+    industry: {
+      sni_code: str(sni?.code),
+      sni_description: str(sni?.name),
+      activity_description: str(data.purpose),
+    },
+    group: parseGroup(data.corporateStructure),
+    employees,
+    share_capital: num(data.shareCapital),
+    size_class: deriveSizeClass(employees, latest?.revenue, latest?.total_assets) || undefined,
+    source_url: meta.url,
+    scraped_at,
+  };
+  company.field_provenance = propsProvenance(company, data, scraped_at);
+
+  return {
+    company,
+    board_members: parseRoles(data.roles, meta.org_number, meta.base_url, scraped_at),
+  };
+}
+
+/**
+ * Provenance per field: found, absent from the page props, or present but unreadable
+ */
+function propsProvenance(
+  company: Partial<CompanyData>,
+  data: any,
+  extracted_at: string
+): Record<string, FieldProvenance> {
+  const provenance: Record<string, FieldProvenance> = {};
+
+  for (const [path, key] of Object.entries(FIELD_KEYS)) {
+    const found = !isEmpty(getPath(company, path));
+    const base = { source: 'allabolag', extracted_at, rule: key ? `__NEXT_DATA__:${key}` : 'derived' };
+
+    if (found) {
+      provenance[path] = { ...base, status: 'found', confidence: key ? 'high' : 'medium' };
+    } else if (key && getPath(data, key) != null) {
+      provenance[path] = { ...base, status: 'failed', confidence: 'low' };
+    } else {
+      provenance[path] = { ...base, status: 'absent', confidence: 'medium' };
+    }
+  }
+
+  return provenance;
+}
+
+/**
+ * Locate the company object in Next.js page props
+ */
+function readCompanyProps(json: string | null): any | null {
+  if (!json) return null;
+
+  try {
+    const props = JSON.parse(json)?.props?.pageProps;
+    return props?.company || props?.companyData || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Annual accounts -> one FinancialYear per year, oldest first
+ */
+function parseAccounts(accounts: unknown): FinancialYear[] {
+  if (!Array.isArray(accounts)) return [];
+
+  const years = new Map<number, FinancialYear>();
+
+  for (const account of accounts) {
+    const fiscal_year = num(account?.year);
+    if (!fiscal_year || !Array.isArray(account.accounts)) continue;
+
+    const year: FinancialYear = years.get(fiscal_year) || {
+      fiscal_year,
+      period: str(account.period) || String(fiscal_year),
+      currency: str(account.currency) || 'SEK',
+    };
+
+    for (const entry of account.accounts) {
+      const field = ACCOUNT_CODES[entry?.code];
+      const amount = num(entry?.amount);
+      if (field && amount !== undefined) {
+        year[field] ??= amount * 1000;
+      }
+    }
+
+    years.set(fiscal_year, year);
+  }
+
+  return [...years.values()].sort((a, b) => a.fiscal_year - b.fiscal_year);
+}
+
+/**
+ * Employee count from the most recent annual account
+ */
+function latestEmployees(accounts: unknown): number | undefined {
+  if (!Array.isArray(accounts)) return undefined;
+
+  const sorted = [...accounts].sort((a, b) => (num(b?.year) || 0) - (num(a?.year) || 0));
+  for (const account of sorted) {
+    const entry = Array.isArray(account?.accounts)
+      ? account.accounts.find((e: any) => e?.code === EMPLOYEES_ACCOUNT_CODE)
+      : undefined;
+    const value = num(entry?.amount);
+    if (value !== undefined) return value;
+  }
+
+  return undefined;
+}
+
+/**
+ * Corporate structure (parent, group top, subsidiaries)
+ */
+function parseGroup(structure: any): CompanyGroup | undefined {
+  if (!structure) return undefined;
+
+  const group: CompanyGroup = {
+    parent_org_number: orgNumber(structure.parentCompanyOrganisationNumber),
+    parent_name: str(structure.parentCompanyName),
+    top_org_number: orgNumber(structure.topCompanyOrganisationNumber),
+    top_name: str(structure.topCompanyName),
+    subsidiaries_count: num(structure.numberOfSubsidiaries),
+    group_size: num(structure.numberOfCompanies),
+  };
+
+  return Object.values(group).some((v) => v !== undefined) ? group : undefined;
+}
+
+/**
+ * Role groups (board, management, auditors) -> people with normalized roles
+ * Companies holding a role (e.g. audit firms) are skipped
+ */
+function parseRoles(
+  roles: any,
+  org_number: string,
+  base_url: string,
+  scraped_at: string
+): PersonDetails[] {
+  const groups = Array.isArray(roles?.roleGroups) ? roles.roleGroups : [];
+  const members: PersonDetails[] = [];
+  const seen = new Set<string>();
+
+  for (const group of groups) {
+    for (const entry of Array.isArray(group?.roles) ? group.roles : []) {
+      if (entry?.type && entry.type !== 'Person') continue;
+
+      const name = str(entry?.name);
+      const role = normalizeRole(str(entry?.role)) || 'Övrig';
+      if (!name || seen.has(`${role}|${name}`)) continue;
+      seen.add(`${role}|${name}`);
+
+      members.push({
+        org_number,
+        name,
+        role,
+        age: ageFromBirthDate(str(entry.birthDate)),
+        address: {},
+        profile_url: entry.id ? `${base_url}/befattningshavare/${encodeURI(entry.id)}` : undefined,
+        scraped_at,
+      });
+    }
+  }
+
+  return members;
+}
+
+function ageFromBirthDate(birthDate: string | undefined): number | undefined {
+  const match = birthDate?.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (!match) return undefined;
+
+  const born = new Date(`${match[1]}-${match[2]}-${match[3]}`);
+  const now = new Date();
+  const age = now.getFullYear() - born.getFullYear();
+  const hadBirthday =
+    now.getMonth() > born.getMonth() || (now.getMonth() === born.getMonth() && now.getDate() >= born.getDate());
+  return hadBirthday ? age : age - 1;
+}
+
+function website(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return /^https?:\/\//i.test(value) ? value : `https://${value}`;
+}
+
+function orgNumber(value: unknown): string | undefined {
+  return extractOrgNumber(str(value)) || undefined;
+}
+
+function str(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  return cleanText(String(value)) || undefined;
+}
+
+function num(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = typeof value === 'number' ? value : Number(String(value).replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(n) ? n : undefined;
+}
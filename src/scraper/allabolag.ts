@@ -0,0 +1,114 @@
+/**
+ * Allabolag.se scraper
+ * Reads company pages (financials, board, group structure) for cross-checking merinfo data
+ */
+
+import { browserPool } from './browser.js';
+import { BlockedPageError, NoSuchCompanyError, DEFAULT_CONFIG } from '../types.js';
+import { logger, logScrapingOperation } from '../utils/logger.js';
+import { RateLimiter, withRetry } from '../utils/rate-limiter.js';
+import { normalizeOrgNumber } from '../utils/parsers.js';
+import { AllabolagCompanyPage, parseAllabolagCompanyPage } from './allabolag-parser.js';
+import { circuitBreakers } from './circuit-breaker.js';
+import { withPageSession } from './page-session.js';
+import { pageArchive } from '../cache/page-archive.js';
+
+export const ALLABOLAG_BASE_URL = 'https://www.allabolag.se';
+const PAGE_DELAY_MS = [1000, 2500]; // Random delay range
+const rateLimiter = new RateLimiter(
+  DEFAULT_CONFIG.rate_limit_scraping_rpm,
+  60_000 // 1 minute window
+);
+const circuit = circuitBreakers.get('allabolag');
+
+export class AllabolagScraper {
+  /**
+   * Scrape an allabolag company page by organization number
+   */
+  async scrapeCompany(org_number: string, include_board: boolean = true): Promise<AllabolagCompanyPage> {
+    const normalized_org = normalizeOrgNumber(org_number);
+    const startTime = Date.now();
+
+    try {
+      const result = await withRetry(
+        async () => {
+          circuit.check();
+          await rateLimiter.waitForSlot('allabolag_scraper');
+          try {
+            const page = await this.doScrape(normalized_org);
+            circuit.recordSuccess();
+            return page;
+          } catch (error) {
+            circuit.recordFailure(error instanceof BlockedPageError ? error.page_class : undefined);
+            throw error;
+          }
+        },
+        {
+          maxAttempts: 3,
+          retryableErrors: ['ScraperError', 'TimeoutError'],
+          onRetry: async (attempt, error) => {
+            logger.warn({ operation: 'scrape_allabolag', attempt, error: error.message }, 'Retrying scrape...');
+            if (attempt >= 2 && !(error instanceof BlockedPageError)) {
+              await browserPool.retireFailedContext(error);
+            }
+          },
+        }
+      );
+
+      logScrapingOperation('scrape_allabolag', normalized_org, false, Date.now() - startTime);
+
+      return include_board && DEFAULT_CONFIG.enable_person_details
+        ? result
+        : { ...result, board_members: [] };
+    } catch (error) {
+      logScrapingOperation('scrape_allabolag', normalized_org, false, Date.now() - startTime, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Internal scrape method
+   * allabolag.se/<orgnr> redirects to the company page
+   */
+  private async doScrape(org_number: string): Promise<AllabolagCompanyPage> {
+    return withPageSession('allabolag.se', { operation: 'scrape_allabolag', key: org_number }, async (session) => {
+      await this.randomDelay();
+
+      const url = `${ALLABOLAG_BASE_URL}/${org_number.replace('-', '')}`;
+      logger.debug({ url, mode: session.mode }, 'Scraping allabolag company page');
+
+      // The heading is server-rendered; without it the page is parsed as is
+      const loaded = await session.load(url, 'h1');
+      if (loaded.page_class === 'not_found') {
+        throw new NoSuchCompanyError(org_number);
+      }
+
+      const result = parseAllabolagCompanyPage(loaded.html, {
+        org_number,
+        url: loaded.url,
+        base_url: ALLABOLAG_BASE_URL,
+      });
+
+      if (!result.company.name) {
+        throw new NoSuchCompanyError(org_number);
+      }
+      pageArchive.save({ source: 'allabolag', kind: 'company', org_number, url: loaded.url, html: loaded.html });
+
+      return result;
+    });
+  }
+
+  /**
+   * Random delay between actions (stealth)
+   */
+  private async randomDelay(): Promise<void> {
+    const [min, max] = PAGE_DELAY_MS;
+    const delay = Math.random() * (max - min) + min;
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Global scraper instance
+ */
+export const allabolagScraper = new AllabolagScraper();
@@ -3,25 +3,84 @@
  * Based on merinfo_scraper browser handling + allabolag request patterns
  */
 
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { chromium, Browser, BrowserContext, Page, Route } from 'playwright';
 import { logger } from '../utils/logger.js';
-import { DEFAULT_CONFIG } from '../types.js';
+import {
+  BrowserPoolStats,
+  DEFAULT_CONFIG,
+  RequestBlockingRules,
+  RequestStats,
+  ScraperError,
+  SearchLimitError,
+} from '../types.js';
+import { RequestFilter, countRequest, emptyRequestStats, mergeRequestStats } from './request-filter.js';
+import { ProxyPool, proxyPool } from './proxy-pool.js';
+
+export const USER_AGENT =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/**
+ * Errors that mean the context (or its browser) is gone and cannot be reused
+ */
+const CRASH_PATTERN = /target (page, context or browser )?(has been |was )?closed|browser has been closed|page crashed/i;
+
+interface PooledContext {
+  context: BrowserContext;
+  proxy?: string;
+  leased: boolean;
+  broken: boolean;
+  last_used_at: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
 
 export class BrowserPool {
   private browser: Browser | null = null;
-  private contexts: BrowserContext[] = [];
-  private maxContexts = 3;
-  private contextAge: Map<BrowserContext, number> = new Map();
-  private maxContextAgeMs = 600_000; // 10 minutes
+  private launching: Promise<void> | null = null;
+  private contexts: Map<BrowserContext, PooledContext> = new Map();
+  private maxContextAgeMs = 600_000; // 10 minutes idle
+  private requestFilter: RequestFilter;
+  private pageStats: WeakMap<Page, RequestStats> = new WeakMap();
+  private navigationChains: WeakMap<Page, string[]> = new WeakMap();
+  private requestTotals: RequestStats = emptyRequestStats();
+  // Context each failed lease ran in, so a retry can retire just that one
+  private failedLeases: WeakMap<Error, BrowserContext> = new WeakMap();
+
+  // Lease slots: one per outstanding lease, including contexts still being created
+  private slotsInUse = 0;
+  private waiters: Waiter[] = [];
+  private leaseStats = { granted: 0, total_wait_ms: 0, max_wait_ms: 0, timeouts: 0, replaced: 0 };
 
-  constructor(private headless: boolean = DEFAULT_CONFIG.playwright_headless) {}
+  constructor(
+    private headless: boolean = DEFAULT_CONFIG.playwright_headless,
+    blocking: RequestBlockingRules = DEFAULT_CONFIG.request_blocking,
+    private proxies: ProxyPool = proxyPool,
+    private maxContexts: number = DEFAULT_CONFIG.browser_max_contexts,
+    private acquireTimeoutMs: number = DEFAULT_CONFIG.browser_acquire_timeout_ms
+  ) {
+    this.requestFilter = new RequestFilter(blocking);
+  }
 
   /**
    * Initialize browser
+   * Concurrent callers share one launch
    */
   async initialize(): Promise<void> {
     if (this.browser) return;
 
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  private async launch(): Promise<void> {
     logger.info('Initializing Playwright browser...');
 
     try {
@@ -37,9 +96,19 @@ export class BrowserPool {
         ],
         // In Docker, explicitly use system chromium
         executablePath: process.env.PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH || undefined,
+        // Contexts set their own proxy; Chromium needs a placeholder at launch on some platforms
+        proxy: this.proxies.size > 0 ? { server: 'http://per-context' } : undefined,
       });
 
-      logger.info('Browser initialized successfully');
+      const browser = this.browser;
+      browser.on('disconnected', () => {
+        if (this.browser !== browser) return;
+        logger.error('Browser disconnected; contexts will be replaced');
+        this.browser = null;
+        for (const entry of this.contexts.values()) entry.broken = true;
+      });
+
+      logger.info({ proxies: this.proxies.size }, 'Browser initialized successfully');
     } catch (error) {
       logger.error(
         {
@@ -55,39 +124,107 @@ export class BrowserPool {
   }
 
   /**
-   * Acquire a browser context
+   * Lease a browser context for exclusive use
+   * Waits (FIFO) while every context is leased; each lease must be returned exactly
+   * once with releaseContext.
    */
   async acquireContext(): Promise<BrowserContext> {
-    if (!this.browser) {
-      await this.initialize();
+    const requested_at = Date.now();
+    await this.takeSlot();
+
+    try {
+      if (!this.browser) {
+        await this.initialize();
+      }
+      await this.cleanupOldContexts();
+
+      // Reuse the most recently used idle context, else open a new one
+      const idle = [...this.contexts.values()]
+        .filter((e) => !e.leased && !e.broken)
+        .sort((a, b) => b.last_used_at - a.last_used_at)[0];
+      const entry = idle || (await this.createContext());
+      entry.leased = true;
+
+      const wait_ms = Date.now() - requested_at;
+      this.leaseStats.granted++;
+      this.leaseStats.total_wait_ms += wait_ms;
+      this.leaseStats.max_wait_ms = Math.max(this.leaseStats.max_wait_ms, wait_ms);
+      logger.debug({ wait_ms, reused: Boolean(idle), ...this.slotSummary() }, 'Browser context leased');
+
+      return entry.context;
+    } catch (error) {
+      this.freeSlot();
+      throw error;
     }
+  }
 
-    // Clean up old contexts
-    await this.cleanupOldContexts();
+  /**
+   * Lease a context and open a page in it
+   * The lease is returned at once if the page cannot be opened.
+   */
+  async acquirePage(): Promise<{ context: BrowserContext; page: Page }> {
+    const context = await this.acquireContext();
 
-    // Create new context if under limit
-    if (this.contexts.length < this.maxContexts) {
-      const context = await this.createContext();
-      this.contexts.push(context);
-      this.contextAge.set(context, Date.now());
-      return context;
+    try {
+      return { context, page: await this.createPage(context) };
+    } catch (error) {
+      await this.releaseContext(context, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a lease slot, waiting for one to be freed if the pool is full
+   */
+  private takeSlot(): Promise<void> {
+    if (this.slotsInUse < this.maxContexts) {
+      this.slotsInUse++;
+      return Promise.resolve();
     }
 
-    // Reuse oldest context
-    const oldestContext = this.contexts[0];
-    return oldestContext;
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          this.leaseStats.timeouts++;
+          reject(
+            new ScraperError(
+              `Timed out after ${Math.round(this.acquireTimeoutMs / 1000)}s waiting for a browser context`
+            )
+          );
+        }, this.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+      logger.debug({ waiting: this.waiters.length }, 'Browser pool full; waiting for a context');
+    });
+  }
+
+  /**
+   * Hand a freed slot to the next waiter, or return it to the pool
+   */
+  private freeSlot(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      clearTimeout(next.timer);
+      next.resolve();
+    } else {
+      this.slotsInUse = Math.max(0, this.slotsInUse - 1);
+    }
   }
 
   /**
    * Create a new browser context with stealth settings
    */
-  private async createContext(): Promise<BrowserContext> {
+  private async createContext(): Promise<PooledContext> {
     if (!this.browser) throw new Error('Browser not initialized');
 
+    const proxy = this.proxies.next();
     const context = await this.browser.newContext({
+      proxy: proxy ? { server: proxy.server, username: proxy.username, password: proxy.password } : undefined,
       viewport: { width: 1920, height: 1080 },
-      userAgent:
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      userAgent: USER_AGENT,
       locale: 'sv-SE',
       timezoneId: 'Europe/Stockholm',
       // Random features for stealth
@@ -101,8 +238,23 @@ export class BrowserPool {
       });
     });
 
-    logger.debug('Created new browser context');
-    return context;
+    const entry: PooledContext = {
+      context,
+      proxy: proxy?.id,
+      leased: false,
+      broken: false,
+      last_used_at: Date.now(),
+    };
+    this.contexts.set(context, entry);
+
+    // Closed or crashed underneath us: never lease it again
+    context.on('close', () => {
+      entry.broken = true;
+      if (!entry.leased) this.contexts.delete(context);
+    });
+
+    logger.debug({ proxy: proxy?.id }, 'Created new browser context');
+    return entry;
   }
 
   /**
@@ -114,36 +266,189 @@ export class BrowserPool {
     // Set default timeout
     page.setDefaultTimeout(DEFAULT_CONFIG.playwright_timeout);
 
+    await this.interceptRequests(page);
+    this.trackNavigation(page);
+
+    page.on('crash', () => {
+      logger.error({ url: page.url() }, 'Page crashed; its context will be replaced');
+      const entry = this.contexts.get(context);
+      if (entry) entry.broken = true;
+    });
+
     logger.debug('Created new page');
     return page;
   }
 
   /**
-   * Release a context (keep it for reuse)
+   * Record every main-frame navigation request, redirects included
    */
-  async releaseContext(context: BrowserContext): Promise<void> {
-    // Just update timestamp, keep context for reuse
-    this.contextAge.set(context, Date.now());
+  private trackNavigation(page: Page): void {
+    const chain: string[] = [];
+    this.navigationChains.set(page, chain);
+
+    page.on('request', (request) => {
+      if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+        chain.push(request.url());
+      }
+    });
   }
 
   /**
-   * Clean up contexts older than max age
+   * URLs the page navigated through, oldest first
    */
-  private async cleanupOldContexts(): Promise<void> {
-    const now = Date.now();
-    const contextsToRemove: BrowserContext[] = [];
+  getNavigationChain(page: Page): string[] {
+    return [...(this.navigationChains.get(page) || [])];
+  }
+
+  /**
+   * Abort blocked resource types and domains, counting allowed vs blocked per page
+   * Counters are logged and added to the pool totals when the page closes
+   */
+  private async interceptRequests(page: Page): Promise<void> {
+    const stats = emptyRequestStats();
+    this.pageStats.set(page, stats);
+
+    const { block_resource_types, block_domains } = this.requestFilter.rules;
+    if (block_resource_types.length > 0 || block_domains.length > 0) {
+      await page.route('**/*', (route: Route) => {
+        const request = route.request();
+        const decision = this.requestFilter.decide(request.url(), request.resourceType());
+        countRequest(stats, decision);
+
+        // The page may close while requests are in flight
+        const handled = decision.blocked ? route.abort('blockedbyclient') : route.continue();
+        return handled.catch(() => undefined);
+      });
+    } else {
+      page.on('request', () => stats.allowed++);
+    }
+
+    page.once('close', () => {
+      mergeRequestStats(this.requestTotals, stats);
+      logger.debug({ url: page.url(), requests: stats }, 'Page request summary');
+    });
+  }
+
+  /**
+   * Allowed vs blocked requests for one page so far
+   */
+  getRequestStats(page: Page): RequestStats {
+    return this.pageStats.get(page) || emptyRequestStats();
+  }
+
+  /**
+   * Allowed vs blocked requests across all closed pages, plus the active rules
+   */
+  getRequestTotals(): RequestStats & { rules: RequestBlockingRules } {
+    return { ...this.requestTotals, rules: this.requestFilter.rules };
+  }
+
+  /**
+   * Return a leased context, closing its pages
+   * Pass the error when the scrape failed: it is counted against the context's proxy.
+   * On the search-limit page the proxy is cooled down and the context is closed, so the
+   * retry gets a new context on another proxy; crashed contexts are replaced the same way.
+   */
+  async releaseContext(context: BrowserContext, error?: Error): Promise<void> {
+    const entry = this.contexts.get(context);
+    if (!entry || !entry.leased) {
+      logger.warn('Released a browser context that is not leased');
+      return;
+    }
+
+    entry.leased = false;
+    entry.last_used_at = Date.now();
 
-    for (const [context, age] of this.contextAge.entries()) {
-      if (now - age > this.maxContextAgeMs) {
-        contextsToRemove.push(context);
+    if (error) {
+      this.failedLeases.set(error, context);
+      if (error instanceof SearchLimitError || CRASH_PATTERN.test(error.message)) entry.broken = true;
+    }
+
+    if (entry.proxy) {
+      if (!error) {
+        this.proxies.reportSuccess(entry.proxy);
+      } else if (error instanceof SearchLimitError) {
+        this.proxies.reportSearchLimit(entry.proxy);
+      } else {
+        this.proxies.reportFailure(entry.proxy, error);
       }
     }
 
-    for (const context of contextsToRemove) {
+    if (entry.broken) {
+      this.leaseStats.replaced++;
+      await this.retireContext(context);
+    } else {
+      await Promise.all(context.pages().map((page) => page.close().catch(() => undefined)));
+    }
+
+    this.freeSlot();
+  }
+
+  /**
+   * Retire the context a failed scrape ran in, leaving other leases alone
+   * If it has been leased again since, it is closed when that lease is returned.
+   */
+  async retireFailedContext(error: Error): Promise<void> {
+    const context = this.failedLeases.get(error);
+    const entry = context && this.contexts.get(context);
+    if (!entry || entry.broken) return;
+
+    entry.broken = true;
+    if (entry.leased) return;
+
+    this.leaseStats.replaced++;
+    await this.retireContext(entry.context);
+    logger.debug({ proxy: entry.proxy }, 'Retired browser context after a failed attempt');
+  }
+
+  /**
+   * Lease counts and wait times for monitoring
+   */
+  getPoolStats(): BrowserPoolStats {
+    const entries = [...this.contexts.values()];
+    const leased = entries.filter((e) => e.leased).length;
+
+    return {
+      max_contexts: this.maxContexts,
+      open_contexts: entries.length,
+      leased,
+      idle: entries.length - leased,
+      waiting: this.waiters.length,
+      utilization: Math.round((leased / this.maxContexts) * 100) / 100,
+      leases_granted: this.leaseStats.granted,
+      avg_wait_ms: this.leaseStats.granted ? Math.round(this.leaseStats.total_wait_ms / this.leaseStats.granted) : 0,
+      max_wait_ms: this.leaseStats.max_wait_ms,
+      acquire_timeouts: this.leaseStats.timeouts,
+      contexts_replaced: this.leaseStats.replaced,
+    };
+  }
+
+  private slotSummary() {
+    return { slots_in_use: this.slotsInUse, max_contexts: this.maxContexts, waiting: this.waiters.length };
+  }
+
+  private async retireContext(context: BrowserContext): Promise<void> {
+    this.contexts.delete(context);
+
+    try {
       await context.close();
-      this.contexts = this.contexts.filter((c) => c !== context);
-      this.contextAge.delete(context);
-      logger.debug('Closed old browser context');
+    } catch (error) {
+      logger.error({ error }, 'Error closing context');
+    }
+  }
+
+  /**
+   * Close idle contexts unused for longer than the max age, and broken ones
+   */
+  private async cleanupOldContexts(): Promise<void> {
+    const now = Date.now();
+
+    for (const entry of [...this.contexts.values()]) {
+      if (entry.leased) continue;
+      if (entry.broken || now - entry.last_used_at > this.maxContextAgeMs) {
+        await this.retireContext(entry.context);
+        logger.debug({ broken: entry.broken }, 'Closed old browser context');
+      }
     }
   }
 
@@ -151,12 +456,12 @@ export class BrowserPool {
    * Restart browser (on errors or rate limits)
    */
   async restart(): Promise<void> {
+    // Nothing to restart (HTTP-only scraping, or not launched yet); the next lease launches it
+    if (!this.browser) return;
+
     logger.warn('Restarting browser...');
 
     await this.closeAll();
-    this.browser = null;
-    this.contexts = [];
-    this.contextAge.clear();
 
     // Wait before reinitializing
     await new Promise((resolve) => setTimeout(resolve, 5000));
@@ -168,9 +473,13 @@ export class BrowserPool {
    * Close all contexts and browser
    */
   async closeAll(): Promise<void> {
-    for (const context of this.contexts) {
+    for (const entry of [...this.contexts.values()]) {
+      // Leased contexts stay tracked (as broken) until their lease is returned
+      entry.broken = true;
+      if (!entry.leased) this.contexts.delete(entry.context);
+
       try {
-        await context.close();
+        await entry.context.close();
       } catch (error) {
         logger.error({ error }, 'Error closing context');
       }
@@ -186,8 +495,6 @@ export class BrowserPool {
     }
 
     this.browser = null;
-    this.contexts = [];
-    this.contextAge.clear();
   }
 
   /**
@@ -0,0 +1,178 @@
+/**
+ * Per-site circuit breaker for live scraping
+ * Opens after repeated block pages, rejects scrapes until the cooldown expires, then lets
+ * a single probe through (half-open). Each trip doubles the cooldown, up to a cap.
+ * State is persisted so a restart does not walk straight back into the block.
+ */
+
+import {
+  BLOCKING_PAGE_CLASSES,
+  CircuitBreakerState,
+  CircuitOpenError,
+  DEFAULT_CONFIG,
+  PageClass,
+} from '../types.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_COOLDOWN_MS = 4 * 60 * 60_000; // 4 hours
+
+export interface CircuitStateStore {
+  getCircuitState(name: string): CircuitBreakerState | null;
+  saveCircuitState(state: CircuitBreakerState): void;
+}
+
+export class CircuitBreaker {
+  private state: CircuitBreakerState;
+  private probeInFlight = false;
+  private store: CircuitStateStore | null = null;
+
+  constructor(
+    readonly name: string,
+    private options: { threshold: number; cooldown_ms: number } = {
+      threshold: DEFAULT_CONFIG.circuit_breaker_threshold,
+      cooldown_ms: DEFAULT_CONFIG.circuit_breaker_cooldown_minutes * 60_000,
+    }
+  ) {
+    this.state = {
+      name,
+      state: 'closed',
+      consecutive_blocks: 0,
+      trips: 0,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Load persisted state and save changes from now on
+   */
+  attach(store: CircuitStateStore): void {
+    this.store = store;
+
+    const saved = store.getCircuitState(this.name);
+    if (saved) {
+      this.state = saved;
+      if (saved.state !== 'closed') {
+        logger.warn({ circuit: this.name, retry_at: saved.retry_at }, 'Restored open circuit breaker');
+      }
+    }
+  }
+
+  /**
+   * Throw CircuitOpenError unless a live scrape may go ahead
+   */
+  check(): void {
+    if (this.state.state === 'closed') return;
+
+    const retry_after_ms = this.retryAfterMs();
+    if (retry_after_ms > 0) {
+      throw new CircuitOpenError(this.name, retry_after_ms, this.state.last_page_class);
+    }
+
+    // Cooldown over: one probe at a time decides whether to close again
+    if (this.probeInFlight) {
+      throw new CircuitOpenError(this.name, 5_000, 'probe in progress');
+    }
+    this.probeInFlight = true;
+    this.update({ state: 'half_open' });
+  }
+
+  recordSuccess(): void {
+    this.probeInFlight = false;
+    if (this.state.state === 'closed' && this.state.consecutive_blocks === 0) return;
+
+    if (this.state.state !== 'closed') {
+      logger.info({ circuit: this.name }, 'Circuit breaker closed');
+    }
+    this.update({ state: 'closed', consecutive_blocks: 0, trips: 0, opened_at: undefined, retry_at: undefined });
+  }
+
+  /**
+   * Record the outcome of a failed scrape; only block pages count
+   */
+  recordFailure(page_class?: PageClass): void {
+    const wasProbe = this.probeInFlight;
+    this.probeInFlight = false;
+
+    if (!page_class || !BLOCKING_PAGE_CLASSES.includes(page_class)) {
+      // A probe that failed for another reason leaves the circuit half-open for the next try
+      return;
+    }
+
+    const consecutive_blocks = this.state.consecutive_blocks + 1;
+    if (wasProbe || consecutive_blocks >= this.options.threshold) {
+      this.open(page_class, consecutive_blocks);
+    } else {
+      this.update({ consecutive_blocks, last_page_class: page_class });
+    }
+  }
+
+  getState(): CircuitBreakerState & { retry_after_ms: number } {
+    return { ...this.state, retry_after_ms: this.retryAfterMs() };
+  }
+
+  private open(page_class: PageClass, consecutive_blocks: number): void {
+    const trips = this.state.trips + 1;
+    const cooldown_ms = Math.min(this.options.cooldown_ms * 2 ** (trips - 1), MAX_COOLDOWN_MS);
+    const now = Date.now();
+
+    this.update({
+      state: 'open',
+      consecutive_blocks,
+      trips,
+      last_page_class: page_class,
+      opened_at: new Date(now).toISOString(),
+      retry_at: new Date(now + cooldown_ms).toISOString(),
+    });
+
+    logger.error({ circuit: this.name, page_class, trips, cooldown_ms }, 'Circuit breaker opened; pausing live scrapes');
+  }
+
+  private retryAfterMs(): number {
+    if (this.state.state === 'closed' || !this.state.retry_at) return 0;
+    return Math.max(0, new Date(this.state.retry_at).getTime() - Date.now());
+  }
+
+  private update(changes: Partial<CircuitBreakerState>): void {
+    this.state = { ...this.state, ...changes, updated_at: new Date().toISOString() };
+    this.store?.saveCircuitState(this.state);
+  }
+}
+
+/**
+ * Circuit breakers by site, created on first use
+ */
+export class CircuitBreakerRegistry {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private store: CircuitStateStore | null = null;
+
+  get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(name);
+      if (this.store) breaker.attach(this.store);
+      this.breakers.set(name, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * Persist breaker state in the given store (the cache database)
+   */
+  attach(store: CircuitStateStore): void {
+    this.store = store;
+    for (const breaker of this.breakers.values()) {
+      breaker.attach(store);
+    }
+  }
+
+  list() {
+    return [...this.breakers.values()].map((b) => b.getState());
+  }
+}
+
+/**
+ * Global circuit breaker registry
+ */
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -0,0 +1,209 @@
+/**
+ * Failure artifacts
+ * Saves a screenshot, the rendered HTML and the navigation URL chain when a scrape
+ * fails or comes back partial, one directory per capture under ARTIFACTS_DIR.
+ * Old captures are pruned by count and age.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Page } from 'playwright';
+import { BlockedPageError, DEFAULT_CONFIG, FailureArtifact } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+const META_FILE = 'meta.json';
+const HTML_FILE = 'page.html';
+const SCREENSHOT_FILE = 'screenshot.png';
+const ID_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z_/;
+
+/**
+ * Page content captured without a browser (plain HTTP fetches)
+ */
+export interface PageSnapshot {
+  html?: string;
+  url?: string;
+}
+
+export interface CaptureDetails {
+  kind: FailureArtifact['kind'];
+  operation: string;
+  key: string;
+  url_chain: string[];
+  error?: Error;
+  missing_fields?: string[];
+}
+
+export class FailureArtifactStore {
+  constructor(
+    private options: { enabled: boolean; dir: string; max_count: number; max_age_days: number } = {
+      enabled: DEFAULT_CONFIG.artifacts_enabled,
+      dir: DEFAULT_CONFIG.artifacts_dir,
+      max_count: DEFAULT_CONFIG.artifacts_max_count,
+      max_age_days: DEFAULT_CONFIG.artifacts_max_age_days,
+    }
+  ) {}
+
+  /**
+   * Snapshot the page; never throws, so a capture cannot mask the original error
+   * A browser page gets a screenshot; an HTTP snapshot only its HTML.
+   */
+  async capture(source: Page | PageSnapshot, details: CaptureDetails): Promise<FailureArtifact | null> {
+    if (!this.options.enabled) return null;
+
+    try {
+      const captured_at = new Date().toISOString();
+      const id = [
+        captured_at.replace(/[:.]/g, '-'),
+        details.operation,
+        details.key.replace(/[^a-zA-Z0-9-]+/g, '_').slice(0, 40),
+        Math.random().toString(36).slice(2, 6),
+      ].join('_');
+      const dir = path.join(this.options.dir, id);
+      await fs.promises.mkdir(dir, { recursive: true });
+
+      const files: FailureArtifact['files'] = { meta: path.join(dir, META_FILE) };
+
+      const isPage = 'screenshot' in source;
+      const live = isPage && !source.isClosed();
+
+      if (live || (!isPage && source.html)) {
+        try {
+          files.html = path.join(dir, HTML_FILE);
+          await fs.promises.writeFile(files.html, isPage ? await source.content() : source.html!);
+        } catch (error) {
+          files.html = undefined;
+          logger.debug({ error }, 'Could not save page HTML');
+        }
+      }
+
+      if (live) {
+        try {
+          files.screenshot = path.join(dir, SCREENSHOT_FILE);
+          await source.screenshot({ path: files.screenshot, fullPage: true, timeout: 10_000 });
+        } catch (error) {
+          files.screenshot = undefined;
+          logger.debug({ error }, 'Could not save screenshot');
+        }
+      }
+
+      const artifact: FailureArtifact = {
+        id,
+        kind: details.kind,
+        operation: details.operation,
+        key: details.key,
+        error: details.error?.message,
+        error_name: details.error?.name,
+        page_class: details.error instanceof BlockedPageError ? details.error.page_class : undefined,
+        missing_fields: details.missing_fields,
+        url: live ? source.url() : (!isPage && source.url) || details.url_chain[details.url_chain.length - 1],
+        url_chain: details.url_chain,
+        captured_at,
+        files,
+      };
+      await fs.promises.writeFile(files.meta, JSON.stringify(artifact, null, 2));
+
+      logger.info({ artifact: id, kind: details.kind, operation: details.operation }, 'Saved failure artifact');
+      await this.prune();
+
+      return artifact;
+    } catch (error) {
+      logger.error({ error }, 'Failed to save failure artifact');
+      return null;
+    }
+  }
+
+  /**
+   * Recent captures, newest first
+   */
+  async list(
+    params: { limit?: number; kind?: FailureArtifact['kind']; operation?: string } = {}
+  ): Promise<FailureArtifact[]> {
+    const artifacts: FailureArtifact[] = [];
+
+    for (const id of (await this.ids()).reverse()) {
+      if (params.limit && artifacts.length >= params.limit) break;
+
+      try {
+        const meta = JSON.parse(
+          await fs.promises.readFile(path.join(this.options.dir, id, META_FILE), 'utf-8')
+        ) as FailureArtifact;
+
+        if (params.kind && meta.kind !== params.kind) continue;
+        if (params.operation && meta.operation !== params.operation) continue;
+
+        artifacts.push({
+          ...meta,
+          files: {
+            meta: path.resolve(meta.files.meta),
+            html: meta.files.html && path.resolve(meta.files.html),
+            screenshot: meta.files.screenshot && path.resolve(meta.files.screenshot),
+          },
+        });
+      } catch {
+        // Incomplete capture; pruned eventually
+      }
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Remove captures by id
+   */
+  async erase(ids: string[]): Promise<number> {
+    const existing = new Set(await this.ids());
+    const erased = ids.filter((id) => existing.has(id));
+
+    for (const id of erased) {
+      await fs.promises.rm(path.join(this.options.dir, id), { recursive: true, force: true });
+    }
+    return erased.length;
+  }
+
+  /**
+   * Remove captures beyond the count limit or older than the age limit
+   */
+  async prune(): Promise<number> {
+    const ids = await this.ids();
+    const cutoff = Date.now() - this.options.max_age_days * 24 * 60 * 60 * 1000;
+    const excess = Math.max(0, ids.length - this.options.max_count);
+
+    const expired = ids.filter((id, i) => i < excess || capturedAt(id) < cutoff);
+    for (const id of expired) {
+      await fs.promises.rm(path.join(this.options.dir, id), { recursive: true, force: true });
+    }
+
+    if (expired.length > 0) {
+      logger.debug({ removed: expired.length }, 'Pruned failure artifacts');
+    }
+    return expired.length;
+  }
+
+  /**
+   * Capture directory names, oldest first (names start with the capture time)
+   */
+  private async ids(): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(this.options.dir, { withFileTypes: true });
+      return entries
+        .filter((e) => e.isDirectory() && ID_PATTERN.test(e.name))
+        .map((e) => e.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * Capture time from a directory name ("2026-10-19T18-40-56-692Z_...")
+ */
+function capturedAt(id: string): number {
+  const match = id.match(ID_PATTERN);
+  return match ? Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`) : 0;
+}
+
+/**
+ * Global failure artifact store
+ */
+export const failureArtifacts = new FailureArtifactStore();
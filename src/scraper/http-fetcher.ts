@@ -0,0 +1,151 @@
+/**
+ * Plain HTTP page fetching
+ * Browser-like headers, a cookie jar and manual redirects, so pages that render
+ * server-side can be scraped without Chromium. One fetcher per scrape keeps cookies
+ * from leaking between concurrent scrapes.
+ */
+
+import { DEFAULT_CONFIG, ScraperError } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { USER_AGENT } from './browser.js';
+
+const MAX_REDIRECTS = 5;
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'User-Agent': USER_AGENT,
+  Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'sv-SE,sv;q=0.9,en-US;q=0.8,en;q=0.7',
+  'Upgrade-Insecure-Requests': '1',
+};
+
+export interface HttpPage {
+  url: string;
+  status: number;
+  html: string;
+}
+
+interface Cookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: number;
+}
+
+export class HttpFetcher {
+  private cookies: Cookie[] = [];
+  private chain: string[] = [];
+  private referer: string | null = null;
+
+  constructor(private timeoutMs: number = DEFAULT_CONFIG.playwright_timeout) {}
+
+  /**
+   * GET a page, following redirects and storing cookies on the way
+   */
+  async get(url: string): Promise<HttpPage> {
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      this.chain.push(current);
+
+      let response: Response;
+      try {
+        response = await fetch(current, {
+          headers: this.headersFor(current),
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch (error) {
+        if ((error as Error).name === 'TimeoutError') throw error;
+        throw new ScraperError(`Request to ${current} failed: ${(error as Error).message}`);
+      }
+
+      this.storeCookies(current, response.headers.getSetCookie());
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        current = new URL(location, current).toString();
+        continue;
+      }
+
+      this.referer = current;
+      const html = await response.text();
+      logger.debug({ url: current, status: response.status, bytes: html.length }, 'Fetched page over HTTP');
+
+      return { url: current, status: response.status, html };
+    }
+
+    throw new ScraperError(`Too many redirects from ${url}`, false);
+  }
+
+  /**
+   * URLs requested so far, redirects included
+   */
+  getChain(): string[] {
+    return [...this.chain];
+  }
+
+  private headersFor(url: string): Record<string, string> {
+    const headers = { ...DEFAULT_HEADERS };
+    const { hostname, pathname } = new URL(url);
+    const now = Date.now();
+
+    this.cookies = this.cookies.filter((c) => !c.expires || c.expires > now);
+    const cookie = this.cookies
+      .filter((c) => domainMatches(hostname, c.domain) && pathname.startsWith(c.path))
+      .map((c) => `${c.name}=${c.value}`)
+      .join('; ');
+
+    if (cookie) headers.Cookie = cookie;
+    if (this.referer) headers.Referer = this.referer;
+    return headers;
+  }
+
+  private storeCookies(url: string, setCookies: string[]): void {
+    const { hostname } = new URL(url);
+
+    for (const header of setCookies) {
+      const [pair, ...attributes] = header.split(';').map((part) => part.trim());
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+
+      const cookie: Cookie = {
+        name: pair.slice(0, separator),
+        value: pair.slice(separator + 1),
+        domain: hostname,
+        path: '/',
+      };
+
+      for (const attribute of attributes) {
+        const [key, ...rest] = attribute.split('=');
+        const value = rest.join('=');
+        switch (key.toLowerCase()) {
+          case 'domain':
+            if (domainMatches(hostname, value.replace(/^\./, '').toLowerCase())) {
+              cookie.domain = value.replace(/^\./, '').toLowerCase();
+            }
+            break;
+          case 'path':
+            cookie.path = value || '/';
+            break;
+          case 'max-age':
+            cookie.expires = Date.now() + parseInt(value) * 1000;
+            break;
+          case 'expires':
+            cookie.expires ??= Date.parse(value) || undefined;
+            break;
+        }
+      }
+
+      this.cookies = this.cookies.filter(
+        (c) => !(c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path)
+      );
+      this.cookies.push(cookie);
+    }
+  }
+}
+
+function domainMatches(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
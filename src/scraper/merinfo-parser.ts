@@ -0,0 +1,765 @@
+/**
+ * Merinfo.se page parser
+ * Pure HTML -> data extraction, shared by the live scraper and offline tooling
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import {
+  CompanyData,
+  CompanyRemark,
+  PersonDetails,
+  BoardRole,
+  CompanySearchCandidate,
+  PersonEngagement,
+  PersonProfile,
+  FinancialData,
+  FinancialYear,
+  ExtractionReport,
+  FieldProvenance,
+  FieldResolution,
+} from '../types.js';
+import {
+  cleanText,
+  extractOrgNumber,
+  normalizeRole,
+  parseAddress,
+  parseApartment,
+  parseBoolean,
+  parseThousands,
+  parseAge,
+  parseRemark,
+  parseAmount,
+  parseEmployees,
+  parseSizeClass,
+  deriveSizeClass,
+} from '../utils/parsers.js';
+import { classifyPage } from './page-classifier.js';
+import {
+  COMPANY_SELECTORS,
+  PERSON_SELECTORS,
+  SELECTOR_REGISTRY_VERSION,
+  SEARCH_CARD_SELECTOR,
+  SEARCH_CARD_WARNING_TEXT,
+  REQUIRED_COMPANY_FIELDS,
+  CompanyField,
+  SelectorRule,
+  PageType,
+  describeRule,
+} from './selectors.js';
+import { getPath, isEmpty } from '../providers/merge.js';
+
+/**
+ * Parse a merinfo company page into CompanyData
+ */
+export function parseCompanyPage(
+  html: string,
+  meta: { org_number: string; url: string; scraped_at?: string }
+): CompanyData {
+  return parseCompanyPageWithReport(html, meta).company;
+}
+
+/**
+ * Parse a company page and report which fields resolved, and through which selector
+ */
+export function parseCompanyPageWithReport(
+  html: string,
+  meta: { org_number: string; url: string; scraped_at?: string }
+): { company: CompanyData; report: ExtractionReport } {
+  const $ = cheerio.load(html);
+  const fields = new FieldExtractor($, COMPANY_SELECTORS);
+
+  const company: CompanyData = {
+    org_number: meta.org_number,
+    name: '',
+    contact: {},
+    tax_info: {
+      f_skatt: false,
+      vat_registered: false,
+      employer_registered: false,
+    },
+    industry: {},
+    has_remarks: false,
+    source_url: meta.url,
+    scraped_at: meta.scraped_at || new Date().toISOString(),
+  };
+
+  // Company name
+  company.name = fields.text('name') || '';
+
+  // Legal form, status, registration date (from table)
+  company.legal_form = fields.text('legal_form') || undefined;
+  company.status = fields.text('status') || undefined;
+  company.registration_date = fields.text('registration_date') || undefined;
+
+  // Remarks; the all-clear text only confirms has_remarks stays false
+  const remarksText = fields.text('remarks');
+  fields.text('remarks_clear');
+  if (remarksText) {
+    company.has_remarks = true;
+    company.remarks = remarksText;
+  }
+
+  // Structured remarks
+  const remarkDetails = $('.mi-text-red, .mi-text-orange')
+    .map((_, el) => parseRemark($(el).text(), 'company_page'))
+    .get()
+    .filter((remark, i, all) => all.findIndex((r) => r.text === remark.text) === i);
+  if (remarkDetails.length > 0) {
+    company.remark_details = remarkDetails;
+  }
+
+  // Contact info
+  company.contact.phone = fields.text('phone') || undefined;
+
+  const addressText = fields.text('address');
+  if (addressText) {
+    const cleanAddress = addressText.replace(company.name, '').trim();
+    company.contact.address = cleanAddress;
+
+    const parsed = parseAddress(cleanAddress);
+    company.contact.postal_code = parsed.postal_code;
+    company.contact.city = parsed.city;
+  }
+
+  company.contact.email = fields.text('email')?.replace('mailto:', '').trim() || undefined;
+  company.contact.website = parseWebsite(fields.text('website'));
+
+  company.contact.municipality = fields.text('municipality') || undefined;
+  company.contact.county = fields.text('county') || undefined;
+
+  // Tax info
+  company.tax_info.f_skatt = parseBoolean(fields.text('f_skatt'));
+  company.tax_info.vat_registered = parseBoolean(fields.text('vat_registered'));
+  company.tax_info.employer_registered = parseBoolean(fields.text('employer_registered'));
+
+  // Registration and size details
+  company.bankgiro_number = fields.text('bankgiro_number') || undefined;
+  company.share_capital = parseAmount(fields.text('share_capital')) ?? undefined;
+
+  const employees = parseEmployees(fields.text('employees'));
+  company.employees = employees.count;
+  company.employees_range = employees.range;
+
+  // Financial data
+  const financialPeriod = fields.text('financial_period');
+  if (financialPeriod) {
+    const period = financialPeriod.replace('Nyckeltal ', '').trim();
+    company.financials = {
+      fiscal_year: parseFiscalYear(period) || undefined,
+      period,
+      currency: 'SEK',
+      revenue: parseThousands(fields.text('revenue')) || undefined,
+      profit_after_financial: parseThousands(fields.text('profit_after_financial')) || undefined,
+      net_profit: parseThousands(fields.text('net_profit')) || undefined,
+      total_assets: parseThousands(fields.text('total_assets')) || undefined,
+    };
+  }
+
+  // Financial history (every year shown), including the snapshot year
+  const history = parseFinancialHistory($);
+  const snapshot = company.financials;
+  if (snapshot?.fiscal_year && !history.some((y) => y.fiscal_year === snapshot.fiscal_year)) {
+    history.push({ ...snapshot, fiscal_year: snapshot.fiscal_year });
+  }
+  if (history.length > 0) {
+    company.financial_history = history.sort((a, b) => a.fiscal_year - b.fiscal_year);
+  }
+
+  // Size class as shown on the page, else derived from the latest figures
+  company.size_class =
+    parseSizeClass(fields.text('size_class')) ||
+    deriveSizeClass(company.employees, company.financials?.revenue, company.financials?.total_assets) ||
+    undefined;
+
+  // Industry info
+  const sniText = fields.text('sni');
+  if (sniText) {
+    const parts = sniText.split(' - ', 2);
+    if (parts.length === 2) {
+      company.industry.sni_code = parts[0].trim();
+      company.industry.sni_description = parts[1].trim();
+    } else {
+      company.industry.sni_description = sniText;
+    }
+  }
+
+  // Categories
+  company.industry.categories = fields.all('categories');
+
+  // Activity description
+  company.industry.activity_description = fields.text('activity_description') || undefined;
+
+  const report = fields.report('company', meta.url);
+  company.field_provenance = companyProvenance(company, report, company.scraped_at);
+
+  return { company, report };
+}
+
+/**
+ * Parse a merinfo person page into PersonDetails
+ */
+export function parsePersonPage(
+  html: string,
+  meta: { org_number: string; role: string; url: string; scraped_at?: string }
+): PersonDetails {
+  return parsePersonPageWithReport(html, meta).person;
+}
+
+/**
+ * Parse a person page and report which fields resolved
+ */
+export function parsePersonPageWithReport(
+  html: string,
+  meta: { org_number: string; role: string; url: string; scraped_at?: string }
+): { person: PersonDetails; report: ExtractionReport } {
+  const $ = cheerio.load(html);
+  const fields = new FieldExtractor($, PERSON_SELECTORS);
+
+  const person: PersonDetails = {
+    org_number: meta.org_number,
+    name: fields.text('name') || '',
+    role: meta.role,
+    address: {},
+    profile_url: meta.url,
+    scraped_at: meta.scraped_at || new Date().toISOString(),
+  };
+
+  // Age
+  const ageText = fields.text('age');
+  if (ageText) {
+    person.age = parseAge(ageText) || undefined;
+  }
+
+  // Phone
+  person.phone = fields.text('phone') || undefined;
+
+  // Address
+  const addressText = fields.text('address');
+  if (addressText) {
+    const apartment = parseApartment(addressText);
+    const cleanAddress = addressText.replace(apartment || '', '');
+    const parsed = parseAddress(cleanAddress);
+
+    person.address = {
+      street: parsed.street,
+      apartment: apartment || undefined,
+      postal_code: parsed.postal_code,
+      city: parsed.city,
+    };
+  }
+
+  return { person, report: fields.report('person', meta.url) };
+}
+
+/**
+ * Parse a person's engagement list (current and past roles in companies)
+ */
+export function parsePersonEngagements(
+  html: string,
+  meta: { url: string; base_url: string; scraped_at?: string }
+): PersonProfile {
+  const $ = cheerio.load(html);
+
+  const fields = new FieldExtractor($, PERSON_SELECTORS);
+
+  const profile: PersonProfile = {
+    name: fields.text('name') || '',
+    age: parseAge(fields.text('age')) || undefined,
+    profile_url: meta.url,
+    engagements: [],
+    scraped_at: meta.scraped_at || new Date().toISOString(),
+  };
+
+  const seen = new Set<string>();
+  let inPastSection = false;
+
+  // Headings and rows in document order, so rows inherit the section they are in
+  $('h2, h3, h4, tr, li').each((_, el) => {
+    if (/^h\d$/i.test(el.tagName)) {
+      inPastSection = /tidigare|historisk|avslutade/i.test($(el).text());
+      return;
+    }
+
+    const row = $(el);
+    // Skip wrappers around nested rows; the innermost row is handled on its own
+    if (row.find('tr, li').find('a[href*="/foretag/"]').length > 0) return;
+
+    const link = row.find('a[href*="/foretag/"]').first();
+    const href = link.attr('href');
+    const company_name = cleanText(link.text());
+    if (!href || !company_name) return;
+
+    const rowText = cleanText(row.text()) || '';
+    const org_number = extractOrgNumber(rowText);
+    if (!org_number) return;
+
+    // Role comes from the cells around the company link, never the company name itself
+    const cellTexts = row
+      .children('td, th, span, div, p')
+      .filter((_, cell) => $(cell).find('a[href*="/foretag/"]').length === 0)
+      .map((_, cell) => cleanText($(cell).text()))
+      .get();
+    const role =
+      cellTexts.map((text) => normalizeRole(text)).find((r) => r !== null) ||
+      normalizeRole(rowText.replace(company_name, '')) ||
+      'Övrig';
+
+    const dates = rowText.match(/\d{4}-\d{2}-\d{2}/g) || [];
+    const current = !inPastSection && !/avgått|avgick|tidigare/i.test(rowText);
+
+    const key = `${org_number}|${role}|${current}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    profile.engagements.push({
+      org_number,
+      company_name,
+      role,
+      current,
+      from_date: dates[0],
+      to_date: current ? undefined : dates[1],
+      company_url: href.startsWith('http') ? href : `${meta.base_url}${href}`,
+    });
+  });
+
+  return profile;
+}
+
+/**
+ * One person link in the company page's role table
+ */
+export interface BoardRosterEntry {
+  role: BoardRole;
+  name: string;
+  profile_url: string;
+}
+
+/**
+ * Parse every role row (VD, ordförande, ledamöter, suppleanter, revisorer, ...)
+ * in the company page's Befattningshavare table. A person holding several roles appears once per role.
+ */
+export function parseBoardRoster(html: string, base_url: string): BoardRosterEntry[] {
+  const $ = cheerio.load(html);
+  const roster: BoardRosterEntry[] = [];
+  const seen = new Set<string>();
+
+  // Only the roster table; other tables (neighbours, similar names) also link to people
+  const table = findByText($, 'h2, h3, h4', 'Befattningshavare').first().nextAll('table').first();
+
+  table.find('tr').each((_, row) => {
+    const cells = $(row).children('td, th');
+    const label = cleanText(cells.first().text());
+    if (!label) return;
+    // Unknown labels are kept as 'Övrig' rather than dropping the person
+    const role = normalizeRole(label) || 'Övrig';
+
+    cells
+      .slice(1)
+      .find('a[href*="/person/"]')
+      .each((_, link) => {
+        const href = $(link).attr('href');
+        const name = cleanText($(link).text());
+        if (!href || !name) return;
+
+        const profile_url = href.startsWith('http') ? href : `${base_url}${href}`;
+        const key = `${role}|${profile_url}`;
+        if (seen.has(key)) return;
+
+        seen.add(key);
+        roster.push({ role, name, profile_url });
+      });
+  });
+
+  return roster;
+}
+
+/**
+ * Company statuses shown on merinfo search cards
+ */
+const SEARCH_CARD_STATUSES = [
+  'Aktiv',
+  'Avregistrerad',
+  'Avförd',
+  'Konkurs',
+  'Likvidation',
+  'Vilande',
+  'Fusion',
+  'Upplöst',
+];
+
+/**
+ * Parse company cards on a merinfo search results page
+ */
+export function parseSearchResults(html: string, base_url: string): CompanySearchCandidate[] {
+  const $ = cheerio.load(html);
+  const candidates: CompanySearchCandidate[] = [];
+  const seen = new Set<string>();
+
+  $(SEARCH_CARD_SELECTOR).each((_, card) => {
+    const link = $(card).find('a[href*="/foretag/"]').first();
+    const href = link.attr('href');
+    const name = cleanText(link.text());
+    if (!href || !name) return;
+
+    const orgText = $(card)
+      .find('p')
+      .filter((_, el) => /^\d{6}-?\d{4}$/.test($(el).text().trim()))
+      .first()
+      .text();
+    const org_number = extractOrgNumber(orgText) || extractOrgNumber($(card).text());
+    if (!org_number || seen.has(org_number)) return;
+    seen.add(org_number);
+
+    const cardText = cleanText($(card).text()) || '';
+    const addressText = $(card)
+      .find('address, p')
+      .map((_, el) => cleanText($(el).text()))
+      .get()
+      .find((text) => /\d{3}\s?\d{2}\s+\S/.test(text));
+    const city = parseAddress(addressText).city;
+
+    candidates.push({
+      org_number,
+      name,
+      city: city || undefined,
+      status: SEARCH_CARD_STATUSES.find((status) => cardText.includes(status)),
+      has_remarks:
+        $(card)
+          .find('span.mi-text-red')
+          .filter((_, el) => $(el).text().includes(SEARCH_CARD_WARNING_TEXT)).length > 0,
+      url: href.startsWith('http') ? href : `${base_url}${href}`,
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * Find the search card for an organization number: company URL plus its warning remark
+ */
+export function parseSearchCard(
+  html: string,
+  org_number: string,
+  base_url: string
+): { url: string; remark?: CompanyRemark } | null {
+  const $ = cheerio.load(html);
+
+  const card = $(SEARCH_CARD_SELECTOR)
+    .filter((_, el) => $(el).find('p').filter((_, p) => cleanText($(p).text()) === org_number).length > 0)
+    .first();
+  if (card.length === 0) return null;
+
+  const href = card.find('a[href*="/foretag/"]').first().attr('href');
+  if (!href) return null;
+
+  const warning = card
+    .find('span.mi-text-red')
+    .filter((_, el) => $(el).text().includes(SEARCH_CARD_WARNING_TEXT))
+    .first();
+  const remark = warning.length > 0 ? parseRemark(warning.text(), 'search_card') : null;
+
+  return {
+    url: href.startsWith('http') ? href : `${base_url}${href}`,
+    remark: remark || undefined,
+  };
+}
+
+/**
+ * Check if the page is merinfo's search limit page
+ */
+export function isSearchLimitPage(html: string): boolean {
+  return classifyPage(html).page_class === 'search_limit';
+}
+
+/**
+ * Row labels in merinfo's multi-year financial tables
+ */
+const FINANCIAL_ROWS: Array<{
+  label: string;
+  field: keyof Pick<FinancialData, 'revenue' | 'profit_after_financial' | 'net_profit' | 'total_assets'>;
+}> = [
+  { label: 'Omsättning', field: 'revenue' },
+  { label: 'Res. e. fin', field: 'profit_after_financial' },
+  { label: 'Resultat efter finansnetto', field: 'profit_after_financial' },
+  { label: 'Årets resultat', field: 'net_profit' },
+  { label: 'Summa tillgångar', field: 'total_assets' },
+];
+
+/**
+ * Parse year-column tables ("2023-12 | 2022-12 | ...") into one entry per fiscal year
+ */
+function parseFinancialHistory($: CheerioAPI): FinancialYear[] {
+  const years = new Map<number, FinancialYear>();
+
+  $('table').each((_, table) => {
+    const headerCells = $(table).find('tr').first().children('th, td');
+    const columns = headerCells
+      .map((index, cell) => {
+        const period = cleanText($(cell).text()) || '';
+        const fiscal_year = /^(19|20)\d{2}(-\d{2})?$/.test(period) ? parseFiscalYear(period) : null;
+        return fiscal_year ? { index, period, fiscal_year } : null;
+      })
+      .get();
+
+    if (columns.length === 0) return;
+
+    $(table)
+      .find('tr')
+      .slice(1)
+      .each((_, row) => {
+        const cells = $(row).children('th, td');
+        const label = cleanText(cells.first().text()) || '';
+        const match = FINANCIAL_ROWS.find((r) => label.startsWith(r.label));
+        if (!match) return;
+
+        for (const column of columns) {
+          const value = parseThousands(cells.eq(column.index).text());
+          if (value === null) continue;
+
+          const year = years.get(column.fiscal_year) || {
+            fiscal_year: column.fiscal_year,
+            period: column.period,
+            currency: 'SEK',
+          };
+          year[match.field] ??= value;
+          years.set(column.fiscal_year, year);
+        }
+      });
+  });
+
+  return [...years.values()];
+}
+
+/**
+ * Extract fiscal year from a period label ("2023", "2023-12", "2022/2023")
+ */
+function parseFiscalYear(period: string): number | null {
+  const years = period.match(/(19|20)\d{2}/g);
+  return years ? parseInt(years[years.length - 1]) : null;
+}
+
+/**
+ * Company fields filled from each registry field, as merge field paths
+ */
+const COMPANY_FIELD_PATHS: Record<CompanyField, string[]> = {
+  name: ['name'],
+  legal_form: ['legal_form'],
+  status: ['status'],
+  registration_date: ['registration_date'],
+  remarks: ['has_remarks', 'remarks'],
+  remarks_clear: [],
+  phone: ['contact.phone'],
+  email: ['contact.email'],
+  website: ['contact.website'],
+  address: ['contact.address', 'contact.postal_code', 'contact.city'],
+  municipality: ['contact.municipality'],
+  county: ['contact.county'],
+  f_skatt: ['tax_info.f_skatt'],
+  vat_registered: ['tax_info.vat_registered'],
+  employer_registered: ['tax_info.employer_registered'],
+  bankgiro_number: ['bankgiro_number'],
+  share_capital: ['share_capital'],
+  employees: ['employees', 'employees_range'],
+  size_class: ['size_class'],
+  financial_period: ['financials', 'financial_history'],
+  revenue: [],
+  profit_after_financial: [],
+  net_profit: [],
+  total_assets: [],
+  sni: ['industry.sni_code', 'industry.sni_description'],
+  categories: ['industry.categories'],
+  activity_description: ['industry.activity_description'],
+};
+
+/**
+ * Provenance of every company field the page could fill
+ * A field whose text was found but not parsed, whose label is on the page without a
+ * value, or that every company page has, counts as a failed extraction.
+ */
+function companyProvenance(
+  company: CompanyData,
+  report: ExtractionReport,
+  extracted_at: string
+): Record<string, FieldProvenance> {
+  const provenance: Record<string, FieldProvenance> = {};
+
+  for (const [field, paths] of Object.entries(COMPANY_FIELD_PATHS) as [CompanyField, string[]][]) {
+    const resolution: FieldResolution = report.fields[field] || { resolved: false };
+    const required = REQUIRED_COMPANY_FIELDS.includes(field);
+    const base = { source: 'merinfo', extracted_at, rule: resolution.selector };
+    const filled = paths.some((path) => !isEmpty(getPath(company, path)));
+
+    for (const path of paths) {
+      const value = getPath(company, path);
+
+      if (resolution.resolved) {
+        provenance[path] = !isEmpty(value)
+          ? { ...base, status: 'found', confidence: resolution.fallback ? 'medium' : 'high' }
+          : filled
+            ? { ...base, status: 'absent', confidence: 'medium' }
+            : { ...base, status: 'failed', confidence: 'low' };
+      } else if (!isEmpty(value) && typeof value !== 'boolean') {
+        // Derived from other fields (size class from figures, history from the yearly table)
+        provenance[path] = { ...base, rule: 'derived', status: 'found', confidence: 'medium' };
+      } else {
+        provenance[path] =
+          resolution.anchor_found || required
+            ? { ...base, status: 'failed', confidence: 'low' }
+            : { ...base, status: 'absent', confidence: 'medium' };
+      }
+    }
+  }
+
+  // The all-clear text is a reading of has_remarks, not a missing warning
+  const clear = report.fields.remarks_clear;
+  if (!company.has_remarks && clear?.resolved) {
+    provenance.has_remarks = {
+      source: 'merinfo',
+      extracted_at,
+      rule: clear.selector,
+      status: 'found',
+      confidence: clear.fallback ? 'medium' : 'high',
+    };
+  }
+
+  // Remark details are read from the warning colors, not the registry
+  provenance.remark_details = company.remark_details?.length
+    ? {
+        source: 'merinfo',
+        extracted_at,
+        rule: 'css:.mi-text-red, .mi-text-orange',
+        status: 'found',
+        confidence: 'high',
+      }
+    : { source: 'merinfo', extracted_at, status: 'absent', confidence: 'medium' };
+
+  return provenance;
+}
+
+/**
+ * Normalize a website cell to an absolute URL
+ */
+function parseWebsite(text: string | null): string | undefined {
+  if (!text || !/[a-z0-9-]+\.[a-z]{2,}/i.test(text)) return undefined;
+  return text.startsWith('http') ? text : `https://${text}`;
+}
+
+/**
+ * Resolves registry fields against a loaded page, recording which rule matched
+ */
+class FieldExtractor<F extends string> {
+  private resolutions: Record<string, FieldResolution> = {};
+
+  constructor(
+    private $: CheerioAPI,
+    private registry: Record<F, readonly SelectorRule[]>
+  ) {}
+
+  /**
+   * Text of the first rule that yields a non-empty value
+   */
+  text(field: F): string | null {
+    const rules = this.registry[field];
+
+    for (const [index, rule] of rules.entries()) {
+      const element = this.locate(rule).first();
+      const value =
+        'attr' in rule && rule.attr ? cleanText(element.attr(rule.attr)) : cleanText(element.text());
+
+      if (value) {
+        this.record(field, rule, index);
+        return value;
+      }
+    }
+
+    this.unresolved(field);
+    return null;
+  }
+
+  /**
+   * Text of every element matched by the first rule that yields values
+   */
+  all(field: F): string[] {
+    const rules = this.registry[field];
+
+    for (const [index, rule] of rules.entries()) {
+      const values = this.locate(rule)
+        .map((_, el) => this.$(el).text().trim())
+        .get()
+        .filter((v) => v);
+
+      if (values.length > 0) {
+        this.record(field, rule, index);
+        return values;
+      }
+    }
+
+    this.unresolved(field);
+    return [];
+  }
+
+  /**
+   * Summary of every field looked up so far
+   */
+  report(page_type: PageType, url: string): ExtractionReport {
+    return {
+      page_type,
+      registry_version: SELECTOR_REGISTRY_VERSION,
+      url,
+      fields: { ...this.resolutions },
+    };
+  }
+
+  private record(field: F, rule: SelectorRule, index: number): void {
+    this.resolutions[field] = { resolved: true, selector: describeRule(rule), fallback: index > 0 };
+  }
+
+  /**
+   * No rule yielded a value; note whether the field's label or container is on the page
+   */
+  private unresolved(field: F): void {
+    const anchor_found = this.registry[field].some((rule) => this.anchor(rule).length > 0);
+    this.resolutions[field] = { resolved: false, anchor_found };
+  }
+
+  private locate(rule: SelectorRule) {
+    const $ = this.$;
+
+    if ('css' in rule) {
+      return $(rule.css);
+    }
+
+    if ('th' in rule) {
+      return this.anchor(rule).first().nextAll('td').first();
+    }
+
+    if ('label' in rule) {
+      return this.anchor(rule).first().nextAll('span').first();
+    }
+
+    let element = this.anchor(rule).first();
+    if (rule.next) element = element.next(rule.next);
+    if (rule.find) element = element.find(rule.find);
+    return element;
+  }
+
+  /**
+   * The element a rule starts from: the match itself, or its header, label or heading
+   */
+  private anchor(rule: SelectorRule) {
+    const $ = this.$;
+
+    if ('css' in rule) return $(rule.css);
+    if ('th' in rule) return findByText($, 'th', rule.th);
+    if ('label' in rule) return findByText($, 'span', rule.label);
+    return findByText($, 'h2, h3, h4', rule.heading);
+  }
+}
+
+/**
+ * Find elements whose text content contains the given string
+ */
+function findByText($: CheerioAPI, selector: string, text: string) {
+  return $(selector).filter((_, el) => $(el).text().includes(text));
+}
@@ -3,21 +3,42 @@
  * Combines patterns from merinfo_scraper.py and allabolag request handling
  */
 
-import { Page } from 'playwright';
 import { browserPool } from './browser.js';
-import { CompanyData, PersonDetails, NoSuchCompanyError, ScraperError, DEFAULT_CONFIG } from '../types.js';
+import {
+  CompanyData,
+  CompanyRemark,
+  CompanySearchCandidate,
+  PersonDetails,
+  PersonProfile,
+  ExtractionReport,
+  ScrapeResult,
+  NoSuchCompanyError,
+  BlockedPageError,
+  NeedsJavaScriptError,
+  ScraperError,
+  DEFAULT_CONFIG,
+} from '../types.js';
 import { logger, logScrapingOperation } from '../utils/logger.js';
 import { RateLimiter, withRetry } from '../utils/rate-limiter.js';
 import {
-  cleanText,
-  parseValue,
-  parseAddress,
-  parseApartment,
-  parseBoolean,
-  parseThousands,
-  parseAge,
-  normalizeOrgNumber,
-} from '../utils/parsers.js';
+  parseCompanyPageWithReport,
+  parsePersonPageWithReport,
+  parseBoardRoster,
+  parseSearchCard,
+  parseSearchResults,
+  parsePersonEngagements,
+} from './merinfo-parser.js';
+import { circuitBreakers } from './circuit-breaker.js';
+import { proxyPool } from './proxy-pool.js';
+import { PageSession, withPageSession } from './page-session.js';
+import { pageArchive } from '../cache/page-archive.js';
+import {
+  PAGE_READY_SELECTOR,
+  REQUIRED_COMPANY_FIELDS,
+  SEARCH_CARD_SELECTOR,
+  SEARCH_CARD_WARNING_TEXT,
+} from './selectors.js';
+import { normalizeOrgNumber } from '../utils/parsers.js';
 
 const BASE_URL = 'https://www.merinfo.se';
 const SEARCH_DELAY_MS = [1000, 2500]; // Random delay range
@@ -25,6 +46,7 @@ const rateLimiter = new RateLimiter(
   DEFAULT_CONFIG.rate_limit_scraping_rpm,
   60_000 // 1 minute window
 );
+const circuit = circuitBreakers.get('merinfo');
 
 /**
  * Main scraper class
@@ -36,279 +58,305 @@ export class MerinfoScraper {
   async scrapeCompany(
     org_number: string,
     include_board: boolean = true
-  ): Promise<{ company: CompanyData; board_members: PersonDetails[] }> {
-    const startTime = Date.now();
+  ): Promise<ScrapeResult> {
     const normalized_org = normalizeOrgNumber(org_number);
 
-    try {
+    return this.runWithRetry('scrape_company', normalized_org, async () => {
       // Rate limiting
       await rateLimiter.waitForSlot('merinfo_scraper');
+      return this.doScrape(normalized_org, include_board);
+    });
+  }
 
-      // Scrape with retry logic
-      const result = await withRetry(
-        async () => this.doScrape(normalized_org, include_board),
-        {
-          maxAttempts: 3,
-          retryableErrors: ['ScraperError', 'TimeoutError'],
-          onRetry: async (attempt, error) => {
-            logger.warn({ attempt, error: error.message }, 'Retrying scrape...');
-            if (attempt >= 2) {
-              await browserPool.restart();
-            }
-          },
-        }
-      );
+  /**
+   * Live search on merinfo.se by free-text company name
+   * Returns candidates for disambiguation; no company pages are visited
+   */
+  async searchCompaniesByName(
+    query: string,
+    limit: number = 20,
+    max_pages: number = 3
+  ): Promise<CompanySearchCandidate[]> {
+    return this.runWithRetry('search_company_by_name', query, () =>
+      this.doSearchByName(query, limit, max_pages)
+    );
+  }
+
+  /**
+   * Scrape a person profile's engagement list (all companies and roles)
+   */
+  async scrapePersonEngagements(profile_url: string): Promise<PersonProfile> {
+    return this.runWithRetry('scrape_person_engagements', profile_url, async () => {
+      await rateLimiter.waitForSlot('merinfo_scraper');
+      return this.doScrapeEngagements(profile_url);
+    });
+  }
+
+  /**
+   * Run a scrape operation with retry, context replacement and operation logging
+   * Every attempt passes the circuit breaker; block pages are only retried when
+   * another proxy can take over. Later retries first retire the context the
+   * failed attempt ran in.
+   */
+  private async runWithRetry<T>(operation: string, key: string, fn: () => Promise<T>): Promise<T> {
+    const startTime = Date.now();
+    // Only browser contexts draw from the proxy pool; over HTTP a retry hits the same limit
+    const rotatesProxy = DEFAULT_CONFIG.scrape_fetch_mode === 'browser' && proxyPool.size > 1;
+
+    const attempt = async () => {
+      circuit.check();
+      try {
+        const result = await fn();
+        circuit.recordSuccess();
+        return result;
+      } catch (error) {
+        circuit.recordFailure(error instanceof BlockedPageError ? error.page_class : undefined);
+        throw error;
+      }
+    };
+
+    try {
+      const result = await withRetry(attempt, {
+        maxAttempts: 3,
+        retryableErrors: rotatesProxy
+          ? ['ScraperError', 'SearchLimitError', 'TimeoutError']
+          : ['ScraperError', 'TimeoutError'],
+        onRetry: async (attempt, error) => {
+          logger.warn({ operation, attempt, error: error.message }, 'Retrying scrape...');
+          if (attempt >= 2 && !(error instanceof BlockedPageError)) {
+            await browserPool.retireFailedContext(error);
+          }
+        },
+      });
 
       const duration = Date.now() - startTime;
-      logScrapingOperation('scrape_company', normalized_org, false, duration);
+      logScrapingOperation(operation, key, false, duration);
 
       return result;
     } catch (error) {
       const duration = Date.now() - startTime;
-      logScrapingOperation('scrape_company', normalized_org, false, duration, error as Error);
+      logScrapingOperation(operation, key, false, duration, error as Error);
       throw error;
     }
   }
 
+  /**
+   * Internal engagement scrape method
+   */
+  private async doScrapeEngagements(profile_url: string): Promise<PersonProfile> {
+    const failure = { operation: 'scrape_person_engagements', key: profile_url };
+
+    return withPageSession('merinfo.se', failure, async (session) => {
+      await this.randomDelay();
+      logger.debug({ url: profile_url, mode: session.mode }, 'Scraping person engagements');
+
+      const loaded = await session.load(profile_url, PAGE_READY_SELECTOR);
+      if (loaded.page_class === 'not_found') {
+        throw new ScraperError(`Person profile not found: ${profile_url}`, false);
+      }
+      if (!loaded.ready) {
+        throw new ScraperError(`Person profile did not render: ${profile_url}`);
+      }
+
+      return parsePersonEngagements(loaded.html, {
+        url: profile_url,
+        base_url: BASE_URL,
+      });
+    });
+  }
+
+  /**
+   * Internal name search method (pages through search results)
+   */
+  private async doSearchByName(
+    query: string,
+    limit: number,
+    max_pages: number
+  ): Promise<CompanySearchCandidate[]> {
+    return withPageSession('merinfo.se', { operation: 'search_company_by_name', key: query }, async (session) => {
+      const candidates = new Map<string, CompanySearchCandidate>();
+
+      for (let page_number = 1; page_number <= max_pages && candidates.size < limit; page_number++) {
+        // Every result page counts against the scraping budget
+        await rateLimiter.waitForSlot('merinfo_scraper');
+        await this.randomDelay();
+
+        const searchUrl =
+          `${BASE_URL}/search?q=${encodeURIComponent(query)}` +
+          (page_number > 1 ? `&page=${page_number}` : '');
+        logger.debug({ url: searchUrl, page_number, mode: session.mode }, 'Searching company by name');
+
+        const loaded = await session.load(searchUrl, SEARCH_CARD_SELECTOR);
+        if (!loaded.ready) break; // No (more) results
+
+        const found = candidates.size;
+        for (const candidate of parseSearchResults(loaded.html, BASE_URL)) {
+          if (!candidates.has(candidate.org_number)) {
+            candidates.set(candidate.org_number, candidate);
+          }
+        }
+
+        // Stop when a page adds nothing new (last page or paging ignored)
+        if (candidates.size === found) break;
+      }
+
+      return [...candidates.values()].slice(0, limit);
+    });
+  }
+
   /**
    * Internal scrape method
    */
   private async doScrape(
     org_number: string,
     include_board: boolean
-  ): Promise<{ company: CompanyData; board_members: PersonDetails[] }> {
-    const context = await browserPool.acquireContext();
-    const page = await browserPool.createPage(context);
-
-    try {
+  ): Promise<ScrapeResult> {
+    return withPageSession('merinfo.se', { operation: 'scrape_company', key: org_number }, async (session) => {
       // Search for company
       await this.randomDelay();
-      const companyUrl = await this.searchCompany(page, org_number);
+      const searchResult = await this.searchCompany(session, org_number);
 
-      if (!companyUrl) {
+      if (!searchResult) {
         throw new NoSuchCompanyError(org_number);
       }
 
-      // Check for search limit page
-      if (await this.isSearchLimitReached(page)) {
-        throw new ScraperError('Search limit reached on merinfo.se', true);
-      }
-
       // Scrape company data
       await this.randomDelay();
-      const company = await this.scrapeCompanyPage(page, companyUrl, org_number);
+      const { company, report, html } = await this.scrapeCompanyPage(session, searchResult.url, org_number);
+      const extraction: ExtractionReport[] = [report];
+
+      const missing_fields = REQUIRED_COMPANY_FIELDS.filter((field) => !report.fields[field]?.resolved);
+      if (missing_fields.length > 0) {
+        logger.warn({ org_number, missing_fields }, 'Partial company page');
+        await session.capture({
+          kind: 'partial',
+          operation: 'scrape_company',
+          key: org_number,
+          missing_fields,
+        });
+      }
+
+      // Keep the search card warning unless the company page already has a remark of that type
+      const cardRemark = searchResult.remark;
+      if (cardRemark) {
+        const details = company.remark_details || [];
+        if (!details.some((r) => r.type === cardRemark.type)) {
+          company.remark_details = [...details, cardRemark];
+        }
+        company.has_remarks = true;
+        company.remarks = company.remarks || cardRemark.text;
+
+        const provenance = company.field_provenance || {};
+        for (const field of ['has_remarks', 'remarks', 'remark_details']) {
+          if (provenance[field]?.status === 'found') continue;
+          provenance[field] = {
+            source: 'merinfo',
+            extracted_at: company.scraped_at,
+            rule: `search card:${SEARCH_CARD_WARNING_TEXT}`,
+            status: 'found',
+            confidence: 'high',
+          };
+        }
+        company.field_provenance = provenance;
+      }
 
       // Scrape board members if requested
       let board_members: PersonDetails[] = [];
       if (include_board && DEFAULT_CONFIG.enable_person_details) {
-        board_members = await this.scrapeBoardMembers(page, org_number);
+        board_members = await this.scrapeBoardMembers(session, html, org_number, extraction);
       }
 
-      await page.close();
-      await browserPool.releaseContext(context);
-
-      return { company, board_members };
-    } catch (error) {
-      await page.close();
-      throw error;
-    }
+      return { company, board_members, extraction };
+    });
   }
 
   /**
-   * Search for company and return URL
+   * Search for company and return URL (plus the search card warning, if any)
    */
-  private async searchCompany(page: Page, org_number: string): Promise<string | null> {
+  private async searchCompany(
+    session: PageSession,
+    org_number: string
+  ): Promise<{ url: string; remark?: CompanyRemark } | null> {
     const searchUrl = `${BASE_URL}/search?q=${org_number}`;
-    logger.debug({ url: searchUrl }, 'Searching company');
-
-    await page.goto(searchUrl, { waitUntil: 'domcontentloaded' });
+    logger.debug({ url: searchUrl, mode: session.mode }, 'Searching company');
 
     // Wait for search results
-    try {
-      await page.waitForSelector('div[class*="mi-shadow-dark-blue"]', { timeout: 10000 });
-    } catch {
-      return null;
-    }
+    const loaded = await session.load(searchUrl, SEARCH_CARD_SELECTOR);
+    if (!loaded.ready) return null;
 
     // Find company card with matching org number
-    const cardXPath = `//div[contains(@class, 'mi-shadow-dark-blue') and .//p[normalize-space()='${org_number}']]`;
-
-    try {
-      const card = await page.waitForSelector(`xpath=${cardXPath}`, { timeout: 5000 });
-
-      if (!card) return null;
+    const card = parseSearchCard(loaded.html, org_number, BASE_URL);
 
-      // Check for warning remarks
-      const warningSelector = ".//span[contains(@class, 'mi-text-red') and contains(text(), 'anmärka på')]";
-      const hasWarning = await card.$(`xpath=${warningSelector}`);
-
-      if (hasWarning) {
-        const companyName = await card.$eval('a[href*="/foretag/"]', (el) => el.textContent);
-        logger.warn({ org_number, name: companyName }, 'Company has remarks, skipping');
-        throw new ScraperError(`Company ${companyName} has warning remarks`, false);
-      }
-
-      // Get company URL
-      const link = await card.$('a[href*="/foretag/"]');
-      if (!link) return null;
-
-      const href = await link.getAttribute('href');
-      if (!href) return null;
-
-      // Check if href is already absolute URL
-      return href.startsWith('http') ? href : `${BASE_URL}${href}`;
-    } catch (error) {
-      if (error instanceof ScraperError) throw error;
-      return null;
+    // Record warning remarks; the scrape continues so the company can be inspected
+    if (card?.remark) {
+      logger.warn({ org_number, remark: card.remark.text }, 'Company has remarks');
     }
+
+    return card;
   }
 
   /**
    * Scrape company page
    */
-  private async scrapeCompanyPage(page: Page, url: string, org_number: string): Promise<CompanyData> {
+  private async scrapeCompanyPage(
+    session: PageSession,
+    url: string,
+    org_number: string
+  ): Promise<{ company: CompanyData; report: ExtractionReport; html: string }> {
     logger.debug({ url }, 'Scraping company page');
 
-    await page.goto(url, { waitUntil: 'domcontentloaded' });
-
     // Wait for company name
-    await page.waitForSelector('h1 span.namn', { timeout: 10000 });
-
-    const company: CompanyData = {
-      org_number,
-      name: '',
-      contact: {},
-      tax_info: {
-        f_skatt: false,
-        vat_registered: false,
-        employer_registered: false,
-      },
-      industry: {},
-      has_remarks: false,
-      source_url: url,
-      scraped_at: new Date().toISOString(),
-    };
-
-    // Company name
-    company.name = (await this.getTextContent(page, 'h1 span.namn')) || '';
-
-    // Legal form, status, registration date (from table)
-    company.legal_form = (await this.getTableValue(page, 'Bolagsform:')) || undefined;
-    company.status = (await this.getTableValue(page, 'Status:')) || undefined;
-    company.registration_date = (await this.getTableValue(page, 'Registrerat:')) || undefined;
-
-    // Remarks
-    const remarksText = await this.getTextContent(page, '.mi-text-green, .mi-text-red, .mi-text-orange');
-    if (remarksText) {
-      company.has_remarks = true;
-      company.remarks = remarksText;
+    const loaded = await session.load(url, PAGE_READY_SELECTOR);
+    if (loaded.page_class === 'not_found') {
+      throw new NoSuchCompanyError(org_number);
     }
-
-    // Contact info
-    company.contact.phone = (await this.getTextContent(page, 'a[href^="tel:"]')) || undefined;
-
-    const addressText = await this.getTextContent(page, 'address');
-    if (addressText) {
-      const cleanAddress = addressText.replace(company.name, '').trim();
-      company.contact.address = cleanAddress;
-
-      const parsed = parseAddress(cleanAddress);
-      company.contact.postal_code = parsed.postal_code;
-      company.contact.city = parsed.city;
+    if (!loaded.ready) {
+      throw new ScraperError(`Company page did not render: ${url}`);
     }
 
-    company.contact.municipality = (await this.getTableValue(page, 'Kommunsäte:')) || undefined;
-    company.contact.county = (await this.getTableValue(page, 'Länssäte:')) || undefined;
-
-    // Tax info
-    const fSkatt = await this.getTableValue(page, 'F-Skatt:');
-    company.tax_info.f_skatt = parseBoolean(fSkatt);
-
-    const moms = await this.getTableValue(page, 'Momsregistrerad:');
-    company.tax_info.vat_registered = parseBoolean(moms);
-
-    const arbetsgivare = await this.getTableValue(page, 'Arbetsgivare:');
-    company.tax_info.employer_registered = parseBoolean(arbetsgivare);
-
-    // Financial data
-    const financialPeriod = await this.getTextContent(page, "h3:has-text('Nyckeltal 20')");
-    if (financialPeriod) {
-      company.financials = {
-        period: financialPeriod.replace('Nyckeltal ', '').trim(),
-        currency: 'SEK',
-        revenue: (await this.getFinancialValue(page, 'Omsättning')) || undefined,
-        profit_after_financial: (await this.getFinancialValue(page, 'Res. e. fin')) || undefined,
-        net_profit: (await this.getFinancialValue(page, 'Årets resultat')) || undefined,
-        total_assets: (await this.getFinancialValue(page, 'Summa tillgångar')) || undefined,
-      };
-    }
+    pageArchive.save({ source: 'merinfo', kind: 'company', org_number, url, html: loaded.html });
 
-    // Industry info
-    const sniText = await this.getTextContent(
-      page,
-      "h3:has-text('Svensk näringsgrensindelning') + div"
-    );
-    if (sniText) {
-      const parts = sniText.split(' - ', 2);
-      if (parts.length === 2) {
-        company.industry.sni_code = parts[0].trim();
-        company.industry.sni_description = parts[1].trim();
-      } else {
-        company.industry.sni_description = sniText;
-      }
-    }
-
-    // Categories
-    const categories = await page
-      .$$eval("h3:has-text('Bransch') + div a", (links) => links.map((l) => l.textContent?.trim() || ''))
-      .catch(() => []);
-    company.industry.categories = categories.filter((c) => c);
-
-    // Activity description
-    company.industry.activity_description = (await this.getTextContent(
-      page,
-      "h3:has-text('Verksamhetsbeskrivning') + div div[class*='expanded']"
-    )) || undefined;
-
-    return company;
+    return { ...parseCompanyPageWithReport(loaded.html, { org_number, url }), html: loaded.html };
   }
 
   /**
    * Scrape board members
+   * Reads the roster from the company page HTML; visits each person's profile once
    */
-  private async scrapeBoardMembers(page: Page, org_number: string): Promise<PersonDetails[]> {
-    const members: PersonDetails[] = [];
-    const roles = ['VD', 'Ordförande', 'Styrelseledamot', 'Ordinarie ledamot', 'Innehavare', 'Komplementär', 'Likvidator'];
-
-    for (const role of roles) {
-      try {
-        const xpath = `//td[contains(., '${role}')]/following-sibling::td//a[contains(@href, '/person/')]`;
-        const link = await page.$(`xpath=${xpath}`);
-
-        if (!link) continue;
-
-        const personUrl = await link.getAttribute('href');
-        if (!personUrl) continue;
+  private async scrapeBoardMembers(
+    session: PageSession,
+    companyHtml: string,
+    org_number: string,
+    extraction: ExtractionReport[]
+  ): Promise<PersonDetails[]> {
+    const roster = parseBoardRoster(companyHtml, BASE_URL);
+    logger.debug({ org_number, roles: roster.length }, 'Parsed board roster');
 
-        const fullUrl = `${BASE_URL}${personUrl}`;
+    const members: PersonDetails[] = [];
+    const profiles = new Map<string, PersonDetails | null>();
 
-        // Scrape person details
+    for (const entry of roster) {
+      if (!profiles.has(entry.profile_url)) {
         await this.randomDelay();
-        const person = await this.scrapePersonPage(page, fullUrl, org_number, role);
-
-        if (person) {
-          members.push(person);
-        }
-
-        // Go back to company page
-        await page.goBack({ waitUntil: 'domcontentloaded' });
-        await page.waitForSelector('h1 span.namn', { timeout: 10000 });
-
-        break; // Only scrape first person found
-      } catch (error) {
-        logger.debug({ role, error }, 'No person found for role');
-        continue;
+        const scraped = await this.scrapePersonPage(session, entry.profile_url, org_number, entry.role);
+        profiles.set(entry.profile_url, scraped?.person || null);
+        if (scraped) extraction.push(scraped.report);
       }
+
+      // Fall back to the roster name if the profile could not be scraped
+      const profile = profiles.get(entry.profile_url);
+      members.push(
+        profile
+          ? { ...profile, role: entry.role }
+          : {
+              org_number,
+              name: entry.name,
+              role: entry.role,
+              address: {},
+              profile_url: entry.profile_url,
+              scraped_at: new Date().toISOString(),
+            }
+      );
     }
 
     return members;
@@ -318,112 +366,29 @@ export class MerinfoScraper {
    * Scrape person details page
    */
   private async scrapePersonPage(
-    page: Page,
+    session: PageSession,
     url: string,
     org_number: string,
     role: string
-  ): Promise<PersonDetails | null> {
+  ): Promise<{ person: PersonDetails; report: ExtractionReport } | null> {
     logger.debug({ url, role }, 'Scraping person page');
 
     try {
-      await page.goto(url, { waitUntil: 'domcontentloaded' });
-      await page.waitForSelector('h1 span.namn', { timeout: 10000 });
-
-      const person: PersonDetails = {
-        org_number,
-        name: (await this.getTextContent(page, 'h1 span.namn')) || '',
-        role,
-        address: {},
-        profile_url: url,
-        scraped_at: new Date().toISOString(),
-      };
-
-      // Age
-      const ageText = await this.getTextContent(page, "i[class*='fa-address-book'] + span");
-      if (ageText) {
-        person.age = parseAge(ageText) || undefined;
-      }
+      const loaded = await session.load(url, PAGE_READY_SELECTOR);
+      if (!loaded.ready) return null;
 
-      // Phone
-      person.phone = (await this.getTextContent(page, 'a[href^="tel:"]')) || undefined;
-
-      // Address
-      const addressText = await this.getTextContent(page, '#oversikt address');
-      if (addressText) {
-        const apartment = parseApartment(addressText);
-        const cleanAddress = addressText.replace(apartment || '', '');
-        const parsed = parseAddress(cleanAddress);
-
-        person.address = {
-          street: parsed.street,
-          apartment: apartment || undefined,
-          postal_code: parsed.postal_code,
-          city: parsed.city,
-        };
-      }
+      pageArchive.save({ source: 'merinfo', kind: 'person', org_number, url, html: loaded.html });
 
-      return person;
+      return parsePersonPageWithReport(loaded.html, { org_number, role, url });
     } catch (error) {
-      logger.error({ url, error }, 'Error scraping person');
-      return null;
-    }
-  }
-
-  /**
-   * Get table value by header text
-   */
-  private async getTableValue(page: Page, headerText: string): Promise<string | null> {
-    try {
-      const xpath = `//th[contains(., '${headerText}')]/following-sibling::td`;
-      const element = await page.$(`xpath=${xpath}`);
-      if (!element) return null;
-
-      const text = await element.textContent();
-      return cleanText(text);
-    } catch {
-      return null;
-    }
-  }
+      // Being blocked (or needing the browser) fails the whole scrape; anything else only skips this person
+      if (error instanceof BlockedPageError || error instanceof NeedsJavaScriptError) throw error;
 
-  /**
-   * Get financial value (handles "1 234 tkr" format)
-   */
-  private async getFinancialValue(page: Page, labelText: string): Promise<number | null> {
-    try {
-      const xpath = `//span[contains(., '${labelText}')]/following-sibling::span`;
-      const element = await page.$(`xpath=${xpath}`);
-      if (!element) return null;
-
-      const text = await element.textContent();
-      return parseThousands(text);
-    } catch {
-      return null;
-    }
-  }
-
-  /**
-   * Get text content of selector
-   */
-  private async getTextContent(page: Page, selector: string): Promise<string | null> {
-    try {
-      const element = await page.$(selector);
-      if (!element) return null;
-
-      const text = await element.textContent();
-      return cleanText(text);
-    } catch {
+      logger.error({ url, error }, 'Error scraping person');
       return null;
     }
   }
 
-  /**
-   * Check if search limit page is reached
-   */
-  private async isSearchLimitReached(page: Page): Promise<boolean> {
-    const text = await page.textContent('body');
-    return text?.includes('Oops, din sökgräns är nådd!') || false;
-  }
-
   /**
    * Random delay between actions (stealth)
    */
@@ -0,0 +1,100 @@
+/**
+ * Response classification
+ * Tells real content apart from block pages (search limit, captcha, access refused, maintenance),
+ * HTTP errors and missing pages before any parsing happens
+ */
+
+import * as cheerio from 'cheerio';
+import {
+  BlockedPageError,
+  PageClassification,
+  ScraperError,
+  SearchLimitError,
+} from '../types.js';
+import { cleanText } from '../utils/parsers.js';
+
+const SEARCH_LIMIT_TEXT = [/din sökgräns är nådd/i, /för många (sökningar|förfrågningar)/i];
+
+const CAPTCHA_SELECTORS = [
+  'iframe[src*="recaptcha"]',
+  'iframe[src*="hcaptcha"]',
+  'iframe[src*="challenges.cloudflare.com"]',
+  '.g-recaptcha',
+  '.h-captcha',
+  '.cf-turnstile',
+  '#challenge-form',
+  '#cf-challenge-running',
+];
+const CAPTCHA_TEXT = [/verify you are (a )?human/i, /checking your browser/i, /bekräfta att du är en människa/i];
+
+const MAINTENANCE_TEXT = [/underhåll/i, /maintenance/i, /tillfälligt (ur funktion|otillgänglig)/i];
+
+const NOT_FOUND_TEXT = [/sidan (kunde inte hittas|finns inte)/i, /hittades inte/i, /page not found/i, /^404\b/];
+
+// Search pages with no (more) hits say so in server-rendered text
+const NO_RESULTS_TEXT = [/inga (fler )?(sök)?träffar/i, /sökningen gav (inga|0) (träffar|resultat)/i];
+
+/**
+ * Classify a loaded page from its HTML and HTTP status
+ */
+export function classifyPage(html: string, status?: number): PageClassification {
+  const $ = cheerio.load(html);
+  const body = cleanText($('body').text()) || '';
+  // Headings are where maintenance and 404 pages say so; body text would give false positives
+  const heading = cleanText(`${$('title').text()} ${$('h1').first().text()}`) || '';
+
+  if (status === 429 || SEARCH_LIMIT_TEXT.some((re) => re.test(body))) {
+    return { page_class: 'search_limit', status, detail: status === 429 ? 'HTTP 429' : undefined };
+  }
+
+  if (CAPTCHA_SELECTORS.some((selector) => $(selector).length > 0) || CAPTCHA_TEXT.some((re) => re.test(body))) {
+    return { page_class: 'captcha', status };
+  }
+
+  if (status === 503 || MAINTENANCE_TEXT.some((re) => re.test(heading))) {
+    return { page_class: 'maintenance', status, detail: heading || undefined };
+  }
+
+  if (status === 404 || status === 410 || NOT_FOUND_TEXT.some((re) => re.test(heading))) {
+    return { page_class: 'not_found', status };
+  }
+
+  // Access refused outright, typically a WAF or IP block
+  if (status === 401 || status === 403) {
+    return { page_class: 'forbidden', status, detail: `HTTP ${status}` };
+  }
+
+  if (status !== undefined && status >= 400) {
+    return { page_class: 'http_error', status, detail: `HTTP ${status}` };
+  }
+
+  if (NO_RESULTS_TEXT.some((re) => re.test(body))) {
+    return { page_class: 'no_results', status };
+  }
+
+  return { page_class: 'ok', status };
+}
+
+/**
+ * Error to throw for a classification, or null for ok / not_found / no_results (left to the caller)
+ */
+export function pageClassError(site: string, classification: PageClassification): Error | null {
+  switch (classification.page_class) {
+    case 'search_limit':
+      return new SearchLimitError(`Search limit reached on ${site}`);
+    case 'captcha':
+      return new BlockedPageError('captcha', `${site} is asking for a captcha`);
+    case 'forbidden':
+      return new BlockedPageError('forbidden', `${site} refused access (${classification.detail})`);
+    case 'maintenance':
+      return new BlockedPageError('maintenance', `${site} is down for maintenance`);
+    case 'http_error':
+      // 4xx will not change on retry; 5xx might
+      return new ScraperError(
+        `${site} responded with ${classification.detail}`,
+        (classification.status || 500) >= 500
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Page sessions
+ * A scrape loads its pages through a session: a leased Playwright page, or plain HTTP
+ * (SCRAPE_FETCH_MODE). In http mode, a page that needs JavaScript sends the whole
+ * operation to the browser; missing pages and empty searches are answered over HTTP.
+ * Both hand the same HTML to the same parsers.
+ */
+
+import * as cheerio from 'cheerio';
+import { Page } from 'playwright';
+import { DEFAULT_CONFIG, FetchMode, NeedsJavaScriptError, PageClass, PageClassification } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { browserPool } from './browser.js';
+import { CaptureDetails, PageSnapshot, failureArtifacts } from './failure-artifacts.js';
+import { HttpFetcher } from './http-fetcher.js';
+import { classifyPage, pageClassError } from './page-classifier.js';
+
+const READY_TIMEOUT_MS = 10_000;
+
+export interface LoadedPage {
+  url: string;
+  html: string;
+  page_class: PageClass;
+  ready: boolean; // The ready selector was found (always true without one)
+}
+
+export interface PageSession {
+  readonly mode: 'browser' | 'http';
+
+  /**
+   * Load a page; block pages and HTTP errors throw, not_found and no_results come back not ready
+   */
+  load(url: string, ready_selector?: string): Promise<LoadedPage>;
+
+  /**
+   * Save a failure artifact for the current page
+   */
+  capture(details: Omit<CaptureDetails, 'url_chain'>): Promise<void>;
+}
+
+const fetchStats = { http_pages: 0, browser_pages: 0, fallbacks: 0 };
+
+class BrowserSession implements PageSession {
+  readonly mode = 'browser';
+
+  constructor(
+    private page: Page,
+    private site: string
+  ) {}
+
+  async load(url: string, ready_selector?: string): Promise<LoadedPage> {
+    fetchStats.browser_pages++;
+
+    const response = await this.page.goto(url, { waitUntil: 'domcontentloaded' });
+    const classification = classifyPage(await this.page.content(), response?.status());
+    throwIfUnusable(this.site, url, classification);
+
+    let ready = classification.page_class === 'ok';
+    if (ready && ready_selector) {
+      try {
+        await this.page.waitForSelector(ready_selector, { timeout: READY_TIMEOUT_MS });
+      } catch (error) {
+        if ((error as Error).name !== 'TimeoutError') throw error;
+        ready = false;
+      }
+    }
+
+    return { url: this.page.url(), html: await this.page.content(), page_class: classification.page_class, ready };
+  }
+
+  async capture(details: Omit<CaptureDetails, 'url_chain'>): Promise<void> {
+    await failureArtifacts.capture(this.page, { ...details, url_chain: browserPool.getNavigationChain(this.page) });
+  }
+}
+
+class HttpSession implements PageSession {
+  readonly mode = 'http';
+  private fetcher = new HttpFetcher();
+  private last: PageSnapshot = {};
+
+  constructor(
+    private site: string,
+    private fallback: boolean
+  ) {}
+
+  async load(url: string, ready_selector?: string): Promise<LoadedPage> {
+    fetchStats.http_pages++;
+
+    const response = await this.fetcher.get(url);
+    this.last = { html: response.html, url: response.url };
+
+    const classification = classifyPage(response.html, response.status);
+    // Challenge pages may pass in a real browser
+    if (this.fallback && classification.page_class === 'captcha') {
+      throw new NeedsJavaScriptError(url, 'challenge page');
+    }
+    throwIfUnusable(this.site, url, classification);
+
+    let ready = classification.page_class === 'ok';
+    if (ready && ready_selector && cheerio.load(response.html)(ready_selector).length === 0) {
+      if (this.fallback) throw new NeedsJavaScriptError(url, `no ${ready_selector} in the HTML`);
+      ready = false;
+    }
+
+    return { url: response.url, html: response.html, page_class: classification.page_class, ready };
+  }
+
+  async capture(details: Omit<CaptureDetails, 'url_chain'>): Promise<void> {
+    await failureArtifacts.capture(this.last, { ...details, url_chain: this.fetcher.getChain() });
+  }
+}
+
+/**
+ * Run one scrape operation in a page session for the configured fetch mode
+ * Failures are captured as artifacts; a browser lease is always returned.
+ */
+export async function withPageSession<T>(
+  site: string,
+  failure: { operation: string; key: string },
+  fn: (session: PageSession) => Promise<T>,
+  mode: FetchMode = DEFAULT_CONFIG.scrape_fetch_mode
+): Promise<T> {
+  if (mode !== 'browser') {
+    try {
+      return await runSession(new HttpSession(site, mode === 'http'), failure, fn);
+    } catch (error) {
+      if (!(error instanceof NeedsJavaScriptError) || mode === 'http_only') throw error;
+
+      fetchStats.fallbacks++;
+      logger.info({ ...failure, url: error.url, reason: error.message }, 'Falling back to the browser');
+    }
+  }
+
+  const { context, page } = await browserPool.acquirePage();
+  let error: Error | undefined;
+
+  try {
+    return await runSession(new BrowserSession(page, site), failure, fn);
+  } catch (e) {
+    error = e as Error;
+    throw e;
+  } finally {
+    await browserPool.releaseContext(context, error);
+  }
+}
+
+/**
+ * Pages loaded per fetch strategy, and how often HTTP fell back to the browser
+ */
+export function getFetchStats() {
+  return { mode: DEFAULT_CONFIG.scrape_fetch_mode, ...fetchStats };
+}
+
+async function runSession<T>(
+  session: PageSession,
+  failure: { operation: string; key: string },
+  fn: (session: PageSession) => Promise<T>
+): Promise<T> {
+  try {
+    return await fn(session);
+  } catch (error) {
+    // A fallback is not a failure; the browser gets its own try
+    if (!(error instanceof NeedsJavaScriptError)) {
+      await session.capture({ kind: 'failed', ...failure, error: error as Error });
+    }
+    throw error;
+  }
+}
+
+function throwIfUnusable(site: string, url: string, classification: PageClassification): void {
+  const error = pageClassError(site, classification);
+  if (error) {
+    logger.warn({ url, ...classification }, 'Unusable page');
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Request interception rules for the browser pool
+ * Decides which page requests to abort (heavy resources, trackers) and counts the outcome
+ */
+
+import { RequestBlockingRules, RequestStats } from '../types.js';
+
+/**
+ * Resource types that are never blocked; the page itself must load
+ */
+const ALWAYS_ALLOWED_TYPES = new Set(['document']);
+
+export type RequestDecision =
+  | { blocked: false }
+  | { blocked: true; reason: 'type' | 'domain'; rule: string };
+
+export class RequestFilter {
+  private blockTypes: Set<string>;
+  private blockDomains: RegExp[];
+  private allowDomains: RegExp[];
+
+  constructor(readonly rules: RequestBlockingRules) {
+    this.blockTypes = new Set(rules.block_resource_types.map((t) => t.toLowerCase()));
+    this.blockDomains = rules.block_domains.map(domainPattern);
+    this.allowDomains = rules.allow_domains.map(domainPattern);
+  }
+
+  /**
+   * Decide whether a request should be aborted
+   */
+  decide(url: string, resource_type: string): RequestDecision {
+    if (ALWAYS_ALLOWED_TYPES.has(resource_type)) return { blocked: false };
+
+    const host = hostOf(url);
+    if (host && this.allowDomains.some((re) => re.test(host))) return { blocked: false };
+
+    if (this.blockTypes.has(resource_type)) {
+      return { blocked: true, reason: 'type', rule: resource_type };
+    }
+
+    if (host) {
+      const index = this.blockDomains.findIndex((re) => re.test(host));
+      if (index >= 0) {
+        return { blocked: true, reason: 'domain', rule: this.rules.block_domains[index] };
+      }
+    }
+
+    return { blocked: false };
+  }
+}
+
+export function emptyRequestStats(): RequestStats {
+  return { allowed: 0, blocked: 0, blocked_by_type: {}, blocked_by_domain: {} };
+}
+
+/**
+ * Add one decision to a stats object
+ */
+export function countRequest(stats: RequestStats, decision: RequestDecision): void {
+  if (!decision.blocked) {
+    stats.allowed++;
+    return;
+  }
+
+  stats.blocked++;
+  const bucket = decision.reason === 'type' ? stats.blocked_by_type : stats.blocked_by_domain;
+  bucket[decision.rule] = (bucket[decision.rule] || 0) + 1;
+}
+
+/**
+ * Add page stats into a running total
+ */
+export function mergeRequestStats(total: RequestStats, page: RequestStats): void {
+  total.allowed += page.allowed;
+  total.blocked += page.blocked;
+  for (const [type, count] of Object.entries(page.blocked_by_type)) {
+    total.blocked_by_type[type] = (total.blocked_by_type[type] || 0) + count;
+  }
+  for (const [domain, count] of Object.entries(page.blocked_by_domain)) {
+    total.blocked_by_domain[domain] = (total.blocked_by_domain[domain] || 0) + count;
+  }
+}
+
+/**
+ * "example.com" matches example.com and any subdomain; "*" matches any characters
+ */
+function domainPattern(pattern: string): RegExp {
+  const body = pattern
+    .toLowerCase()
+    .replace(/^\*\./, '')
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^(?:.*\\.)?${body}$`);
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Selector registry for merinfo.se pages
+ * Every extracted field lists its selectors in priority order; the first rule
+ * that yields a non-empty value wins. Bump SELECTOR_REGISTRY_VERSION whenever
+ * rules change so hit-rate statistics can be compared per version.
+ */
+
+export const SELECTOR_REGISTRY_VERSION = '2026.10.2';
+
+/**
+ * A single way of locating a field on the page
+ * - css:     first element matching a CSS selector (text, or attribute when `attr` is set)
+ * - th:      table cell following a header cell containing the text
+ * - label:   span following a span containing the text (financial key figures)
+ * - heading: element after a heading containing the text, optionally narrowed with `find`
+ */
+export type SelectorRule =
+  | { css: string; attr?: string }
+  | { th: string }
+  | { label: string }
+  | { heading: string; next?: string; find?: string };
+
+export type PageType = 'company' | 'person';
+
+/**
+ * Page-level selectors: render readiness and search result cards
+ */
+export const PAGE_READY_SELECTOR = 'h1 span.namn';
+export const SEARCH_CARD_CLASS = 'mi-shadow-dark-blue';
+export const SEARCH_CARD_SELECTOR = `div[class*="${SEARCH_CARD_CLASS}"]`;
+export const SEARCH_CARD_WARNING_TEXT = 'anmärka på';
+
+export const COMPANY_SELECTORS = {
+  name: [{ css: 'h1 span.namn' }, { css: 'h1' }],
+  legal_form: [{ th: 'Bolagsform:' }, { th: 'Juridisk form:' }],
+  status: [{ th: 'Status:' }],
+  registration_date: [{ th: 'Registrerat:' }, { th: 'Registreringsdatum:' }],
+  // Red and orange are warnings; green is the all-clear text shown when there are none
+  remarks: [{ css: '.mi-text-red, .mi-text-orange' }],
+  remarks_clear: [{ css: '.mi-text-green' }],
+  phone: [{ css: 'a[href^="tel:"]' }, { th: 'Telefon:' }],
+  email: [{ css: 'a[href^="mailto:"]', attr: 'href' }, { th: 'E-post:' }],
+  website: [{ th: 'Hemsida:' }, { th: 'Webbplats:' }],
+  address: [{ css: 'address' }, { th: 'Adress:' }],
+  municipality: [{ th: 'Kommunsäte:' }, { th: 'Kommun:' }],
+  county: [{ th: 'Länssäte:' }, { th: 'Län:' }],
+  f_skatt: [{ th: 'F-Skatt:' }, { th: 'F-skatt:' }],
+  vat_registered: [{ th: 'Momsregistrerad:' }],
+  employer_registered: [{ th: 'Arbetsgivare:' }],
+  bankgiro_number: [{ th: 'Bankgiro:' }],
+  share_capital: [{ th: 'Aktiekapital:' }],
+  employees: [{ th: 'Antal anställda:' }, { th: 'Anställda:' }],
+  size_class: [{ th: 'Storleksklass:' }, { th: 'Företagsstorlek:' }],
+  financial_period: [{ heading: 'Nyckeltal 20' }],
+  revenue: [{ label: 'Omsättning' }],
+  profit_after_financial: [{ label: 'Res. e. fin' }, { label: 'Resultat efter finansnetto' }],
+  net_profit: [{ label: 'Årets resultat' }],
+  total_assets: [{ label: 'Summa tillgångar' }],
+  sni: [{ heading: 'Svensk näringsgrensindelning', next: 'div' }, { th: 'SNI-kod:' }],
+  categories: [{ heading: 'Bransch', next: 'div', find: 'a' }],
+  activity_description: [
+    { heading: 'Verksamhetsbeskrivning', next: 'div', find: "div[class*='expanded']" },
+    { heading: 'Verksamhetsbeskrivning', next: 'div' },
+  ],
+} satisfies Record<string, SelectorRule[]>;
+
+export const PERSON_SELECTORS = {
+  name: [{ css: 'h1 span.namn' }, { css: 'h1' }],
+  age: [{ css: "i[class*='fa-address-book'] + span" }],
+  phone: [{ css: 'a[href^="tel:"]' }],
+  address: [{ css: '#oversikt address' }, { css: 'address' }],
+} satisfies Record<string, SelectorRule[]>;
+
+export type CompanyField = keyof typeof COMPANY_SELECTORS;
+export type PersonField = keyof typeof PERSON_SELECTORS;
+
+/**
+ * Fields every company page has; a scrape missing any of them is partial
+ */
+export const REQUIRED_COMPANY_FIELDS: CompanyField[] = ['name', 'legal_form', 'status'];
+
+/**
+ * Human-readable form of a rule, stored with hit statistics
+ */
+export function describeRule(rule: SelectorRule): string {
+  if ('css' in rule) return rule.attr ? `css:${rule.css}@${rule.attr}` : `css:${rule.css}`;
+  if ('th' in rule) return `th:${rule.th}`;
+  if ('label' in rule) return `label:${rule.label}`;
+  return `heading:${rule.heading}${rule.next ? ` + ${rule.next}` : ''}${rule.find ? ` ${rule.find}` : ''}`;
+}
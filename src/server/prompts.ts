@@ -4,10 +4,17 @@
  */
 
 import { CompanyDatabase } from '../cache/database.js';
+import { FinancialYear, PersonDetails } from '../types.js';
 import { logger } from '../utils/logger.js';
+import { sniTaxonomy } from '../taxonomy/sni.js';
+import { withGrowth, revenueCagrPct } from '../utils/financials.js';
+import { Redactor, redactionProfiles } from './redaction.js';
 
 export class MerinfoPrompts {
-  constructor(private db: CompanyDatabase) {}
+  constructor(
+    private db: CompanyDatabase,
+    private redaction: Redactor = redactionProfiles.get()
+  ) {}
 
   /**
    * List available prompts
@@ -98,12 +105,13 @@ export class MerinfoPrompts {
    * Analyze company prompt
    */
   private analyzeCompanyPrompt(org_number: string): string {
-    const company = this.db.getCompany(org_number);
-    if (!company) {
+    const cached = this.db.getCompany(org_number);
+    if (!cached) {
       return `Company ${org_number} not found in cache. Please use search_company_by_org_number tool first.`;
     }
 
-    const board = this.db.getBoardMembers(org_number);
+    const company = this.redaction.company(cached);
+    const board = this.redaction.people(this.db.getBoardMembers(org_number));
 
     let profit_margin = null;
     if (company.financials?.revenue && company.financials?.net_profit) {
@@ -117,6 +125,16 @@ export class MerinfoPrompts {
 **Legal Form:** ${company.legal_form || 'N/A'}
 **Status:** ${company.status || 'N/A'}
 **Registration Date:** ${company.registration_date || 'N/A'}
+**Employees:** ${company.employees_range || company.employees || 'N/A'}
+**Size Class:** ${company.size_class || 'N/A'}
+**Share Capital:** ${company.share_capital ? `${company.share_capital.toLocaleString()} SEK` : 'N/A'}
+**Group:** ${
+      company.group?.parent_name
+        ? `Subsidiary of ${company.group.parent_name} (${company.group.parent_org_number || 'N/A'})`
+        : company.group?.subsidiaries_count
+          ? `Parent of ${company.group.subsidiaries_count} subsidiaries`
+          : 'N/A'
+    }
 
 ## Financial Overview (${company.financials?.period || 'N/A'})
 - **Revenue:** ${company.financials?.revenue ? `${(company.financials.revenue / 1000).toLocaleString()} tkr` : 'N/A'}
@@ -124,6 +142,9 @@ export class MerinfoPrompts {
 - **Total Assets:** ${company.financials?.total_assets ? `${(company.financials.total_assets / 1000).toLocaleString()} tkr` : 'N/A'}
 - **Profit Margin:** ${profit_margin ? `${profit_margin}%` : 'N/A'}
 
+## Financial History
+${this.formatFinancialHistory(company.financial_history || [])}
+
 ## Business Profile
 - **Industry:** ${company.industry.sni_description || 'N/A'} (${company.industry.sni_code || 'N/A'})
 - **Categories:** ${company.industry.categories?.join(', ') || 'N/A'}
@@ -136,12 +157,14 @@ export class MerinfoPrompts {
 
 ## Contact
 - **Phone:** ${company.contact.phone || 'N/A'}
+- **Email:** ${company.contact.email || 'N/A'}
+- **Website:** ${company.contact.website || 'N/A'}
 - **Address:** ${company.contact.address || 'N/A'}
 - **City:** ${company.contact.city || 'N/A'}
 - **Municipality:** ${company.contact.municipality || 'N/A'}
 
 ## Board Members (${board.length} people)
-${board.map((p) => `- **${p.role}:** ${p.name}${p.age ? ` (${p.age} years)` : ''}`).join('\n')}
+${board.map((p) => `- **${p.role}:** ${p.name}${this.ageSuffix(p)}`).join('\n')}
 
 ${company.has_remarks ? `\n⚠️ **Remarks:** ${company.remarks}\n` : ''}
 
@@ -152,7 +175,7 @@ Please provide:
 1. **Financial Health Assessment** - Is the company financially stable?
 2. **Business Sustainability Analysis** - Long-term viability?
 3. **Risk Factors** - What are the key risks (if any)?
-4. **Growth Indicators** - Signs of growth or decline?
+4. **Growth Indicators** - Signs of growth or decline? Use the yearly history to describe revenue, profit and asset trends.
 5. **Recommendations** - Should this company be considered for business partnerships, investments, or contracts?
 
 Focus on objective analysis based on the data provided.`;
@@ -189,6 +212,15 @@ Focus on objective analysis based on the data provided.`;
       '| Net Profit (tkr) | ' +
       companies.map((c) => (c!.financials?.net_profit ? (c!.financials.net_profit / 1000).toLocaleString() : 'N/A')).join(' | ') +
       ' |\n';
+    comparison +=
+      '| Revenue CAGR | ' +
+      companies
+        .map((c) => {
+          const cagr = revenueCagrPct(c!.financial_history || []);
+          return cagr !== null ? `${cagr}%` : 'N/A';
+        })
+        .join(' | ') +
+      ' |\n';
     comparison +=
       '| Industry | ' +
       companies.map((c) => c!.industry.sni_description?.substring(0, 30) || 'N/A').join(' | ') +
@@ -224,7 +256,7 @@ Focus on objective analysis based on the data provided.`;
 
     let overview = `# Industry Overview\n\n`;
     overview += `**SNI Code:** ${sni_code}\n`;
-    overview += `**Industry:** ${companies[0].industry.sni_description}\n`;
+    overview += `**Industry:** ${sniTaxonomy.get(sni_code)?.name_sv || companies[0].industry.sni_description}\n`;
     overview += `${city ? `**Location:** ${city}\n` : ''}`;
     overview += `**Companies Analyzed:** ${companies.length}\n\n`;
 
@@ -254,12 +286,13 @@ Focus on objective analysis based on the data provided.`;
    * Due diligence prompt
    */
   private dueDiligencePrompt(org_number: string): string {
-    const company = this.db.getCompany(org_number);
-    if (!company) {
+    const cached = this.db.getCompany(org_number);
+    if (!cached) {
       return `Company ${org_number} not found in cache.`;
     }
 
-    const board = this.db.getBoardMembers(org_number);
+    const company = this.redaction.company(cached);
+    const board = this.redaction.people(this.db.getBoardMembers(org_number));
 
     let report = `# Due Diligence Report: ${company.name}\n\n`;
     report += `**Organization Number:** ${company.org_number}\n`;
@@ -281,6 +314,7 @@ Focus on objective analysis based on the data provided.`;
       report += `- **Revenue:** ${(company.financials.revenue! / 1000).toLocaleString()} tkr\n`;
       report += `- **Net Profit:** ${(company.financials.net_profit! / 1000).toLocaleString()} tkr\n`;
       report += `- **Total Assets:** ${(company.financials.total_assets! / 1000).toLocaleString()} tkr\n\n`;
+      report += `\n### History\n${this.formatFinancialHistory(company.financial_history || [])}\n\n`;
       report += `[AI: Analyze financial health and trends]\n\n`;
     } else {
       report += `No financial data available.\n\n`;
@@ -293,7 +327,7 @@ Focus on objective analysis based on the data provided.`;
 
     report += `## Management & Ownership\n`;
     board.forEach((p) => {
-      report += `- **${p.role}:** ${p.name}${p.age ? ` (${p.age} years)` : ''}\n`;
+      report += `- **${p.role}:** ${p.name}${this.ageSuffix(p)}\n`;
     });
     report += `\n[AI: Assess management team strength]\n\n`;
 
@@ -301,6 +335,9 @@ Focus on objective analysis based on the data provided.`;
     if (company.has_remarks) {
       report += `⚠️ **WARNING:** ${company.remarks}\n`;
     }
+    for (const remark of company.remark_details || []) {
+      report += `- **${remark.type}**${remark.count ? ` ×${remark.count}` : ''}${remark.date ? ` (${remark.date})` : ''}: ${remark.text}\n`;
+    }
     report += `[AI: Identify and rate key risks (High/Medium/Low)]\n\n`;
 
     report += `## Recommendations\n`;
@@ -311,4 +348,38 @@ Focus on objective analysis based on the data provided.`;
 
     return report;
   }
+
+  /**
+   * Format yearly financials as a markdown table with YoY growth
+   */
+  private formatFinancialHistory(history: FinancialYear[]): string {
+    if (history.length === 0) {
+      return 'No multi-year history available.';
+    }
+
+    const tkr = (value?: number) => (value !== undefined ? (value / 1000).toLocaleString() : 'N/A');
+    const pct = (value?: number | null) => (value !== undefined && value !== null ? `${value}%` : 'N/A');
+
+    let table = '| Year | Revenue (tkr) | YoY | Net Profit (tkr) | YoY | Total Assets (tkr) |\n';
+    table += '|------|---------------|-----|------------------|-----|--------------------|\n';
+
+    for (const year of withGrowth(history)) {
+      table += `| ${year.period || year.fiscal_year} | ${tkr(year.revenue)} | ${pct(year.revenue_growth_pct)} | ${tkr(year.net_profit)} | ${pct(year.net_profit_growth_pct)} | ${tkr(year.total_assets)} |\n`;
+    }
+
+    const cagr = revenueCagrPct(history);
+    if (cagr !== null) {
+      table += `\n**Revenue CAGR:** ${cagr}%`;
+    }
+
+    return table;
+  }
+
+  /**
+   * Age after a board member's name, or the age range under a redaction profile
+   */
+  private ageSuffix(person: PersonDetails): string {
+    if (person.age) return ` (${person.age} years)`;
+    return person.age_range ? ` (${person.age_range} years)` : '';
+  }
 }
@@ -0,0 +1,233 @@
+/**
+ * Personal-data redaction
+ * Profiles decide, field by field, how much of a private person's data a client sees:
+ * board members, person profiles, and the contact details of sole traders. Chosen per
+ * server (REDACTION_PROFILE) or per API key on the HTTP transport (CLIENT_API_KEYS).
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import {
+  CompanyData,
+  PersonDetails,
+  PersonProfile,
+  RedactionProfileConfig,
+  RedactionRules,
+  DEFAULT_CONFIG,
+} from '../types.js';
+import { checkIdentityNumber } from '../utils/org-number.js';
+import { RedactionProfileConfigSchema } from '../utils/validators.js';
+
+export const BUILTIN_REDACTION_PROFILES: Record<string, RedactionRules> = {
+  full: {
+    name: 'keep',
+    personal_number: 'keep',
+    age: 'keep',
+    phone: 'keep',
+    email: 'keep',
+    street: 'keep',
+    apartment: 'keep',
+    postal_code: 'keep',
+    city: 'keep',
+    profile_url: 'keep',
+  },
+  business_only: {
+    name: 'keep',
+    personal_number: 'drop',
+    age: 'drop',
+    phone: 'drop',
+    email: 'drop',
+    street: 'drop',
+    apartment: 'drop',
+    postal_code: 'drop',
+    city: 'keep',
+    profile_url: 'keep',
+  },
+  anonymized: {
+    name: 'pseudonym',
+    personal_number: 'drop',
+    age: 'range',
+    phone: 'drop',
+    email: 'drop',
+    street: 'drop',
+    apartment: 'drop',
+    postal_code: 'drop',
+    city: 'keep',
+    profile_url: 'drop',
+  },
+};
+
+/**
+ * Applies one profile's rules to people and sole-trader companies
+ */
+export class Redactor {
+  constructor(
+    readonly profile: string,
+    readonly rules: RedactionRules,
+    private salt: string
+  ) {}
+
+  /**
+   * Whether the profile leaves every field untouched
+   */
+  get isFull(): boolean {
+    return Object.values(this.rules).every((rule) => rule === 'keep');
+  }
+
+  person(person: PersonDetails): PersonDetails {
+    if (this.isFull) return person;
+    const { rules } = this;
+
+    const redacted: PersonDetails = {
+      ...person,
+      name: this.name(person.name, person.profile_url || `${person.org_number}:${person.name}`),
+      address: {
+        street: rules.street === 'keep' ? person.address.street : undefined,
+        apartment: rules.apartment === 'keep' ? person.address.apartment : undefined,
+        postal_code: rules.postal_code === 'keep' ? person.address.postal_code : undefined,
+        city: rules.city === 'keep' ? person.address.city : undefined,
+      },
+      ...this.age(person.age),
+    };
+    if (rules.personal_number === 'drop') delete redacted.personal_number;
+    if (rules.phone === 'drop') delete redacted.phone;
+    if (rules.profile_url === 'drop') delete redacted.profile_url;
+
+    return redacted;
+  }
+
+  people(people: PersonDetails[]): PersonDetails[] {
+    return people.map((p) => this.person(p));
+  }
+
+  /**
+   * A person profile; a dropped profile URL still keys the pseudonym
+   */
+  personProfile(profile: PersonProfile): Omit<PersonProfile, 'profile_url'> & { profile_url?: string } {
+    if (this.isFull) return profile;
+
+    return {
+      ...profile,
+      name: this.name(profile.name, profile.profile_url),
+      profile_url: this.rules.profile_url === 'keep' ? profile.profile_url : undefined,
+      ...this.age(profile.age),
+    };
+  }
+
+  /**
+   * Sole traders are registered under the owner's personal identity number, so their
+   * contact details are personal data; other companies pass through unchanged
+   */
+  company<T extends CompanyData>(company: T): T {
+    if (this.isFull) return company;
+
+    const check = checkIdentityNumber(company.org_number);
+    if (!check.valid || check.kind === 'organization') return company;
+
+    const { rules } = this;
+    const contact = { ...company.contact };
+    if (rules.phone === 'drop') delete contact.phone;
+    if (rules.email === 'drop') delete contact.email;
+    if (rules.street === 'drop') delete contact.address;
+    if (rules.postal_code === 'drop') delete contact.postal_code;
+    if (rules.city === 'drop') delete contact.city;
+
+    return { ...company, contact };
+  }
+
+  private name(name: string, key: string): string {
+    switch (this.rules.name) {
+      case 'initials':
+        return name
+          .split(/[\s-]+/)
+          .filter((part) => part)
+          .map((part) => `${part[0].toUpperCase()}.`)
+          .join(' ');
+      case 'pseudonym':
+        // Stable for the same person and salt, so pseudonyms can be joined across calls
+        return `Person ${createHmac('sha256', this.salt).update(key).digest('hex').slice(0, 8)}`;
+      default:
+        return name;
+    }
+  }
+
+  private age(age: number | undefined): { age?: number; age_range?: string } {
+    if (age === undefined || this.rules.age === 'drop') return { age: undefined };
+    if (this.rules.age === 'keep') return { age };
+
+    const decade = Math.floor(age / 10) * 10;
+    return { age: undefined, age_range: `${decade}-${decade + 9}` };
+  }
+}
+
+/**
+ * Built-in and configured profiles, and the API keys that select them
+ */
+export class RedactionProfiles {
+  private profiles: Map<string, RedactionRules> = new Map(Object.entries(BUILTIN_REDACTION_PROFILES));
+  private salt: string;
+
+  constructor(
+    custom: Record<string, RedactionProfileConfig> = DEFAULT_CONFIG.redaction_profiles,
+    private clientKeys: Record<string, string> = DEFAULT_CONFIG.client_api_keys,
+    private defaultProfile: string = DEFAULT_CONFIG.redaction_profile,
+    salt: string = DEFAULT_CONFIG.redaction_salt
+  ) {
+    // Without a configured salt, pseudonyms are stable only until restart
+    this.salt = salt || randomBytes(16).toString('hex');
+
+    for (const [name, config] of Object.entries(custom)) {
+      const parsed = RedactionProfileConfigSchema.safeParse(config);
+      if (!parsed.success) {
+        throw new Error(`Invalid redaction profile "${name}": ${parsed.error.errors[0].message}`);
+      }
+      const { extends: base = 'business_only', ...overrides } = parsed.data;
+      this.profiles.set(name, { ...this.rules(base), ...overrides });
+    }
+
+    this.rules(defaultProfile);
+    for (const profile of Object.values(clientKeys)) {
+      if (profile) this.rules(profile);
+    }
+  }
+
+  names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  /**
+   * Redactor for a named profile, or the server default
+   */
+  get(profile: string = this.defaultProfile): Redactor {
+    return new Redactor(profile, this.rules(profile), this.salt);
+  }
+
+  /**
+   * Whether clients must present an API key
+   */
+  get requiresApiKey(): boolean {
+    return Object.keys(this.clientKeys).length > 0;
+  }
+
+  /**
+   * Redactor for an API key; the server default when no keys are configured, null for
+   * a missing or unknown key otherwise. Keys listed without a profile get the default.
+   */
+  forApiKey(key: string | undefined): Redactor | null {
+    if (!this.requiresApiKey) return this.get();
+    if (!key || !Object.hasOwn(this.clientKeys, key)) return null;
+    return this.get(this.clientKeys[key] || undefined);
+  }
+
+  private rules(profile: string): RedactionRules {
+    const rules = this.profiles.get(profile);
+    if (!rules) {
+      throw new Error(`Unknown redaction profile: ${profile} (available: ${this.names().join(', ')})`);
+    }
+    return rules;
+  }
+}
+
+/**
+ * Global redaction profiles, configured from REDACTION_PROFILE / REDACTION_PROFILES / CLIENT_API_KEYS
+ */
+export const redactionProfiles = new RedactionProfiles();
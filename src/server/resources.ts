@@ -5,9 +5,14 @@
 
 import { CompanyDatabase } from '../cache/database.js';
 import { logger } from '../utils/logger.js';
+import { sniTaxonomy } from '../taxonomy/sni.js';
+import { Redactor, redactionProfiles } from './redaction.js';
 
 export class MerinfoResources {
-  constructor(private db: CompanyDatabase) {}
+  constructor(
+    private db: CompanyDatabase,
+    private redaction: Redactor = redactionProfiles.get()
+  ) {}
 
   /**
    * List available resources
@@ -38,6 +43,12 @@ export class MerinfoResources {
         mimeType: 'application/json',
         description: 'Get companies by SNI industry code',
       },
+      {
+        uri: 'sni://taxonomy/{code}',
+        name: 'SNI 2007 taxonomy',
+        mimeType: 'application/json',
+        description: 'SNI industry code with its path and children (sni://taxonomy lists sections)',
+      },
       {
         uri: 'stats://cache',
         name: 'Cache statistics',
@@ -64,9 +75,10 @@ export class MerinfoResources {
         if (!company) {
           throw new Error(`Company ${org_number} not found in cache`);
         }
+        this.db.recordCompanyAccess(org_number);
 
         return {
-          contents: JSON.stringify(company, null, 2),
+          contents: JSON.stringify(this.redaction.company(company), null, 2),
           mimeType: 'application/json',
         };
       }
@@ -81,7 +93,7 @@ export class MerinfoResources {
         });
 
         return {
-          contents: JSON.stringify(companies, null, 2),
+          contents: JSON.stringify(companies.map((c) => this.redaction.company(c)), null, 2),
           mimeType: 'application/json',
         };
       }
@@ -98,7 +110,7 @@ export class MerinfoResources {
         const companies = this.db.searchCompaniesByName(query, limit);
 
         return {
-          contents: JSON.stringify(companies, null, 2),
+          contents: JSON.stringify(companies.map((c) => this.redaction.company(c)), null, 2),
           mimeType: 'application/json',
         };
       }
@@ -114,7 +126,27 @@ export class MerinfoResources {
         });
 
         return {
-          contents: JSON.stringify(companies, null, 2),
+          contents: JSON.stringify(companies.map((c) => this.redaction.company(c)), null, 2),
+          mimeType: 'application/json',
+        };
+      }
+
+      // sni://taxonomy/62
+      if (url.protocol === 'sni:' && url.hostname === 'taxonomy') {
+        const code = url.pathname.replace('/', '');
+
+        if (code && !sniTaxonomy.isValid(code)) {
+          throw new Error(`Unknown SNI 2007 code: ${code}`);
+        }
+
+        const taxonomy = {
+          node: code ? sniTaxonomy.get(code) : null,
+          path: code ? sniTaxonomy.path(code) : [],
+          children: code ? sniTaxonomy.children(code) : sniTaxonomy.sections(),
+        };
+
+        return {
+          contents: JSON.stringify(taxonomy, null, 2),
           mimeType: 'application/json',
         };
       }
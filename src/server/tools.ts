@@ -1,30 +1,55 @@
 /**
  * MCP Tools implementation
- * All 12 tools for company information retrieval
+ * All 27 tools for company and person information retrieval
  */
 
 import { CompanyDatabase } from '../cache/database.js';
-import { merinfoScraper } from '../scraper/merinfo.js';
-import { DEFAULT_CONFIG } from '../types.js';
+import { ProviderRegistry, providerRegistry } from '../providers/registry.js';
+import { mergeWithCached } from '../providers/merge.js';
+import { CircuitOpenError, CompanyData, DEFAULT_CONFIG, ScrapeResult, SniNode } from '../types.js';
+import { SELECTOR_REGISTRY_VERSION } from '../scraper/selectors.js';
+import { importRegisterFile } from '../importers/bolagsverket.js';
+import { reparseArchive } from '../importers/page-archive.js';
+import { erasePersonData, exportPersonData } from '../privacy/data-subjects.js';
+import { pageArchive } from '../cache/page-archive.js';
+import { ScrapeWorker } from '../queue/scrape-worker.js';
+import { RefreshScheduler } from '../queue/refresh-scheduler.js';
+import { proxyPool } from '../scraper/proxy-pool.js';
+import { circuitBreakers } from '../scraper/circuit-breaker.js';
+import { failureArtifacts } from '../scraper/failure-artifacts.js';
+import { sniTaxonomy } from '../taxonomy/sni.js';
 import { logger } from '../utils/logger.js';
+import { withGrowth, revenueCagrPct } from '../utils/financials.js';
+import { checkIdentityNumber } from '../utils/org-number.js';
+import { Redactor, redactionProfiles } from './redaction.js';
+import path from 'path';
 import * as validators from '../utils/validators.js';
 
 export class MerinfoTools {
-  constructor(private db: CompanyDatabase) {}
+  constructor(
+    private db: CompanyDatabase,
+    private providers: ProviderRegistry = providerRegistry,
+    private worker?: ScrapeWorker,
+    private scheduler?: RefreshScheduler,
+    private redaction: Redactor = redactionProfiles.get(),
+    private admin: boolean = DEFAULT_CONFIG.admin_tools_enabled
+  ) {}
 
   /**
    * Tool 1: Search company by organization number
    */
   async searchCompanyByOrgNumber(args: validators.SearchCompanyByOrgNumberInput) {
-    const { org_number, force_refresh, include_board } = validators.SearchCompanyByOrgNumberInput.parse(args);
+    const { org_number, force_refresh, include_board, source } =
+      validators.SearchCompanyByOrgNumberInput.parse(args);
 
-    logger.info({ org_number, force_refresh, include_board }, 'Tool: search_company_by_org_number');
+    logger.info({ org_number, force_refresh, include_board, source }, 'Tool: search_company_by_org_number');
 
-    // Check cache first
+    // Check cache first (a forced source always fetches)
     const cached = this.db.getCompany(org_number);
     const is_stale = cached ? this.db.isCacheStale(org_number, DEFAULT_CONFIG.cache_stale_days) : true;
 
-    if (cached && !force_refresh && !is_stale) {
+    if (cached && !force_refresh && !is_stale && !source) {
+      this.db.recordCompanyAccess(org_number);
       const board_members = include_board ? this.db.getBoardMembers(org_number) : [];
 
       return {
@@ -33,25 +58,49 @@ export class MerinfoTools {
         cache_age_days: Math.floor(
           (Date.now() - new Date(cached.scraped_at).getTime()) / (1000 * 60 * 60 * 24)
         ),
-        company: cached,
-        board_members: include_board ? board_members : undefined,
+        company: this.presentCompany(cached),
+        board_members: include_board ? this.redaction.people(board_members) : undefined,
+        redaction_profile: this.redaction.profile,
       };
     }
 
-    // Scrape fresh data
-    const { company, board_members } = await merinfoScraper.scrapeCompany(org_number, include_board);
+    // Scrape fresh data; a single source only refreshes the fields it returns
+    let result: ScrapeResult;
+    try {
+      result = await this.scrapeCompany(org_number, include_board, source ? [source] : undefined);
+    } catch (error) {
+      // Blocked site: serve what we have
+      if (!(error instanceof CircuitOpenError) || !cached) throw error;
+
+      this.db.recordCompanyAccess(org_number);
+      return {
+        success: true,
+        cached: true,
+        stale: is_stale,
+        live_unavailable: this.liveUnavailable(error),
+        company: this.presentCompany(cached),
+        board_members: include_board ? this.redaction.people(this.db.getBoardMembers(org_number)) : undefined,
+        redaction_profile: this.redaction.profile,
+      };
+    }
+    // Cached fields from the forced source that it no longer returns are dropped, not carried over
+    const company = source ? mergeWithCached(result.company, cached, [source]) : result.company;
+    const board_members = this.db.applySuppressions(result.board_members);
 
     // Save to cache
     this.db.saveCompany(company);
     if (include_board && board_members.length > 0) {
       this.db.saveBoardMembers(org_number, board_members);
     }
+    this.db.recordCompanyAccess(org_number);
 
     return {
       success: true,
       cached: false,
-      company,
-      board_members: include_board ? board_members : undefined,
+      source,
+      company: this.presentCompany(company),
+      board_members: include_board ? this.redaction.people(board_members) : undefined,
+      redaction_profile: this.redaction.profile,
     };
   }
 
@@ -59,9 +108,9 @@ export class MerinfoTools {
    * Tool 2: Get company details from cache
    */
   async getCompanyDetails(args: validators.GetCompanyDetailsInput) {
-    const { org_number } = validators.GetCompanyDetailsInput.parse(args);
+    const { org_number, include_provenance } = validators.GetCompanyDetailsInput.parse(args);
 
-    logger.info({ org_number }, 'Tool: get_company_details');
+    logger.info({ org_number, include_provenance }, 'Tool: get_company_details');
 
     const company = this.db.getCompany(org_number);
 
@@ -72,14 +121,16 @@ export class MerinfoTools {
         hint: 'Use search_company_by_org_number to fetch fresh data',
       };
     }
+    this.db.recordCompanyAccess(org_number);
 
-    const cache_age_days = Math.floor(
-      (Date.now() - new Date(company.scraped_at).getTime()) / (1000 * 60 * 60 * 24)
-    );
+    // Register imports have not been scraped yet
+    const cache_age_days = company.scraped_at
+      ? Math.floor((Date.now() - new Date(company.scraped_at).getTime()) / (1000 * 60 * 60 * 24))
+      : null;
 
     return {
       success: true,
-      company,
+      company: include_provenance ? this.redaction.company(company) : this.presentCompany(company),
       cache_age_days,
       is_stale: this.db.isCacheStale(org_number, DEFAULT_CONFIG.cache_stale_days),
     };
@@ -98,31 +149,61 @@ export class MerinfoTools {
     return {
       success: true,
       count: companies.length,
-      companies,
+      companies: companies.map((c) => this.redaction.company(c)),
       filters_applied: {
         sni_code: params.sni_code,
+        sni_path: params.sni_code ? sniTaxonomy.path(params.sni_code).map((n) => `${n.code} ${n.name_sv}`) : undefined,
         category: params.category,
         city: params.city,
         min_revenue: params.min_revenue,
+        min_employees: params.min_employees,
+        max_employees: params.max_employees,
+        size_class: params.size_class,
+        min_share_capital: params.min_share_capital,
+        has_website: params.has_website,
+        has_email: params.has_email,
       },
     };
   }
 
   /**
-   * Tool 4: Search companies by name (full-text)
+   * Tool 4: Search companies by name (full-text, or live on merinfo.se)
    */
   async searchCompanyByName(args: validators.SearchCompanyByNameInput) {
-    const { query, limit } = validators.SearchCompanyByNameInput.parse(args);
-
-    logger.info({ query, limit }, 'Tool: search_company_by_name');
+    const { query, limit, live, max_pages } = validators.SearchCompanyByNameInput.parse(args);
+
+    logger.info({ query, limit, live, max_pages }, 'Tool: search_company_by_name');
+
+    let live_unavailable: ReturnType<MerinfoTools['liveUnavailable']> | undefined;
+
+    if (live) {
+      try {
+        const candidates = await this.providers.searchByName(query, limit, max_pages);
+
+        return {
+          success: true,
+          query,
+          mode: 'live',
+          count: candidates.length,
+          candidates: candidates.map((c) => ({ ...c, cached: this.db.getCompany(c.org_number) !== null })),
+          hint: 'Pass the chosen org_number to search_company_by_org_number for full details',
+        };
+      } catch (error) {
+        // Blocked site: fall back to the cache search below
+        if (!(error instanceof CircuitOpenError)) throw error;
+        live_unavailable = this.liveUnavailable(error);
+      }
+    }
 
     const companies = this.db.searchCompaniesByName(query, limit);
 
     return {
       success: true,
       query,
+      mode: 'cache',
+      live_unavailable,
       count: companies.length,
-      companies,
+      companies: companies.map((c) => this.redaction.company(c)),
     };
   }
 
@@ -135,17 +216,29 @@ export class MerinfoTools {
     logger.info({ org_number, force_refresh }, 'Tool: get_board_members');
 
     // Check if we need to refresh
-    if (force_refresh || !this.db.getCompany(org_number)) {
-      const { board_members } = await merinfoScraper.scrapeCompany(org_number, true);
-      this.db.saveBoardMembers(org_number, board_members);
-
-      return {
-        success: true,
-        org_number,
-        count: board_members.length,
-        board_members,
-        cached: false,
-      };
+    const is_cached = this.db.getCompany(org_number) !== null;
+    let live_unavailable: ReturnType<MerinfoTools['liveUnavailable']> | undefined;
+
+    if (force_refresh || !is_cached) {
+      try {
+        const { company, board_members: scraped } = await this.scrapeCompany(org_number, true);
+        const board_members = this.db.applySuppressions(scraped);
+        this.db.saveCompany(company);
+        this.db.saveBoardMembers(org_number, board_members);
+
+        return {
+          success: true,
+          org_number,
+          count: board_members.length,
+          board_members: this.redaction.people(board_members),
+          cached: false,
+          redaction_profile: this.redaction.profile,
+        };
+      } catch (error) {
+        // Blocked site: fall back to the cached board if there is one
+        if (!(error instanceof CircuitOpenError) || !is_cached) throw error;
+        live_unavailable = this.liveUnavailable(error);
+      }
     }
 
     // Return cached
@@ -155,8 +248,10 @@ export class MerinfoTools {
       success: true,
       org_number,
       count: board_members.length,
-      board_members,
+      board_members: this.redaction.people(board_members),
       cached: true,
+      live_unavailable,
+      redaction_profile: this.redaction.profile,
     };
   }
 
@@ -175,12 +270,13 @@ export class MerinfoTools {
       query: name,
       role_filter: role,
       count: people.length,
-      people,
+      people: this.redaction.people(people),
+      redaction_profile: this.redaction.profile,
     };
   }
 
   /**
-   * Tool 7: Get financial data
+   * Tool 7: Get financial data (latest snapshot + yearly time series)
    */
   async getFinancialData(args: { org_number: string }) {
     const { org_number } = validators.GetCompanyDetailsInput.parse(args);
@@ -195,13 +291,19 @@ export class MerinfoTools {
         error: `Company ${org_number} not found`,
       };
     }
+    this.db.recordCompanyAccess(org_number);
+
+    const history = withGrowth(company.financial_history || []);
 
     return {
       success: true,
       org_number,
       company_name: company.name,
       financials: company.financials || null,
-      has_data: !!company.financials,
+      history,
+      years_available: history.length,
+      revenue_cagr_pct: revenueCagrPct(history),
+      has_data: !!company.financials || history.length > 0,
     };
   }
 
@@ -221,6 +323,7 @@ export class MerinfoTools {
         error: `Company ${org_number} not found`,
       };
     }
+    this.db.recordCompanyAccess(org_number);
 
     return {
       success: true,
@@ -247,6 +350,7 @@ export class MerinfoTools {
         city: params.city,
         status: params.status,
         has_remarks: params.has_remarks,
+        remark_type: params.remark_type,
       },
       sort: {
         by: params.sort_by,
@@ -256,7 +360,7 @@ export class MerinfoTools {
         limit: params.limit,
         offset: params.offset,
       },
-      companies,
+      companies: companies.map((c) => this.redaction.company(c)),
     };
   }
 
@@ -268,7 +372,8 @@ export class MerinfoTools {
 
     logger.info({ org_number }, 'Tool: update_company_data');
 
-    const { company, board_members } = await merinfoScraper.scrapeCompany(org_number, true);
+    const { company, board_members: scraped } = await this.scrapeCompany(org_number, true);
+    const board_members = this.db.applySuppressions(scraped);
 
     this.db.saveCompany(company);
     this.db.saveBoardMembers(org_number, board_members);
@@ -276,8 +381,9 @@ export class MerinfoTools {
     return {
       success: true,
       org_number,
-      company,
-      board_members,
+      company: this.redaction.company(company),
+      board_members: this.redaction.people(board_members),
+      redaction_profile: this.redaction.profile,
       updated_at: company.updated_at,
     };
   }
@@ -289,6 +395,7 @@ export class MerinfoTools {
     const { older_than_days, confirm } = validators.ClearCacheInput.parse(args);
 
     logger.warn({ older_than_days, confirm }, 'Tool: clear_cache');
+    this.requireAdmin('clear_cache');
 
     const deleted_count = this.db.clearCache(older_than_days);
 
@@ -310,6 +417,472 @@ export class MerinfoTools {
     return {
       success: true,
       ...stats,
+      stale_companies: this.db.countStaleCompanies(DEFAULT_CONFIG.cache_stale_days),
+      page_archive: pageArchive.getStats(),
+      background_refresh: this.scheduler?.getStatus() ?? { running: false },
+    };
+  }
+
+  /**
+   * Tool 13: All company engagements for a person (current and past)
+   */
+  async getPersonEngagements(args: validators.GetPersonEngagementsInput) {
+    const { profile_url, person_id, include_past, enqueue_companies, force_refresh } =
+      validators.GetPersonEngagementsInput.parse(args);
+
+    logger.info({ profile_url, person_id, enqueue_companies, force_refresh }, 'Tool: get_person_engagements');
+
+    const url = profile_url || this.db.getPersonProfileUrl(person_id!);
+    if (!url) {
+      return {
+        success: false,
+        error: `No merinfo profile URL stored for person ${person_id}`,
+        hint: 'Use get_board_members to find people with profile URLs',
+      };
+    }
+    if (this.db.getSuppression({ profile_url: url })) {
+      return {
+        success: false,
+        error: 'This person\'s data was erased on request and is no longer collected',
+      };
+    }
+
+    const stored = this.db.getPersonProfile(url);
+    let profile = force_refresh ? null : stored;
+    let live_unavailable: ReturnType<MerinfoTools['liveUnavailable']> | undefined;
+
+    if (!profile) {
+      try {
+        profile = await this.providers.fetchPersonEngagements(url);
+        this.db.savePersonProfile(profile);
+      } catch (error) {
+        // Blocked site: fall back to the stored profile if there is one
+        if (!(error instanceof CircuitOpenError) || !stored) throw error;
+        live_unavailable = this.liveUnavailable(error);
+        profile = stored;
+      }
+    }
+    const cached = profile === stored;
+    const person = this.redaction.personProfile(profile);
+
+    const engagements = profile.engagements
+      .filter((e) => include_past || e.current)
+      .map((e) => ({ ...e, cached: this.db.getCompany(e.org_number) !== null }));
+
+    const queued = enqueue_companies
+      ? this.db.enqueueScrape(engagements.filter((e) => !e.cached).map((e) => e.org_number))
+      : 0;
+
+    return {
+      success: true,
+      cached,
+      live_unavailable,
+      name: person.name,
+      age: person.age,
+      age_range: person.age_range,
+      profile_url: person.profile_url,
+      scraped_at: profile.scraped_at,
+      count: engagements.length,
+      current_count: engagements.filter((e) => e.current).length,
+      engagements,
+      companies_enqueued: queued,
+      redaction_profile: this.redaction.profile,
+    };
+  }
+
+  /**
+   * Tool 14: Selector hit rates and drift warnings
+   */
+  async getSelectorHealth(args: validators.GetSelectorHealthInput) {
+    const { recent_pages, baseline_pages, only_drift } = validators.GetSelectorHealthInput.parse(args);
+
+    logger.info({ recent_pages, baseline_pages, only_drift }, 'Tool: get_selector_health');
+
+    const fields = this.db.getSelectorHealth(recent_pages, baseline_pages);
+    const drifting = fields.filter((f) => f.drift);
+
+    return {
+      success: true,
+      registry_version: SELECTOR_REGISTRY_VERSION,
+      drift_detected: drifting.length > 0,
+      warnings: drifting.map(
+        (f) =>
+          `Selector drift: ${f.page_type}.${f.field} hit rate dropped from ${f.baseline_hit_rate} to ${f.recent_hit_rate}`
+      ),
+      fields: only_drift ? drifting : fields,
+    };
+  }
+
+  /**
+   * Tool 15: Registered data sources and the field merge policy
+   */
+  async listDataSources() {
+    logger.info('Tool: list_data_sources');
+
+    const policy = this.providers.getPolicy();
+
+    return {
+      success: true,
+      sources: this.providers.describe().map((source) => ({
+        ...source,
+        circuit: circuitBreakers.get(source.id).getState(),
+      })),
+      merge_policy: {
+        default_order: policy.default_order,
+        field_overrides: policy.fields,
+      },
     };
   }
+
+  /**
+   * Tool 16: Import a Bolagsverket register file into the cache (admin)
+   * Files are read from REGISTER_IMPORT_DIR only
+   */
+  async importRegisterFile(args: validators.ImportRegisterFileInput) {
+    const { file, limit, dry_run } = validators.ImportRegisterFileInput.parse(args);
+
+    logger.warn({ file, limit, dry_run }, 'Tool: import_register_file');
+    this.requireAdmin('import_register_file');
+
+    const dir = path.resolve(DEFAULT_CONFIG.register_import_dir);
+    const resolved = path.resolve(dir, file);
+    if (!resolved.startsWith(dir + path.sep)) {
+      return {
+        success: false,
+        error: `File must be inside the register import directory (${DEFAULT_CONFIG.register_import_dir})`,
+      };
+    }
+
+    const result = await importRegisterFile(this.db, resolved, { limit, dry_run });
+
+    return {
+      success: true,
+      dry_run,
+      ...result,
+      file,
+    };
+  }
+
+  /**
+   * Tool 17: Browse the SNI 2007 industry taxonomy
+   * No code lists the sections; a code returns its path and children; a query searches names
+   */
+  async browseSniTaxonomy(args: validators.BrowseSniTaxonomyInput) {
+    const { code, query, include_counts } = validators.BrowseSniTaxonomyInput.parse(args);
+
+    logger.info({ code, query }, 'Tool: browse_sni_taxonomy');
+
+    const withCount = (node: SniNode) =>
+      include_counts ? { ...node, cached_companies: this.db.countCompaniesBySni(node.code) } : node;
+
+    if (query) {
+      const matches = sniTaxonomy.search(query);
+      return {
+        success: true,
+        query,
+        count: matches.length,
+        matches: matches.map(withCount),
+      };
+    }
+
+    const path = code ? sniTaxonomy.path(code) : [];
+
+    return {
+      success: true,
+      code: code || null,
+      node: code ? withCount(sniTaxonomy.get(code) || path[path.length - 1]) : null,
+      path,
+      children: (code ? sniTaxonomy.children(code) : sniTaxonomy.sections()).map(withCount),
+      bundled_levels: sniTaxonomy.bundledLevels,
+    };
+  }
+
+  /**
+   * Tool 18: Queue companies for background scraping
+   */
+  async enqueueCompanies(args: validators.EnqueueCompaniesInput) {
+    const { org_numbers, priority, include_board } = validators.EnqueueCompaniesInput.parse(args);
+
+    logger.info({ count: org_numbers.length, priority, include_board }, 'Tool: enqueue_companies');
+
+    const queued = this.db.enqueueScrape(org_numbers, priority, include_board);
+
+    return {
+      success: true,
+      requested: org_numbers.length,
+      queued,
+      already_queued: new Set(org_numbers).size - queued,
+      jobs: org_numbers.flatMap((org_number) => this.db.listScrapeJobs({ org_number, limit: 1 })),
+      queue: this.queueSummary(),
+    };
+  }
+
+  /**
+   * Tool 19: Status of a queued job, the jobs for an org number, or the whole queue
+   */
+  async getJobStatus(args: validators.GetJobStatusInput) {
+    const { job_id, org_number } = validators.GetJobStatusInput.parse(args);
+
+    logger.info({ job_id, org_number }, 'Tool: get_job_status');
+
+    if (job_id) {
+      const job = this.db.getScrapeJob(job_id);
+      return job ? { success: true, job } : { success: false, error: `Job ${job_id} not found` };
+    }
+
+    if (org_number) {
+      const jobs = this.db.listScrapeJobs({ org_number, limit: 10 });
+      return {
+        success: true,
+        org_number,
+        count: jobs.length,
+        jobs,
+        cached: this.db.getCompany(org_number) !== null,
+      };
+    }
+
+    return {
+      success: true,
+      queue: this.queueSummary(),
+    };
+  }
+
+  /**
+   * Tool 20: Jobs that exhausted their attempts
+   */
+  async listFailedJobs(args: validators.ListFailedJobsInput) {
+    const { limit } = validators.ListFailedJobsInput.parse(args);
+
+    logger.info({ limit }, 'Tool: list_failed_jobs');
+
+    const jobs = this.db.listScrapeJobs({ status: 'failed', limit });
+
+    return {
+      success: true,
+      count: jobs.length,
+      total_failed: this.db.getQueueSummary().counts.failed,
+      jobs,
+    };
+  }
+
+  /**
+   * Tool 21: Put failed jobs back in the queue (admin)
+   */
+  async retryFailedJobs(args: validators.RetryFailedJobsInput) {
+    const { job_ids, all } = validators.RetryFailedJobsInput.parse(args);
+
+    logger.info({ job_ids, all }, 'Tool: retry_failed_jobs');
+    this.requireAdmin('retry_failed_jobs');
+
+    const requeued = this.db.retryFailedScrapeJobs(all ? undefined : job_ids);
+
+    return {
+      success: true,
+      requeued,
+      queue: this.queueSummary(),
+    };
+  }
+
+  /**
+   * Tool 22: Per-proxy health (successes, failures, search-limit hits, cooldowns)
+   */
+  async getProxyHealth() {
+    logger.info('Tool: get_proxy_health');
+
+    const proxies = proxyPool.getHealth();
+
+    return {
+      success: true,
+      configured: proxies.length,
+      active: proxies.filter((p) => p.status === 'active').length,
+      cooldown_minutes: DEFAULT_CONFIG.proxy_cooldown_minutes,
+      proxies,
+      hint: proxies.length === 0 ? 'No proxies configured; set PROXY_LIST to rotate outbound IPs' : undefined,
+    };
+  }
+
+  /**
+   * Tool 23: Recent failed or partial scrapes with screenshot/HTML artifact paths
+   */
+  async listScrapeFailures(args: validators.ListScrapeFailuresInput) {
+    const { limit, kind, operation } = validators.ListScrapeFailuresInput.parse(args);
+
+    logger.info({ limit, kind, operation }, 'Tool: list_scrape_failures');
+
+    const failures = await failureArtifacts.list({ limit, kind, operation });
+
+    return {
+      success: true,
+      count: failures.length,
+      artifacts_enabled: DEFAULT_CONFIG.artifacts_enabled,
+      artifacts_dir: path.resolve(DEFAULT_CONFIG.artifacts_dir),
+      failures,
+    };
+  }
+
+  /**
+   * Tool 24: Re-run extraction over the raw page archive and update the cache (admin)
+   */
+  async reparseArchive(args: validators.ReparseArchiveInput) {
+    const { org_numbers, limit, dry_run } = validators.ReparseArchiveInput.parse(args);
+
+    logger.warn({ org_numbers: org_numbers?.length, limit, dry_run }, 'Tool: reparse_archive');
+    this.requireAdmin('reparse_archive');
+
+    const result = await reparseArchive(this.db, { org_numbers, limit, dry_run });
+
+    return {
+      success: true,
+      ...result,
+      archive: pageArchive.getStats(),
+    };
+  }
+
+  /**
+   * Tool 25: Validate organization numbers offline (checksum, format, entity group)
+   */
+  async validateOrgNumbers(args: validators.ValidateOrgNumbersInput) {
+    const { org_numbers, check_cache } = validators.ValidateOrgNumbersInput.parse(args);
+
+    logger.info({ count: org_numbers.length, check_cache }, 'Tool: validate_org_numbers');
+
+    const checks = org_numbers.map((n) => checkIdentityNumber(n));
+    const valid = checks.filter((c) => c.valid).map((c) => c.normalized!);
+    const cached = check_cache ? this.db.cachedOrgNumbers(valid) : undefined;
+
+    const by_entity_group: Record<string, number> = {};
+    for (const check of checks) {
+      if (check.entity_group) {
+        by_entity_group[check.entity_group] = (by_entity_group[check.entity_group] || 0) + 1;
+      }
+    }
+
+    return {
+      success: true,
+      count: checks.length,
+      valid_count: valid.length,
+      invalid_count: checks.length - valid.length,
+      duplicate_count: valid.length - new Set(valid).size,
+      by_entity_group,
+      results: checks.map((check) =>
+        cached && check.valid ? { ...check, cached: cached.has(check.normalized!) } : check
+      ),
+    };
+  }
+
+  /**
+   * Tool 26: Export everything stored about a person, for a data access request (admin)
+   */
+  async exportPersonData(args: validators.ExportPersonDataInput) {
+    const subject = validators.ExportPersonDataInput.parse(args);
+
+    // The subject's identity stays out of the logs
+    logger.warn({ by_profile_url: !!subject.profile_url }, 'Tool: export_person_data');
+    this.requireUnredacted('export_person_data');
+
+    const data = await exportPersonData(this.db, subject);
+
+    return {
+      success: true,
+      found: data.people.length > 0 || data.profiles.length > 0 || data.archived_pages.length > 0,
+      ...data,
+    };
+  }
+
+  /**
+   * Tool 27: Delete or anonymize everything stored about a person and suppress them (admin)
+   */
+  async erasePersonData(args: validators.ErasePersonDataInput) {
+    const { mode, suppress, dry_run, confirm, ...subject } = validators.ErasePersonDataInput.parse(args);
+
+    logger.warn({ by_profile_url: !!subject.profile_url, mode, suppress, dry_run, confirm }, 'Tool: erase_person_data');
+    this.requireUnredacted('erase_person_data');
+
+    const result = await erasePersonData(this.db, subject, { mode, suppress, dry_run });
+
+    return {
+      success: true,
+      ...result,
+      hint:
+        result.unverified_matches > 0
+          ? 'Same-name people without a birth year were not erased; check them with export_person_data'
+          : undefined,
+    };
+  }
+
+  /**
+   * Admin tools need ADMIN_TOOLS_ENABLED, or an ADMIN_API_KEYS key on the HTTP server
+   */
+  private requireAdmin(tool: string): void {
+    if (!this.admin) {
+      throw new Error(`${tool} is an admin tool; enable ADMIN_TOOLS_ENABLED or connect with an ADMIN_API_KEYS key`);
+    }
+  }
+
+  /**
+   * Personal-data admin tools bypass redaction, so clients on a redacted profile cannot use them
+   */
+  private requireUnredacted(tool: string): void {
+    this.requireAdmin(tool);
+    if (!this.redaction.isFull) {
+      throw new Error(`${tool} requires a client with the full redaction profile (current: ${this.redaction.profile})`);
+    }
+  }
+
+  /**
+   * Why live data was not fetched, for responses that fall back to the cache
+   */
+  private liveUnavailable(error: CircuitOpenError) {
+    return {
+      reason: error.message,
+      circuit: error.circuit,
+      retry_after_ms: error.retry_after_ms,
+      retry_at: new Date(Date.now() + error.retry_after_ms).toISOString(),
+    };
+  }
+
+  /**
+   * Company without per-field provenance, which is only returned on request
+   */
+  private withoutProvenance(company: CompanyData): CompanyData {
+    const { field_provenance, ...rest } = company;
+    return rest;
+  }
+
+  /**
+   * Company as returned by default: no provenance, personal data redacted
+   */
+  private presentCompany(company: CompanyData): CompanyData {
+    return this.redaction.company(this.withoutProvenance(company));
+  }
+
+  private queueSummary() {
+    return { ...this.db.getQueueSummary(), worker_running: this.worker?.isRunning() ?? false };
+  }
+
+  /**
+   * Fetch a company from the enabled data sources and record selector hit statistics
+   */
+  private async scrapeCompany(
+    org_number: string,
+    include_board: boolean,
+    sources?: string[]
+  ): Promise<ScrapeResult> {
+    const result = await this.providers.fetchCompany(org_number, { include_board, sources });
+
+    this.db.recordExtraction(result.extraction);
+    for (const field of this.db.getSelectorHealth().filter((f) => f.drift)) {
+      logger.warn(
+        {
+          page_type: field.page_type,
+          field: field.field,
+          recent_hit_rate: field.recent_hit_rate,
+          baseline_hit_rate: field.baseline_hit_rate,
+        },
+        'Selector drift detected'
+      );
+    }
+
+    return result;
+  }
 }
@@ -20,9 +20,15 @@ import { CompanyDatabase } from './cache/database.js';
 import { MerinfoTools } from './server/tools.js';
 import { MerinfoResources } from './server/resources.js';
 import { MerinfoPrompts } from './server/prompts.js';
+import { Redactor, redactionProfiles } from './server/redaction.js';
 import { browserPool } from './scraper/browser.js';
+import { getFetchStats } from './scraper/page-session.js';
+import { providerRegistry } from './providers/registry.js';
+import { ScrapeWorker } from './queue/scrape-worker.js';
+import { circuitBreakers } from './scraper/circuit-breaker.js';
+import { RefreshScheduler } from './queue/refresh-scheduler.js';
 import { logger } from './utils/logger.js';
-import { DEFAULT_CONFIG } from './types.js';
+import { DEFAULT_CONFIG, RateLimitError } from './types.js';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -38,6 +44,7 @@ app.get('/health', async (req, res) => {
   try {
     const db = new CompanyDatabase();
     const stats = db.getCacheStats();
+    const selectorDrift = db.getSelectorHealth().filter((f) => f.drift);
     db.close();
 
     res.json({
@@ -51,6 +58,13 @@ app.get('/health', async (req, res) => {
       },
       browser: {
         healthy: browserPool.isHealthy(),
+        requests: browserPool.getRequestTotals(),
+        pool: browserPool.getPoolStats(),
+      },
+      fetch: getFetchStats(),
+      circuit_breakers: circuitBreakers.list(),
+      selectors: {
+        drift: selectorDrift.map((f) => `${f.page_type}.${f.field}`),
       },
     });
   } catch (error) {
@@ -62,16 +76,26 @@ app.get('/health', async (req, res) => {
   }
 });
 
+// One queue worker and refresh scheduler per process, shared by all connections
+const queueDb = new CompanyDatabase(DEFAULT_CONFIG.database_path);
+circuitBreakers.attach(queueDb);
+const worker = new ScrapeWorker(queueDb);
+const scheduler = new RefreshScheduler(queueDb);
+
 // Initialize MCP server
-async function initializeMCP() {
-  logger.info('Initializing Merinfo MCP Server (HTTP)...');
+async function initializeMCP(redaction: Redactor, admin: boolean) {
+  logger.info({ redaction_profile: redaction.profile, admin }, 'Initializing Merinfo MCP Server (HTTP)...');
 
   const db = new CompanyDatabase(DEFAULT_CONFIG.database_path);
-  const tools = new MerinfoTools(db);
-  const resources = new MerinfoResources(db);
-  const prompts = new MerinfoPrompts(db);
+  const tools = new MerinfoTools(db, providerRegistry, worker, scheduler, redaction, admin);
+  const resources = new MerinfoResources(db, redaction);
+  const prompts = new MerinfoPrompts(db, redaction);
 
-  await browserPool.initialize();
+  if (DEFAULT_CONFIG.scrape_fetch_mode === 'browser') {
+    await browserPool.initialize();
+  } else if (DEFAULT_CONFIG.proxies.length > 0) {
+    logger.warn({ mode: DEFAULT_CONFIG.scrape_fetch_mode }, 'PROXY_LIST only applies to browser scrapes');
+  }
 
   const server = new Server(
     {
@@ -118,6 +142,9 @@ async function initializeMCP() {
         case 'search_person':
           result = await tools.searchPerson(args as any);
           break;
+        case 'get_person_engagements':
+          result = await tools.getPersonEngagements(args as any);
+          break;
         case 'get_financial_data':
           result = await tools.getFinancialData(args as any);
           break;
@@ -136,6 +163,48 @@ async function initializeMCP() {
         case 'get_cache_stats':
           result = await tools.getCacheStats();
           break;
+        case 'get_selector_health':
+          result = await tools.getSelectorHealth(args as any);
+          break;
+        case 'list_data_sources':
+          result = await tools.listDataSources();
+          break;
+        case 'import_register_file':
+          result = await tools.importRegisterFile(args as any);
+          break;
+        case 'browse_sni_taxonomy':
+          result = await tools.browseSniTaxonomy(args as any);
+          break;
+        case 'enqueue_companies':
+          result = await tools.enqueueCompanies(args as any);
+          break;
+        case 'get_job_status':
+          result = await tools.getJobStatus(args as any);
+          break;
+        case 'list_failed_jobs':
+          result = await tools.listFailedJobs(args as any);
+          break;
+        case 'retry_failed_jobs':
+          result = await tools.retryFailedJobs(args as any);
+          break;
+        case 'get_proxy_health':
+          result = await tools.getProxyHealth();
+          break;
+        case 'list_scrape_failures':
+          result = await tools.listScrapeFailures(args as any);
+          break;
+        case 'reparse_archive':
+          result = await tools.reparseArchive(args as any);
+          break;
+        case 'validate_org_numbers':
+          result = await tools.validateOrgNumbers(args as any);
+          break;
+        case 'export_person_data':
+          result = await tools.exportPersonData(args as any);
+          break;
+        case 'erase_person_data':
+          result = await tools.erasePersonData(args as any);
+          break;
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -153,6 +222,7 @@ async function initializeMCP() {
               {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                retry_after_ms: error instanceof RateLimitError ? error.retry_after_ms : undefined,
               },
               null,
               2
@@ -190,10 +260,27 @@ async function initializeMCP() {
   return server;
 }
 
-// MCP endpoint
+/**
+ * API key from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ */
+function apiKeyOf(req: express.Request): string | undefined {
+  const bearer = req.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer || req.get('x-api-key') || undefined;
+}
+
+// MCP endpoint; with CLIENT_API_KEYS set, the key picks the client's redaction profile
 app.get('/mcp', async (req, res) => {
+  const key = apiKeyOf(req);
+  const redaction = redactionProfiles.forApiKey(key);
+  if (!redaction) {
+    logger.warn({ ip: req.ip }, 'MCP connection rejected: missing or unknown API key');
+    res.status(401).json({ error: 'Missing or unknown API key' });
+    return;
+  }
+
   try {
-    const server = await initializeMCP();
+    const admin = DEFAULT_CONFIG.admin_tools_enabled || (!!key && DEFAULT_CONFIG.admin_api_keys.includes(key));
+    const server = await initializeMCP(redaction, admin);
     const transport = new SSEServerTransport('/message', res);
     await server.connect(transport);
 
@@ -210,11 +297,20 @@ app.listen(PORT, () => {
   console.log(`🚀 Merinfo MCP Server running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`🔌 MCP endpoint: http://localhost:${PORT}/mcp`);
+
+  if (DEFAULT_CONFIG.queue_worker_enabled) {
+    worker.start();
+  }
+  if (DEFAULT_CONFIG.enable_background_refresh) {
+    scheduler.start();
+  }
 });
 
 // Cleanup
 process.on('SIGINT', async () => {
   logger.info('Shutting down...');
+  scheduler.stop();
+  await worker.stop();
   await browserPool.closeAll();
   process.exit(0);
 });
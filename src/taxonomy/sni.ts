@@ -0,0 +1,163 @@
+/**
+ * SNI 2007 taxonomy
+ * Lookup, validation and expansion of Swedish industry codes
+ */
+
+import { SNI_LEVELS, SniLevel, SniNode } from '../types.js';
+import { SNI_2007, SNI_2007_LEVELS } from './sni2007-data.js';
+
+export class SniTaxonomy {
+  private nodes: Map<string, SniNode> = new Map();
+  private childCodes: Map<string | null, string[]> = new Map();
+
+  constructor(
+    rows: Array<[string, string | null, string, string]> = SNI_2007,
+    private levels: SniLevel[] = SNI_2007_LEVELS
+  ) {
+    for (const [code, parent, name_sv, name_en] of rows) {
+      this.nodes.set(code, { code, level: levelOf(code)!, parent, name_sv, name_en });
+      this.childCodes.set(parent, [...(this.childCodes.get(parent) || []), code]);
+    }
+  }
+
+  /**
+   * Levels bundled with the server
+   */
+  get bundledLevels(): SniLevel[] {
+    return this.levels;
+  }
+
+  get(code: string): SniNode | null {
+    return this.nodes.get(normalizeSniCode(code)) || null;
+  }
+
+  /**
+   * Top-level sections (A-U)
+   */
+  sections(): SniNode[] {
+    return this.children(null);
+  }
+
+  children(code: string | null): SniNode[] {
+    const key = code === null ? null : normalizeSniCode(code);
+    return (this.childCodes.get(key) || []).map((c) => this.nodes.get(c)!);
+  }
+
+  /**
+   * Ancestors from section down to (and including) the code itself
+   * Levels that are not bundled are skipped
+   */
+  path(code: string): SniNode[] {
+    const path: SniNode[] = [];
+    let node = this.nearest(code);
+
+    while (node) {
+      path.unshift(node);
+      node = node.parent ? this.nodes.get(node.parent) || null : null;
+    }
+
+    return path;
+  }
+
+  /**
+   * Whether a code exists in SNI 2007
+   * Codes at a bundled level must be a row; codes below the deepest bundled level can only
+   * be checked against their ancestor at that level
+   */
+  isValid(code: string): boolean {
+    const normalized = normalizeSniCode(code);
+    const level = levelOf(normalized);
+    if (!level) return false;
+    if (this.nodes.has(normalized)) return true;
+
+    const deepest = this.levels[this.levels.length - 1];
+    if (SNI_LEVELS.indexOf(level) <= SNI_LEVELS.indexOf(deepest)) return false;
+    return this.nodes.has(normalized.slice(0, SNI_LEVELS.indexOf(deepest) + 1));
+  }
+
+  /**
+   * Code prefixes matching a code and every code below it
+   * A numeric code prefixes its own subcodes; a section does not, so it is replaced by its
+   * children: "J" => ["58", ..., "63"], "62" => ["62"], "6201" => ["6201"]
+   */
+  expand(code: string): string[] {
+    const normalized = normalizeSniCode(code);
+    const children = this.children(normalized);
+    if (children.length === 0 || children.every((n) => n.code.startsWith(normalized))) {
+      return [normalized];
+    }
+    return children.flatMap((n) => this.expand(n.code));
+  }
+
+  /**
+   * Search node names (Swedish and English), most general level first
+   */
+  search(query: string, limit: number = 20): SniNode[] {
+    const q = query.toLowerCase();
+    return [...this.nodes.values()]
+      .filter((n) => n.name_sv.toLowerCase().includes(q) || n.name_en.toLowerCase().includes(q))
+      .sort((a, b) => SNI_LEVELS.indexOf(a.level) - SNI_LEVELS.indexOf(b.level))
+      .slice(0, limit);
+  }
+
+  /**
+   * Deepest bundled node for a code (the code itself, or an ancestor)
+   */
+  private nearest(code: string): SniNode | null {
+    const normalized = normalizeSniCode(code);
+    if (levelOf(normalized) === 'section') return this.nodes.get(normalized) || null;
+
+    for (let length = normalized.length; length >= 2; length--) {
+      const node = this.nodes.get(normalized.slice(0, length));
+      if (node) return node;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Why rows are not the complete SNI 2007 hierarchy: levels missing, rows whose parent
+ * is not a row, or rows without both names. Empty when complete.
+ */
+export function hierarchyProblems(rows: Array<[string, string | null, string, string]>): string[] {
+  const codes = new Set(rows.map(([code]) => code));
+  const levels = new Set(rows.map(([code]) => levelOf(code)));
+  const problems: string[] = [];
+
+  const missing = SNI_LEVELS.filter((level) => !levels.has(level));
+  if (missing.length > 0) problems.push(`missing levels: ${missing.join(', ')}`);
+
+  const orphans = rows.filter(([, parent]) => parent !== null && !codes.has(parent)).map(([code]) => code);
+  if (orphans.length > 0) {
+    problems.push(`${orphans.length} code(s) without a parent row: ${orphans.slice(0, 5).join(', ')}`);
+  }
+
+  const unnamed = rows.filter(([, , name_sv, name_en]) => !name_sv || !name_en).map(([code]) => code);
+  if (unnamed.length > 0) {
+    problems.push(`${unnamed.length} code(s) without a Swedish and English name: ${unnamed.slice(0, 5).join(', ')}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Strip dots and whitespace, upper-case section letters ("62.010" => "62010")
+ */
+export function normalizeSniCode(code: string): string {
+  return code.replace(/[\s.]/g, '').toUpperCase();
+}
+
+/**
+ * Level of a normalized code from its shape
+ */
+export function levelOf(code: string): SniLevel | null {
+  if (/^[A-U]$/.test(code)) return 'section';
+  if (!/^\d{2,5}$/.test(code)) return null;
+  return SNI_LEVELS[code.length - 1];
+}
+
+/**
+ * Global taxonomy instance
+ */
+export const sniTaxonomy = new SniTaxonomy();
@@ -0,0 +1,127 @@
+/**
+ * SNI 2007 classification data (Statistics Sweden, based on NACE Rev. 2)
+ * Generated by scripts/build-sni-taxonomy.ts - do not edit by hand.
+ *
+ * Rows are [code, parent, name_sv, name_en]. Codes are stored without dots:
+ * section "J", division "62", group "620", class "6201", subclass "62010".
+ */
+
+import { SniLevel } from '../types.js';
+
+/**
+ * Levels present in this file; codes below the deepest level are validated
+ * against their ancestor at that level
+ */
+export const SNI_2007_LEVELS: SniLevel[] = ['section', 'division'];
+
+export const SNI_2007: Array<[string, string | null, string, string]> = [
+  ['A', null, 'Jordbruk, skogsbruk och fiske', 'Agriculture, forestry and fishing'],
+  ['01', 'A', 'Växtodling och djurhållning, jakt och service i anslutning härtill', 'Crop and animal production, hunting and related service activities'],
+  ['02', 'A', 'Skogsbruk', 'Forestry and logging'],
+  ['03', 'A', 'Fiske och vattenbruk', 'Fishing and aquaculture'],
+  ['B', null, 'Utvinning av mineral', 'Mining and quarrying'],
+  ['05', 'B', 'Kolutvinning', 'Mining of coal and lignite'],
+  ['06', 'B', 'Utvinning av råpetroleum och naturgas', 'Extraction of crude petroleum and natural gas'],
+  ['07', 'B', 'Utvinning av metallmalmer', 'Mining of metal ores'],
+  ['08', 'B', 'Annan utvinning av mineral', 'Other mining and quarrying'],
+  ['09', 'B', 'Service till utvinning', 'Mining support service activities'],
+  ['C', null, 'Tillverkning', 'Manufacturing'],
+  ['10', 'C', 'Livsmedelsframställning', 'Manufacture of food products'],
+  ['11', 'C', 'Framställning av drycker', 'Manufacture of beverages'],
+  ['12', 'C', 'Tobaksvarutillverkning', 'Manufacture of tobacco products'],
+  ['13', 'C', 'Textilvarutillverkning', 'Manufacture of textiles'],
+  ['14', 'C', 'Tillverkning av kläder', 'Manufacture of wearing apparel'],
+  ['15', 'C', 'Tillverkning av läder, läder- och skinnvaror m.m.', 'Manufacture of leather and related products'],
+  ['16', 'C', 'Tillverkning av trä och varor av trä, kork, rotting o.d. utom möbler', 'Manufacture of wood and of products of wood and cork, except furniture; manufacture of articles of straw and plaiting materials'],
+  ['17', 'C', 'Pappers- och pappersvarutillverkning', 'Manufacture of paper and paper products'],
+  ['18', 'C', 'Grafisk produktion och reproduktion av inspelningar', 'Printing and reproduction of recorded media'],
+  ['19', 'C', 'Tillverkning av stenkolsprodukter och raffinerade petroleumprodukter', 'Manufacture of coke and refined petroleum products'],
+  ['20', 'C', 'Tillverkning av kemikalier och kemiska produkter', 'Manufacture of chemicals and chemical products'],
+  ['21', 'C', 'Tillverkning av farmaceutiska basprodukter och läkemedel', 'Manufacture of basic pharmaceutical products and pharmaceutical preparations'],
+  ['22', 'C', 'Tillverkning av gummi- och plastvaror', 'Manufacture of rubber and plastic products'],
+  ['23', 'C', 'Tillverkning av andra icke-metalliska mineraliska produkter', 'Manufacture of other non-metallic mineral products'],
+  ['24', 'C', 'Stål- och metallframställning', 'Manufacture of basic metals'],
+  ['25', 'C', 'Tillverkning av metallvaror utom maskiner och apparater', 'Manufacture of fabricated metal products, except machinery and equipment'],
+  ['26', 'C', 'Tillverkning av datorer, elektronikvaror och optik', 'Manufacture of computer, electronic and optical products'],
+  ['27', 'C', 'Tillverkning av elapparatur', 'Manufacture of electrical equipment'],
+  ['28', 'C', 'Tillverkning av övriga maskiner', 'Manufacture of machinery and equipment n.e.c.'],
+  ['29', 'C', 'Tillverkning av motorfordon, släpfordon och påhängsvagnar', 'Manufacture of motor vehicles, trailers and semi-trailers'],
+  ['30', 'C', 'Tillverkning av andra transportmedel', 'Manufacture of other transport equipment'],
+  ['31', 'C', 'Tillverkning av möbler', 'Manufacture of furniture'],
+  ['32', 'C', 'Annan tillverkning', 'Other manufacturing'],
+  ['33', 'C', 'Reparation och installation av maskiner och apparater', 'Repair and installation of machinery and equipment'],
+  ['D', null, 'Försörjning av el, gas, värme och kyla', 'Electricity, gas, steam and air conditioning supply'],
+  ['35', 'D', 'Försörjning av el, gas, värme och kyla', 'Electricity, gas, steam and air conditioning supply'],
+  ['E', null, 'Vattenförsörjning; avloppsrening, avfallshantering och sanering', 'Water supply; sewerage, waste management and remediation activities'],
+  ['36', 'E', 'Vattenförsörjning', 'Water collection, treatment and supply'],
+  ['37', 'E', 'Avloppsrening', 'Sewerage'],
+  ['38', 'E', 'Avfallshantering; återvinning', 'Waste collection, treatment and disposal activities; materials recovery'],
+  ['39', 'E', 'Sanering, efterbehandling av jord och vatten samt annan verksamhet för föroreningsbekämpning', 'Remediation activities and other waste management services'],
+  ['F', null, 'Byggverksamhet', 'Construction'],
+  ['41', 'F', 'Byggande av hus', 'Construction of buildings'],
+  ['42', 'F', 'Anläggningsarbeten', 'Civil engineering'],
+  ['43', 'F', 'Specialiserad bygg- och anläggningsverksamhet', 'Specialised construction activities'],
+  ['G', null, 'Handel; reparation av motorfordon och motorcyklar', 'Wholesale and retail trade; repair of motor vehicles and motorcycles'],
+  ['45', 'G', 'Handel samt reparation av motorfordon och motorcyklar', 'Wholesale and retail trade and repair of motor vehicles and motorcycles'],
+  ['46', 'G', 'Parti- och provisionshandel utom med motorfordon', 'Wholesale trade, except of motor vehicles and motorcycles'],
+  ['47', 'G', 'Detaljhandel utom med motorfordon och motorcyklar', 'Retail trade, except of motor vehicles and motorcycles'],
+  ['H', null, 'Transport och magasinering', 'Transportation and storage'],
+  ['49', 'H', 'Landtransport; transport i rörsystem', 'Land transport and transport via pipelines'],
+  ['50', 'H', 'Sjötransport', 'Water transport'],
+  ['51', 'H', 'Lufttransport', 'Air transport'],
+  ['52', 'H', 'Magasinering och stödtjänster till transport', 'Warehousing and support activities for transportation'],
+  ['53', 'H', 'Post- och kurirverksamhet', 'Postal and courier activities'],
+  ['I', null, 'Hotell- och restaurangverksamhet', 'Accommodation and food service activities'],
+  ['55', 'I', 'Hotell- och logiverksamhet', 'Accommodation'],
+  ['56', 'I', 'Restaurang-, catering- och barverksamhet', 'Food and beverage service activities'],
+  ['J', null, 'Informations- och kommunikationsverksamhet', 'Information and communication'],
+  ['58', 'J', 'Förlagsverksamhet', 'Publishing activities'],
+  ['59', 'J', 'Film-, video- och TV-programverksamhet, ljudinspelningar och fonogramutgivning', 'Motion picture, video and television programme production, sound recording and music publishing activities'],
+  ['60', 'J', 'Planering och sändning av program', 'Programming and broadcasting activities'],
+  ['61', 'J', 'Telekommunikation', 'Telecommunications'],
+  ['62', 'J', 'Dataprogrammering, datakonsultverksamhet o.d.', 'Computer programming, consultancy and related activities'],
+  ['63', 'J', 'Informationstjänster', 'Information service activities'],
+  ['K', null, 'Finans- och försäkringsverksamhet', 'Financial and insurance activities'],
+  ['64', 'K', 'Finansiella tjänster utom försäkring och pensionsfondsverksamhet', 'Financial service activities, except insurance and pension funding'],
+  ['65', 'K', 'Försäkring, återförsäkring och pensionsfondsverksamhet utom obligatorisk socialförsäkring', 'Insurance, reinsurance and pension funding, except compulsory social security'],
+  ['66', 'K', 'Stödtjänster till finansiella tjänster och försäkring', 'Activities auxiliary to financial services and insurance activities'],
+  ['L', null, 'Fastighetsverksamhet', 'Real estate activities'],
+  ['68', 'L', 'Fastighetsverksamhet', 'Real estate activities'],
+  ['M', null, 'Verksamhet inom juridik, ekonomi, vetenskap och teknik', 'Professional, scientific and technical activities'],
+  ['69', 'M', 'Juridisk och ekonomisk konsultverksamhet', 'Legal and accounting activities'],
+  ['70', 'M', 'Verksamheter som utövas av huvudkontor; konsulttjänster till företag', 'Activities of head offices; management consultancy activities'],
+  ['71', 'M', 'Arkitekt- och teknisk konsultverksamhet; teknisk provning och analys', 'Architectural and engineering activities; technical testing and analysis'],
+  ['72', 'M', 'Vetenskaplig forskning och utveckling', 'Scientific research and development'],
+  ['73', 'M', 'Reklam och marknadsundersökning', 'Advertising and market research'],
+  ['74', 'M', 'Annan verksamhet inom juridik, ekonomi, vetenskap och teknik', 'Other professional, scientific and technical activities'],
+  ['75', 'M', 'Veterinärverksamhet', 'Veterinary activities'],
+  ['N', null, 'Uthyrning, fastighetsservice, resetjänster och andra stödtjänster', 'Administrative and support service activities'],
+  ['77', 'N', 'Uthyrning och leasing', 'Rental and leasing activities'],
+  ['78', 'N', 'Arbetsförmedling, bemanning och andra personalrelaterade tjänster', 'Employment activities'],
+  ['79', 'N', 'Resebyrå- och researrangörsverksamhet och andra resetjänster och relaterade tjänster', 'Travel agency, tour operator and other reservation service and related activities'],
+  ['80', 'N', 'Säkerhets- och bevakningsverksamhet', 'Security and investigation activities'],
+  ['81', 'N', 'Fastighetsservice samt skötsel och underhåll av grönytor', 'Services to buildings and landscape activities'],
+  ['82', 'N', 'Kontorstjänster och andra företagstjänster', 'Office administrative, office support and other business support activities'],
+  ['O', null, 'Offentlig förvaltning och försvar; obligatorisk socialförsäkring', 'Public administration and defence; compulsory social security'],
+  ['84', 'O', 'Offentlig förvaltning och försvar; obligatorisk socialförsäkring', 'Public administration and defence; compulsory social security'],
+  ['P', null, 'Utbildning', 'Education'],
+  ['85', 'P', 'Utbildning', 'Education'],
+  ['Q', null, 'Vård och omsorg; sociala tjänster', 'Human health and social work activities'],
+  ['86', 'Q', 'Hälso- och sjukvård', 'Human health activities'],
+  ['87', 'Q', 'Vård och omsorg med boende', 'Residential care activities'],
+  ['88', 'Q', 'Öppna sociala insatser', 'Social work activities without accommodation'],
+  ['R', null, 'Kultur, nöje och fritid', 'Arts, entertainment and recreation'],
+  ['90', 'R', 'Konstnärlig och kulturell verksamhet samt underhållningsverksamhet', 'Creative, arts and entertainment activities'],
+  ['91', 'R', 'Biblioteks-, arkiv- och museiverksamhet m.m.', 'Libraries, archives, museums and other cultural activities'],
+  ['92', 'R', 'Spel- och vadhållningsverksamhet', 'Gambling and betting activities'],
+  ['93', 'R', 'Sport-, fritids- och nöjesverksamhet', 'Sports activities and amusement and recreation activities'],
+  ['S', null, 'Annan serviceverksamhet', 'Other service activities'],
+  ['94', 'S', 'Intressebevakning; religiös verksamhet', 'Activities of membership organisations'],
+  ['95', 'S', 'Reparation av datorer, hushållsartiklar och personliga artiklar', 'Repair of computers and personal and household goods'],
+  ['96', 'S', 'Annan serviceverksamhet', 'Other personal service activities'],
+  ['T', null, 'Förvärvsarbete i hushåll; hushållens produktion av diverse varor och tjänster för eget bruk', 'Activities of households as employers; undifferentiated goods- and services-producing activities of households for own use'],
+  ['97', 'T', 'Förvärvsarbete i hushåll', 'Activities of households as employers of domestic personnel'],
+  ['98', 'T', 'Hushållens produktion av diverse varor och tjänster för eget bruk', 'Undifferentiated goods- and services-producing activities of private households for own use'],
+  ['U', null, 'Verksamhet vid internationella organisationer, utländska ambassader o.d.', 'Activities of extraterritorial organisations and bodies'],
+  ['99', 'U', 'Verksamhet vid internationella organisationer, utländska ambassader o.d.', 'Activities of extraterritorial organisations and bodies'],
+];
@@ -12,17 +12,79 @@ export interface CompanyData {
   contact: ContactInfo;
   tax_info: TaxInfo;
   financials?: FinancialData;
+  financial_history?: FinancialYear[];
   industry: IndustryInfo;
+  group?: CompanyGroup;
   bankgiro_number?: string;
+  employees?: number;
+  employees_range?: string;
+  share_capital?: number;
+  size_class?: SizeClass;
   has_remarks: boolean;
   remarks?: string;
+  remark_details?: CompanyRemark[];
+  field_sources?: Record<string, string>;
+  field_provenance?: Record<string, FieldProvenance>;
+  origin?: CompanyOrigin;
+  imported_at?: string;
   source_url: string;
   scraped_at: string;
   updated_at?: string;
 }
 
+/**
+ * Where a cached row came from: a live scrape, or a bulk register import (not yet scraped)
+ */
+export type CompanyOrigin = 'scrape' | 'register';
+
+/**
+ * Extraction outcome for a field: a value was found, the page does not show the
+ * field at all, or the page shows it but no value could be read
+ */
+export type FieldStatus = 'found' | 'absent' | 'failed';
+
+export type FieldConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Where a field's value came from, keyed by merge field path ("contact.phone", ...)
+ */
+export interface FieldProvenance {
+  source: string; // Provider id (merinfo, allabolag, bolagsverket)
+  extracted_at: string;
+  rule?: string; // Selector, JSON key or rule that produced the value
+  status: FieldStatus;
+  confidence: FieldConfidence;
+}
+
+export const REMARK_TYPES = [
+  'payment_remark',
+  'enforcement_debt',
+  'debt_restructuring',
+  'bankruptcy',
+  'liquidation',
+  'reconstruction',
+  'unspecified',
+] as const;
+
+export type RemarkType = (typeof REMARK_TYPES)[number];
+
+export interface CompanyRemark {
+  type: RemarkType;
+  count?: number;
+  amount?: number;
+  date?: string;
+  text: string;
+  source: 'search_card' | 'company_page';
+}
+
+export const SIZE_CLASSES = ['micro', 'small', 'medium', 'large'] as const;
+
+export type SizeClass = (typeof SIZE_CLASSES)[number];
+
 export interface ContactInfo {
   phone?: string;
+  email?: string;
+  website?: string;
   address?: string;
   postal_code?: string;
   city?: string;
@@ -37,6 +99,7 @@ export interface TaxInfo {
 }
 
 export interface FinancialData {
+  fiscal_year?: number;
   period?: string;
   revenue?: number;
   profit_after_financial?: number;
@@ -45,6 +108,25 @@ export interface FinancialData {
   currency: string;
 }
 
+export interface FinancialYear extends FinancialData {
+  fiscal_year: number;
+  revenue_growth_pct?: number | null;
+  net_profit_growth_pct?: number | null;
+  total_assets_growth_pct?: number | null;
+}
+
+/**
+ * Corporate group membership (koncern)
+ */
+export interface CompanyGroup {
+  parent_org_number?: string;
+  parent_name?: string;
+  top_org_number?: string;
+  top_name?: string;
+  subsidiaries_count?: number;
+  group_size?: number;
+}
+
 export interface IndustryInfo {
   sni_code?: string;
   sni_description?: string;
@@ -52,6 +134,49 @@ export interface IndustryInfo {
   activity_description?: string;
 }
 
+/**
+ * SNI 2007 industry classification levels, from broadest to most specific
+ */
+export const SNI_LEVELS = ['section', 'division', 'group', 'class', 'subclass'] as const;
+
+export type SniLevel = (typeof SNI_LEVELS)[number];
+
+export interface SniNode {
+  code: string;
+  level: SniLevel;
+  parent: string | null;
+  name_sv: string;
+  name_en: string;
+}
+
+/**
+ * Normalized board and management roles
+ */
+export const BOARD_ROLES = [
+  'VD',
+  'Vice VD',
+  'Ordförande',
+  'Styrelseledamot',
+  'Styrelsesuppleant',
+  'Huvudansvarig revisor',
+  'Revisor',
+  'Revisorssuppleant',
+  'Firmatecknare',
+  'Extern firmatecknare',
+  'Innehavare',
+  'Komplementär',
+  'Kommanditdelägare',
+  'Bolagsman',
+  'Likvidator',
+  'Avvecklare',
+  'Prokurist',
+  'Lekmannarevisor',
+  'Delgivningsmottagare',
+  'Övrig',
+] as const;
+
+export type BoardRole = (typeof BOARD_ROLES)[number];
+
 export interface PersonDetails {
   id?: number;
   org_number: string;
@@ -59,9 +184,11 @@ export interface PersonDetails {
   role: string;
   personal_number?: string;
   age?: number;
+  age_range?: string;
   phone?: string;
   address: PersonAddress;
   profile_url?: string;
+  source?: string;
   scraped_at?: string;
 }
 
@@ -72,6 +199,25 @@ export interface PersonAddress {
   city?: string;
 }
 
+export interface PersonEngagement {
+  org_number: string;
+  company_name: string;
+  role: string;
+  current: boolean;
+  from_date?: string;
+  to_date?: string;
+  company_url?: string;
+}
+
+export interface PersonProfile {
+  name: string;
+  age?: number;
+  age_range?: string;
+  profile_url: string;
+  engagements: PersonEngagement[];
+  scraped_at: string;
+}
+
 export interface CompanySearchResult {
   success: boolean;
   cached: boolean;
@@ -80,6 +226,356 @@ export interface CompanySearchResult {
   cache_age_days?: number;
 }
 
+export interface CompanySearchCandidate {
+  org_number: string;
+  name: string;
+  city?: string;
+  status?: string;
+  has_remarks: boolean;
+  url: string;
+}
+
+/**
+ * Legal-entity group of a Swedish identity number
+ * Organization numbers encode it in the leading digit; sole traders use a personal number
+ */
+export type EntityGroup =
+  | 'estate'
+  | 'public_sector'
+  | 'foreign_company'
+  | 'limited_company'
+  | 'simple_partnership'
+  | 'economic_association'
+  | 'non_profit_association'
+  | 'trading_partnership'
+  | 'sole_trader';
+
+export interface IdentityNumberCheck {
+  input: string;
+  valid: boolean;
+  normalized?: string; // XXXXXX-XXXX
+  kind?: 'organization' | 'personal' | 'coordination';
+  entity_group?: EntityGroup;
+  entity_description?: string; // Swedish name of the group
+  error?: string;
+}
+
+export interface FieldResolution {
+  resolved: boolean;
+  selector?: string;
+  fallback?: boolean;
+  anchor_found?: boolean; // Unresolved, but a rule's label or container was on the page
+}
+
+export interface ExtractionReport {
+  page_type: 'company' | 'person';
+  registry_version: string;
+  url: string;
+  fields: Record<string, FieldResolution>;
+}
+
+export interface ScrapeResult {
+  company: CompanyData;
+  board_members: PersonDetails[];
+  extraction: ExtractionReport[];
+}
+
+/**
+ * Request interception rules for browser pages
+ * Domain patterns match the host and its subdomains; `*` is a wildcard.
+ * allow_domains overrides both block lists.
+ */
+export interface RequestBlockingRules {
+  block_resource_types: string[];
+  block_domains: string[];
+  allow_domains: string[];
+}
+
+export const PAGE_CLASSES = [
+  'ok',
+  'search_limit',
+  'captcha',
+  'forbidden',
+  'http_error',
+  'maintenance',
+  'not_found',
+  'no_results',
+] as const;
+
+export type PageClass = (typeof PAGE_CLASSES)[number];
+
+/**
+ * Page classes that mean the site is blocking us (count towards the circuit breaker)
+ */
+export const BLOCKING_PAGE_CLASSES: readonly PageClass[] = ['search_limit', 'captcha', 'forbidden', 'maintenance'];
+
+export interface PageClassification {
+  page_class: PageClass;
+  status?: number;
+  detail?: string;
+}
+
+/**
+ * Debug snapshot saved when a scrape fails or comes back partial
+ */
+export interface FailureArtifact {
+  id: string;
+  kind: 'failed' | 'partial';
+  operation: string;
+  key: string;
+  error?: string;
+  error_name?: string;
+  page_class?: PageClass;
+  missing_fields?: string[];
+  url?: string;
+  url_chain: string[];
+  captured_at: string;
+  files: { screenshot?: string; html?: string; meta: string };
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Persisted circuit breaker state for one site
+ */
+export interface CircuitBreakerState {
+  name: string;
+  state: CircuitState;
+  consecutive_blocks: number;
+  trips: number;
+  opened_at?: string;
+  retry_at?: string;
+  last_page_class?: PageClass;
+  updated_at: string;
+}
+
+/**
+ * One configured outbound proxy
+ * `id` is the server URL without credentials and is safe to show
+ */
+export interface ProxyConfig {
+  id: string;
+  server: string;
+  username?: string;
+  password?: string;
+}
+
+export type ProxyStatus = 'active' | 'cooling_down';
+
+export interface ProxyHealth {
+  id: string;
+  status: ProxyStatus;
+  contexts_opened: number;
+  successes: number;
+  failures: number;
+  search_limit_hits: number;
+  cooldown_until?: string;
+  last_used_at?: string;
+  last_error?: string;
+}
+
+/**
+ * Allowed vs blocked requests for one page (or the pool total)
+ */
+export interface RequestStats {
+  allowed: number;
+  blocked: number;
+  blocked_by_type: Record<string, number>;
+  blocked_by_domain: Record<string, number>;
+}
+
+/**
+ * Browser context leases: how busy the pool is and how long callers wait
+ */
+export interface BrowserPoolStats {
+  max_contexts: number;
+  open_contexts: number;
+  leased: number;
+  idle: number;
+  waiting: number;
+  utilization: number;
+  leases_granted: number;
+  avg_wait_ms: number;
+  max_wait_ms: number;
+  acquire_timeouts: number;
+  contexts_replaced: number;
+}
+
+export const SCRAPE_JOB_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const;
+
+export type ScrapeJobStatus = (typeof SCRAPE_JOB_STATUSES)[number];
+
+export interface ScrapeJob {
+  id: number;
+  org_number: string;
+  priority: number;
+  status: ScrapeJobStatus;
+  attempts: number;
+  include_board: boolean;
+  error_message?: string;
+  available_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QueueSummary {
+  counts: Record<ScrapeJobStatus, number>;
+  next_job?: ScrapeJob;
+  oldest_pending_at?: string;
+  worker_running?: boolean;
+}
+
+/**
+ * One company from a Bolagsverket bulk register file
+ */
+export interface RegisterCompany {
+  org_number: string;
+  name: string;
+  legal_form?: string;
+  status?: string;
+  registration_date?: string;
+  address?: string;
+  postal_code?: string;
+  city?: string;
+  activity_description?: string;
+}
+
+export interface RegisterImportResult {
+  file: string;
+  rows_read: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  errors: Array<{ row: number; error: string }>;
+  duration_ms: number;
+}
+
+/**
+ * Raw page kept in the page archive for offline re-parsing
+ */
+export interface ArchivedPage {
+  source: string;
+  kind: 'company' | 'person';
+  org_number: string;
+  url: string;
+  html: string;
+  fetched_at: string;
+}
+
+export interface PageArchiveStats {
+  enabled: boolean;
+  path: string;
+  pages: number;
+  companies: number;
+  pages_by_source: Record<string, number>;
+  raw_mb: number;
+  compressed_mb: number;
+}
+
+export interface ReparseResult {
+  companies_read: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  people_saved: number;
+  changed_fields: Record<string, number>;
+  errors: Array<{ org_number: string; error: string }>;
+  dry_run: boolean;
+  duration_ms: number;
+}
+
+/**
+ * The person a data access or erasure request is about: a merinfo profile URL, or a
+ * name plus birth year (a name alone is not enough to tell people apart)
+ */
+export interface DataSubject {
+  name?: string;
+  birth_year?: number;
+  profile_url?: string;
+}
+
+/**
+ * Erasure either removes a person's rows or keeps them, stripped of everything personal,
+ * so board rosters stay complete
+ */
+export type ErasureMode = 'delete' | 'anonymize';
+
+/**
+ * Everything stored about a data subject
+ * Rows with the same name but no age or personal number cannot be confirmed as the
+ * subject; they are listed for review but never erased.
+ */
+export interface PersonDataExport {
+  subject: DataSubject;
+  exported_at: string;
+  suppressed: ErasureMode | null;
+  people: PersonDetails[];
+  unverified_matches: PersonDetails[];
+  profiles: PersonProfile[];
+  archived_pages: ArchivedPage[];
+  archived_company_pages: string[];
+  failure_artifacts: FailureArtifact[];
+}
+
+export interface PersonErasureResult {
+  subject: DataSubject;
+  mode: ErasureMode;
+  people_deleted: number;
+  people_anonymized: number;
+  engagements_deleted: number;
+  archived_pages_deleted: number;
+  failure_artifacts_deleted: number;
+  profile_urls: number;
+  unverified_matches: number;
+  suppressed: boolean;
+  dry_run: boolean;
+}
+
+/**
+ * Partial company data from one source, before merging
+ */
+export interface ProviderResult {
+  provider: string;
+  company: Partial<CompanyData> & { org_number: string };
+  board_members?: PersonDetails[];
+  extraction?: ExtractionReport[];
+  source_url?: string;
+  fetched_at: string;
+}
+
+/**
+ * A source of company data (merinfo.se, allabolag.se, ...)
+ * Optional methods are capabilities only some sources have
+ */
+export interface CompanyDataProvider {
+  readonly id: string;
+  readonly description: string;
+  readonly base_url: string;
+  fetchCompany(org_number: string, options: { include_board: boolean }): Promise<ProviderResult>;
+  searchByName?(query: string, limit: number, max_pages: number): Promise<CompanySearchCandidate[]>;
+  fetchPersonEngagements?(profile_url: string): Promise<PersonProfile>;
+}
+
+/**
+ * Which provider wins per field: `fields` overrides for specific paths
+ * (e.g. "financials", "contact.phone"), otherwise `default_order`
+ */
+export interface MergePolicy {
+  default_order: string[];
+  fields: Record<string, string[]>;
+}
+
+export interface SelectorHealth {
+  page_type: string;
+  field: string;
+  recent_hit_rate: number;
+  baseline_hit_rate: number | null;
+  recent_samples: number;
+  baseline_samples: number;
+  last_selector?: string;
+  drift: boolean;
+}
+
 export interface CacheStats {
   total_companies: number;
   total_people: number;
@@ -88,6 +584,7 @@ export interface CacheStats {
   cache_size_mb: number;
   companies_by_city: Record<string, number>;
   companies_by_status: Record<string, number>;
+  companies_by_origin: Record<string, number>;
 }
 
 export interface RateLimitInfo {
@@ -124,6 +621,90 @@ export class ScraperError extends Error {
   }
 }
 
+/**
+ * The site answered with a block page (search limit, captcha, maintenance) instead of content
+ */
+export class BlockedPageError extends ScraperError {
+  public page_class: PageClass;
+
+  constructor(page_class: PageClass, message: string) {
+    super(message, false);
+    this.name = 'BlockedPageError';
+    this.page_class = page_class;
+  }
+}
+
+/**
+ * merinfo.se served its "Oops, din sökgräns är nådd!" page; the current proxy/IP is throttled
+ */
+export class SearchLimitError extends BlockedPageError {
+  constructor(message = 'Search limit reached on merinfo.se') {
+    super('search_limit', message);
+    this.name = 'SearchLimitError';
+    // Worth retrying through another proxy; callers only list it when one will be used
+    this.retryable = true;
+  }
+}
+
+/**
+ * A page fetched over plain HTTP lacks content that only renders with JavaScript
+ */
+export class NeedsJavaScriptError extends ScraperError {
+  public url: string;
+
+  constructor(url: string, reason: string) {
+    super(`${url} needs JavaScript (${reason})`, false);
+    this.name = 'NeedsJavaScriptError';
+    this.url = url;
+  }
+}
+
+/**
+ * Live scraping of a site is paused because it has been blocking us
+ */
+export class CircuitOpenError extends RateLimitError {
+  public circuit: string;
+
+  constructor(circuit: string, retry_after_ms: number, reason?: string) {
+    super(
+      `Live scraping of ${circuit} is paused${reason ? ` (${reason})` : ''}; retry in ${Math.ceil(retry_after_ms / 1000)}s`,
+      retry_after_ms
+    );
+    this.name = 'CircuitOpenError';
+    this.circuit = circuit;
+  }
+}
+
+/**
+ * How scrapers load pages: Playwright, plain HTTP with a browser fallback, or HTTP only
+ */
+export type FetchMode = 'browser' | 'http' | 'http_only';
+
+/**
+ * How a redaction profile treats each personal-data field. Name and age can be
+ * generalized; the rest are kept or dropped. Phone, email and address rules also
+ * apply to sole traders, whose organization number is a personal identity number.
+ */
+export interface RedactionRules {
+  name: 'keep' | 'initials' | 'pseudonym';
+  personal_number: 'keep' | 'drop';
+  age: 'keep' | 'range' | 'drop';
+  phone: 'keep' | 'drop';
+  email: 'keep' | 'drop';
+  street: 'keep' | 'drop';
+  apartment: 'keep' | 'drop';
+  postal_code: 'keep' | 'drop';
+  city: 'keep' | 'drop';
+  profile_url: 'keep' | 'drop';
+}
+
+/**
+ * A custom redaction profile: overrides on top of another profile
+ */
+export interface RedactionProfileConfig extends Partial<RedactionRules> {
+  extends?: string;
+}
+
 // Configuration
 export interface MCPConfig {
   database_path: string;
@@ -137,6 +718,34 @@ export interface MCPConfig {
   log_level: string;
   enable_person_details: boolean;
   enable_background_refresh: boolean;
+  providers_enabled: string[];
+  provider_field_priority: Record<string, string[]>;
+  register_import_dir: string;
+  queue_worker_enabled: boolean;
+  queue_max_attempts: number;
+  queue_poll_interval_ms: number;
+  refresh_interval_minutes: number;
+  refresh_rate_share: number;
+  request_blocking: RequestBlockingRules;
+  proxies: string[];
+  proxy_cooldown_minutes: number;
+  circuit_breaker_threshold: number;
+  circuit_breaker_cooldown_minutes: number;
+  artifacts_enabled: boolean;
+  artifacts_dir: string;
+  artifacts_max_count: number;
+  artifacts_max_age_days: number;
+  page_archive_enabled: boolean;
+  page_archive_path: string;
+  browser_max_contexts: number;
+  browser_acquire_timeout_ms: number;
+  scrape_fetch_mode: FetchMode;
+  redaction_profile: string;
+  redaction_profiles: Record<string, RedactionProfileConfig>;
+  redaction_salt: string;
+  client_api_keys: Record<string, string>;
+  admin_tools_enabled: boolean;
+  admin_api_keys: string[];
 }
 
 export const DEFAULT_CONFIG: MCPConfig = {
@@ -150,5 +759,67 @@ export const DEFAULT_CONFIG: MCPConfig = {
   max_cache_size: parseInt(process.env.MAX_CACHE_SIZE || '10000'),
   log_level: process.env.LOG_LEVEL || 'info',
   enable_person_details: process.env.ENABLE_PERSON_DETAILS !== 'false',
-  enable_background_refresh: process.env.ENABLE_BACKGROUND_REFRESH === 'true'
+  enable_background_refresh: process.env.ENABLE_BACKGROUND_REFRESH === 'true',
+  providers_enabled: (process.env.PROVIDERS_ENABLED || 'merinfo')
+    .split(',')
+    .map((p) => p.trim())
+    .filter((p) => p),
+  provider_field_priority: JSON.parse(process.env.PROVIDER_FIELD_PRIORITY || '{}'),
+  register_import_dir: process.env.REGISTER_IMPORT_DIR || './data/import',
+  queue_worker_enabled: process.env.QUEUE_WORKER_ENABLED !== 'false',
+  queue_max_attempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '3'),
+  queue_poll_interval_ms: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '5000'),
+  refresh_interval_minutes: parseInt(process.env.REFRESH_INTERVAL_MINUTES || '60'),
+  refresh_rate_share: parseFloat(process.env.REFRESH_RATE_SHARE || '0.25'),
+  proxies: (process.env.PROXY_LIST || '')
+    .split(',')
+    .map((p) => p.trim())
+    .filter((p) => p),
+  proxy_cooldown_minutes: parseInt(process.env.PROXY_COOLDOWN_MINUTES || '30'),
+  circuit_breaker_threshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '3'),
+  circuit_breaker_cooldown_minutes: parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MINUTES || '15'),
+  artifacts_enabled: process.env.ARTIFACTS_ENABLED !== 'false',
+  artifacts_dir: process.env.ARTIFACTS_DIR || './data/artifacts',
+  artifacts_max_count: parseInt(process.env.ARTIFACTS_MAX_COUNT || '200'),
+  artifacts_max_age_days: parseInt(process.env.ARTIFACTS_MAX_AGE_DAYS || '14'),
+  page_archive_enabled: process.env.PAGE_ARCHIVE_ENABLED !== 'false',
+  page_archive_path: process.env.PAGE_ARCHIVE_PATH || './data/pages.db',
+  browser_max_contexts: parseInt(process.env.BROWSER_MAX_CONTEXTS || '3'),
+  browser_acquire_timeout_ms: parseInt(process.env.BROWSER_ACQUIRE_TIMEOUT_MS || '60000'),
+  scrape_fetch_mode: (process.env.SCRAPE_FETCH_MODE as FetchMode) || 'browser',
+  redaction_profile: process.env.REDACTION_PROFILE || 'full',
+  redaction_profiles: JSON.parse(process.env.REDACTION_PROFILES || '{}'),
+  redaction_salt: process.env.REDACTION_SALT || '',
+  client_api_keys: Object.fromEntries(
+    (process.env.CLIENT_API_KEYS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry)
+      .map((entry) => {
+        const separator = entry.lastIndexOf(':');
+        return separator > 0 ? [entry.slice(0, separator), entry.slice(separator + 1)] : [entry, ''];
+      })
+  ),
+  admin_tools_enabled: process.env.ADMIN_TOOLS_ENABLED === 'true',
+  admin_api_keys: (process.env.ADMIN_API_KEYS || '')
+    .split(',')
+    .map((k) => k.trim())
+    .filter((k) => k),
+  request_blocking: {
+    block_resource_types: (process.env.BLOCK_RESOURCE_TYPES ?? 'image,media,font,stylesheet')
+      .split(',')
+      .map((t) => t.trim())
+      .filter((t) => t),
+    block_domains: (
+      process.env.BLOCK_DOMAINS ??
+      'google-analytics.com,googletagmanager.com,doubleclick.net,googlesyndication.com,googleadservices.com,facebook.net,hotjar.com,clarity.ms,adnxs.com,criteo.com'
+    )
+      .split(',')
+      .map((d) => d.trim())
+      .filter((d) => d),
+    allow_domains: (process.env.ALLOW_DOMAINS || '')
+      .split(',')
+      .map((d) => d.trim())
+      .filter((d) => d),
+  },
 };
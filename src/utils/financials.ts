@@ -0,0 +1,52 @@
+/**
+ * Financial time-series helpers
+ */
+
+import { FinancialYear } from '../types.js';
+
+/**
+ * Percentage change between two values, rounded to one decimal
+ * Returns null when either value is missing or the base is zero
+ */
+export function growthPct(current: number | undefined, previous: number | undefined): number | null {
+  if (current === undefined || previous === undefined || previous === 0) return null;
+  return Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+}
+
+/**
+ * Sort by fiscal year (oldest first) and add year-over-year growth
+ * Growth is only computed between consecutive fiscal years
+ */
+export function withGrowth(history: FinancialYear[]): FinancialYear[] {
+  const sorted = [...history].sort((a, b) => a.fiscal_year - b.fiscal_year);
+
+  return sorted.map((year, i) => {
+    const previous = i > 0 && sorted[i - 1].fiscal_year === year.fiscal_year - 1 ? sorted[i - 1] : undefined;
+
+    return {
+      ...year,
+      revenue_growth_pct: growthPct(year.revenue, previous?.revenue),
+      net_profit_growth_pct: growthPct(year.net_profit, previous?.net_profit),
+      total_assets_growth_pct: growthPct(year.total_assets, previous?.total_assets),
+    };
+  });
+}
+
+/**
+ * Compound annual growth rate for revenue over the whole series
+ */
+export function revenueCagrPct(history: FinancialYear[]): number | null {
+  const withRevenue = history
+    .filter((y) => y.revenue !== undefined && y.revenue > 0)
+    .sort((a, b) => a.fiscal_year - b.fiscal_year);
+
+  if (withRevenue.length < 2) return null;
+
+  const first = withRevenue[0];
+  const last = withRevenue[withRevenue.length - 1];
+  const years = last.fiscal_year - first.fiscal_year;
+  if (years <= 0) return null;
+
+  const cagr = Math.pow(last.revenue! / first.revenue!, 1 / years) - 1;
+  return Math.round(cagr * 1000) / 10;
+}
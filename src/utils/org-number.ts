@@ -0,0 +1,121 @@
+/**
+ * Swedish identity numbers
+ * Organization numbers, and the personal identity numbers sole traders (enskild firma)
+ * trade under. Checks format, date and Luhn checksum, and infers the legal-entity
+ * group from the leading digit. Offline only.
+ */
+
+import { EntityGroup, IdentityNumberCheck } from '../types.js';
+
+/**
+ * Legal-entity group per leading digit of an organization number
+ */
+const ENTITY_GROUPS: Record<string, { group: EntityGroup; description: string }> = {
+  '1': { group: 'estate', description: 'Dödsbo' },
+  '2': { group: 'public_sector', description: 'Stat, region, kommun eller församling' },
+  '3': { group: 'foreign_company', description: 'Utländskt företag' },
+  '5': { group: 'limited_company', description: 'Aktiebolag' },
+  '6': { group: 'simple_partnership', description: 'Enkelt bolag' },
+  '7': {
+    group: 'economic_association',
+    description: 'Ekonomisk förening, bostadsrättsförening eller samfällighet',
+  },
+  '8': { group: 'non_profit_association', description: 'Ideell förening eller stiftelse' },
+  '9': { group: 'trading_partnership', description: 'Handelsbolag eller kommanditbolag' },
+};
+
+const SOLE_TRADER = { group: 'sole_trader' as const, description: 'Enskild näringsidkare' };
+
+/**
+ * Validate a Swedish organization or personal identity number
+ * Accepts XXXXXX-XXXX, 10 or 12 digits (with a "16" prefix or birth century), and a
+ * "+" separator; normalizes to the 10-digit XXXXXX-XXXX form used as the cache key.
+ */
+export function checkIdentityNumber(input: string): IdentityNumberCheck {
+  const invalid = (error: string): IdentityNumberCheck => ({ input, valid: false, error });
+
+  const trimmed = input.trim().replace(/\s/g, '');
+  if (!/^(\d{6}|\d{8})[-+]?\d{4}$/.test(trimmed)) {
+    return invalid('Expected XXXXXX-XXXX, or 12 digits for a personal identity number');
+  }
+
+  let digits = trimmed.replace(/[-+]/g, '');
+  let century: string | undefined;
+
+  if (digits.length === 12) {
+    // Skatteverket writes organization numbers with a "16" prefix
+    if (digits.startsWith('16')) {
+      digits = digits.slice(2);
+      if (digits[2] < '2') return invalid('A "16" prefix is only used with organization numbers');
+    } else if (/^(18|19|20)/.test(digits)) {
+      century = digits.slice(0, 2);
+      digits = digits.slice(2);
+
+      // "+" is written once a person turns 100
+      const birthYear = parseInt(century + digits.slice(0, 2));
+      if (trimmed.includes('+') && new Date().getUTCFullYear() - birthYear < 100) {
+        return invalid(`A "+" separator means 100 or older, which contradicts birth year ${birthYear}`);
+      }
+    } else {
+      return invalid('12-digit numbers start with "16" or a birth century (18, 19, 20)');
+    }
+  }
+
+  const month = parseInt(digits.slice(2, 4));
+  const isOrganization = month >= 20;
+  if (century && isOrganization) {
+    return invalid('Organization numbers do not have a birth century');
+  }
+
+  const entity = isOrganization ? ENTITY_GROUPS[digits[0]] : SOLE_TRADER;
+  if (!entity) {
+    return invalid(`No legal-entity group uses leading digit ${digits[0]}`);
+  }
+
+  let kind: IdentityNumberCheck['kind'] = 'organization';
+  if (!isOrganization) {
+    const day = parseInt(digits.slice(4, 6));
+    // Coordination numbers (samordningsnummer) add 60 to the day
+    kind = day > 60 ? 'coordination' : 'personal';
+
+    if (!isValidDate(century, digits.slice(0, 2), month, day > 60 ? day - 60 : day)) {
+      return invalid(`${digits.slice(0, 6)} is neither an organization number nor a valid birth date`);
+    }
+  }
+
+  const expected = luhnCheckDigit(digits.slice(0, 9));
+  if (digits[9] !== String(expected)) {
+    return invalid(`Checksum digit is ${digits[9]}, expected ${expected}`);
+  }
+
+  return {
+    input,
+    valid: true,
+    normalized: `${digits.slice(0, 6)}-${digits.slice(6)}`,
+    kind,
+    entity_group: entity.group,
+    entity_description: entity.description,
+  };
+}
+
+/**
+ * Luhn check digit for the first nine digits (weights 2, 1, 2, ... from the left)
+ */
+export function luhnCheckDigit(nineDigits: string): number {
+  let sum = 0;
+
+  for (const [i, char] of [...nineDigits].entries()) {
+    const product = parseInt(char) * (i % 2 === 0 ? 2 : 1);
+    sum += product > 9 ? product - 9 : product;
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+function isValidDate(century: string | undefined, yy: string, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+
+  // Without a century, allow February 29 in any year
+  const year = century ? parseInt(century + yy) : 2000;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
@@ -3,6 +3,9 @@
  * Adapted from allabolag parser patterns
  */
 
+import { BoardRole, CompanyRemark, RemarkType, SizeClass } from '../types.js';
+import { checkIdentityNumber } from './org-number.js';
+
 /**
  * Parse Swedish numeric values
  * Handles: "1 000 000", "1,234.56", "25%", "-", ""
@@ -99,7 +102,7 @@ export function parseAddress(address: string | null | undefined): {
 export function parseApartment(address: string | null | undefined): string | null {
   if (!address) return null;
 
-  const match = address.match(/lghnr?\s?(\d{4})/i);
+  const match = address.match(/lgh(?:nr)?\s?(\d{4})/i);
   return match ? `lgh ${match[1]}` : null;
 }
 
@@ -118,13 +121,14 @@ export function extractOrgNumber(text: string | null | undefined): string | null
 
 /**
  * Normalize organization number to format: XXXXXX-XXXX
+ * Rejects numbers with a bad checksum or date before they cost a scrape
  */
 export function normalizeOrgNumber(org_number: string): string {
-  const cleaned = org_number.replace(/[^0-9]/g, '');
-  if (cleaned.length !== 10) {
-    throw new Error(`Invalid organization number: ${org_number}`);
+  const check = checkIdentityNumber(org_number);
+  if (!check.valid) {
+    throw new Error(`Invalid organization number: ${org_number} (${check.error})`);
   }
-  return `${cleaned.slice(0, 6)}-${cleaned.slice(6)}`;
+  return check.normalized!;
 }
 
 /**
@@ -165,3 +169,146 @@ export function parseAge(text: string | null | undefined): number | null {
   const age = parseInt(match[1]);
   return isNaN(age) ? null : age;
 }
+
+/**
+ * Normalize a Swedish role label to a known board role
+ * "Ordinarie ledamot" => "Styrelseledamot", "Verkställande direktör" => "VD"
+ */
+export function normalizeRole(text: string | null | undefined): BoardRole | null {
+  if (!text) return null;
+
+  const lower = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const words = lower.split(/[^a-zåäöé]+/);
+
+  // Order matters: more specific labels first
+  if (lower.includes('revisorssuppleant')) return 'Revisorssuppleant';
+  if (lower.includes('huvudansvarig revisor')) return 'Huvudansvarig revisor';
+  if (lower.includes('lekmannarevisor')) return 'Lekmannarevisor';
+  if (lower.includes('revisor')) return 'Revisor';
+  if (lower.includes('suppleant')) return 'Styrelsesuppleant';
+  if (lower.includes('extern firmatecknare')) return 'Extern firmatecknare';
+  if (lower.includes('firmatecknare')) return 'Firmatecknare';
+  if (lower.includes('vice verkställande direktör') || lower.includes('vice vd') || words.includes('vvd')) {
+    return 'Vice VD';
+  }
+  if (lower.includes('verkställande direktör') || words.includes('vd')) return 'VD';
+  if (lower.includes('ordförande')) return 'Ordförande';
+  if (lower.includes('ledamot')) return 'Styrelseledamot';
+  if (lower.includes('innehavare')) return 'Innehavare';
+  if (lower.includes('komplementär')) return 'Komplementär';
+  if (lower.includes('kommanditdelägare')) return 'Kommanditdelägare';
+  if (lower.includes('bolagsman')) return 'Bolagsman';
+  if (lower.includes('likvidator')) return 'Likvidator';
+  if (lower.includes('avvecklare')) return 'Avvecklare';
+  if (lower.includes('prokurist')) return 'Prokurist';
+  if (lower.includes('delgivningsmottagare')) return 'Delgivningsmottagare';
+
+  return null;
+}
+
+/**
+ * Parse a remark/warning text into structured form
+ * "3 betalningsanmärkningar, senast 2024-02-01" => { type: 'payment_remark', count: 3, date: '2024-02-01' }
+ */
+export function parseRemark(
+  text: string | null | undefined,
+  source: CompanyRemark['source']
+): CompanyRemark | null {
+  const cleaned = cleanText(text);
+  if (!cleaned) return null;
+
+  const lower = cleaned.toLowerCase();
+  let type: RemarkType = 'unspecified';
+
+  if (lower.includes('betalningsanmärkning')) type = 'payment_remark';
+  else if (lower.includes('skuldsanering')) type = 'debt_restructuring';
+  else if (lower.includes('kronofogden') || lower.includes('utmätning')) type = 'enforcement_debt';
+  else if (lower.includes('rekonstruktion')) type = 'reconstruction';
+  else if (lower.includes('konkurs')) type = 'bankruptcy';
+  else if (lower.includes('likvidation')) type = 'liquidation';
+
+  const count = cleaned.match(/(\d+)\s*(st\b|betalningsanmärkning|anmärkning|ärenden?)/i);
+  const amount = cleaned.match(/(\d[\d\s\u00a0]*)\s*(kr|sek)\b/i);
+  const date = cleaned.match(/\d{4}-\d{2}(-\d{2})?/);
+
+  return {
+    type,
+    count: count ? parseInt(count[1]) : undefined,
+    amount: amount ? parseValue(amount[1]) ?? undefined : undefined,
+    date: date ? date[0] : undefined,
+    text: cleaned,
+    source,
+  };
+}
+
+/**
+ * Parse an amount with unit into SEK
+ * "25 000 kr" => 25000, "50 tkr" => 50000, "1,5 mkr" => 1500000
+ */
+export function parseAmount(text: string | null | undefined): number | null {
+  if (!text) return null;
+
+  const lower = text.toLowerCase();
+  const multiplier = /mkr|msek|miljoner/.test(lower) ? 1_000_000 : /tkr|tsek/.test(lower) ? 1000 : 1;
+  const number = lower.match(/-?\d[\d\s\u00a0]*(?:[.,]\d+)?/);
+  if (!number) return null;
+
+  const value = parseValue(number[0]);
+  return value !== null ? Math.round(value * multiplier) : null;
+}
+
+/**
+ * Parse employee count, which merinfo shows as a number or a range
+ * "12" => { count: 12 }, "10-19" => { count: 10, range: '10-19' }
+ */
+export function parseEmployees(text: string | null | undefined): { count?: number; range?: string } {
+  const cleaned = cleanText(text);
+  if (!cleaned) return {};
+
+  const range = cleaned.match(/(\d+)\s*[-–]\s*(\d+)/);
+  if (range) {
+    return { count: parseInt(range[1]), range: `${range[1]}-${range[2]}` };
+  }
+
+  const single = cleaned.match(/\d+/);
+  return single ? { count: parseInt(single[0]) } : {};
+}
+
+/**
+ * Normalize a Swedish size class label ("Mikroföretag", "Små företag", ...)
+ */
+export function parseSizeClass(text: string | null | undefined): SizeClass | null {
+  if (!text) return null;
+
+  const lower = text.toLowerCase();
+  if (lower.includes('mikro')) return 'micro';
+  if (lower.includes('små') || lower.includes('litet') || lower.includes('small')) return 'small';
+  if (lower.includes('medel') || lower.includes('medium')) return 'medium';
+  if (lower.includes('stor') || lower.includes('large')) return 'large';
+
+  return null;
+}
+
+/**
+ * Derive the EU SME size class from employees and financials (SEK)
+ * Uses the headcount plus either the turnover or the balance sheet ceiling
+ */
+export function deriveSizeClass(
+  employees: number | undefined,
+  revenue: number | undefined,
+  total_assets: number | undefined
+): SizeClass | null {
+  if (employees === undefined) return null;
+
+  const EUR_SEK = 11;
+  const within = (maxEmployees: number, maxTurnoverMEur: number, maxAssetsMEur: number) =>
+    employees < maxEmployees &&
+    ((revenue !== undefined && revenue <= maxTurnoverMEur * 1_000_000 * EUR_SEK) ||
+      (total_assets !== undefined && total_assets <= maxAssetsMEur * 1_000_000 * EUR_SEK) ||
+      (revenue === undefined && total_assets === undefined));
+
+  if (within(10, 2, 2)) return 'micro';
+  if (within(50, 10, 10)) return 'small';
+  if (within(250, 50, 43)) return 'medium';
+  return 'large';
+}
@@ -0,0 +1,76 @@
+/**
+ * Matching stored people against a data subject
+ * A profile URL identifies one person. A name does so only together with a birth year,
+ * taken from the personal number or from the age at scrape time.
+ */
+
+import { createHash } from 'crypto';
+import { DataSubject, PersonDetails } from '../types.js';
+
+/**
+ * Name stored in place of an anonymized person's
+ */
+export const ANONYMIZED_NAME = 'Anonymized person';
+
+/**
+ * Name for comparison: case, spacing and Unicode form ignored
+ */
+export function nameKey(name: string): string {
+  return name.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * One-way hash of an identifier, so suppression lists do not store the data they suppress
+ */
+export function identifierHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Possible birth years of a stored person; empty when nothing dates them
+ */
+export function birthYears(person: Pick<PersonDetails, 'personal_number' | 'age' | 'scraped_at'>): number[] {
+  const digits = person.personal_number?.replace(/\D/g, '');
+  if (digits?.length === 12) return [parseInt(digits.slice(0, 4))];
+
+  const yy = digits?.length === 10 ? parseInt(digits.slice(0, 2)) : undefined;
+  if (person.age !== undefined && person.age !== null) {
+    // The birthday may not have passed yet in the year the age was scraped
+    const year = (person.scraped_at ? new Date(person.scraped_at) : new Date()).getUTCFullYear();
+    const years = [year - person.age, year - person.age - 1];
+    return yy === undefined ? years : years.filter((y) => y % 100 === yy);
+  }
+
+  if (yy !== undefined) {
+    return [1900 + yy, 2000 + yy].filter((y) => y <= new Date().getUTCFullYear());
+  }
+  return [];
+}
+
+/**
+ * Whether a stored person is the subject: 'match', 'unverified' for the same name with
+ * no birth year to check, or null
+ */
+export function matchPerson(person: PersonDetails, subject: DataSubject): 'match' | 'unverified' | null {
+  if (subject.profile_url && person.profile_url === subject.profile_url) return 'match';
+  if (!subject.name || nameKey(person.name) !== nameKey(subject.name)) return null;
+
+  const years = birthYears(person);
+  if (years.length === 0) return 'unverified';
+  return subject.birth_year !== undefined && years.includes(subject.birth_year) ? 'match' : null;
+}
+
+/**
+ * A person with everything but company and role removed
+ */
+export function anonymizePerson(person: PersonDetails): PersonDetails {
+  return {
+    id: person.id,
+    org_number: person.org_number,
+    name: ANONYMIZED_NAME,
+    role: person.role,
+    address: {},
+    source: person.source,
+    scraped_at: person.scraped_at,
+  };
+}
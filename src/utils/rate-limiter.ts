@@ -3,7 +3,7 @@
  * Based on merinfo_scraper rate limiting patterns
  */
 
-import { RateLimitError } from '../types.js';
+import { RateLimitError, ScraperError } from '../types.js';
 import { logger, logRateLimit } from './logger.js';
 
 interface TokenBucket {
@@ -175,6 +175,7 @@ export class BackoffStrategy {
 
 /**
  * Retry wrapper with exponential backoff
+ * Retries errors whose name is listed, unless a ScraperError marks itself not retryable
  */
 export async function withRetry<T>(
   operation: () => Promise<T>,
@@ -182,7 +183,7 @@ export async function withRetry<T>(
     maxAttempts?: number;
     backoff?: BackoffStrategy;
     retryableErrors?: string[];
-    onRetry?: (attempt: number, error: Error) => void;
+    onRetry?: (attempt: number, error: Error) => void | Promise<void>;
   } = {}
 ): Promise<T> {
   const {
@@ -201,7 +202,8 @@ export async function withRetry<T>(
       lastError = error as Error;
 
       const isLastAttempt = attempt === maxAttempts;
-      const isRetryable = retryableErrors.includes(lastError.name);
+      const isRetryable =
+        retryableErrors.includes(lastError.name) && !(lastError instanceof ScraperError && !lastError.retryable);
 
       if (isLastAttempt || !isRetryable) {
         throw lastError;
@@ -213,7 +215,7 @@ export async function withRetry<T>(
       );
 
       if (onRetry) {
-        onRetry(attempt, lastError);
+        await onRetry(attempt, lastError);
       }
 
       await backoff.wait(attempt);
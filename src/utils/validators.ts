@@ -3,14 +3,27 @@
  */
 
 import { z } from 'zod';
+import { REMARK_TYPES, SIZE_CLASSES } from '../types.js';
+import { normalizeRole } from './parsers.js';
+import { checkIdentityNumber } from './org-number.js';
+import { levelOf, normalizeSniCode, sniTaxonomy } from '../taxonomy/sni.js';
 
-export const OrgNumberSchema = z
+export const OrgNumberSchema = z.string().transform((val, ctx) => {
+  const check = checkIdentityNumber(val);
+  if (!check.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid Swedish organization number: ${check.error}` });
+    return z.NEVER;
+  }
+  return check.normalized!;
+});
+
+export const ProfileUrlSchema = z
   .string()
-  .regex(/^\d{6}-?\d{4}$/, 'Invalid Swedish organization number format (expected: XXXXXX-XXXX)')
-  .transform((val) => {
-    const cleaned = val.replace(/[^0-9]/g, '');
-    return `${cleaned.slice(0, 6)}-${cleaned.slice(6)}`;
-  });
+  .transform((val) => (val.startsWith('/person/') ? `https://www.merinfo.se${val}` : val))
+  .refine(
+    (val) => /^https:\/\/(www\.)?merinfo\.se\/person\//.test(val),
+    'Invalid merinfo person profile URL (expected: https://www.merinfo.se/person/...)'
+  );
 
 export const SearchQuerySchema = z
   .string()
@@ -29,7 +42,12 @@ export const CitySchema = z
 
 export const SNICodeSchema = z
   .string()
-  .regex(/^\d{5}$/, 'Invalid SNI code format (expected: 5 digits)')
+  .transform(normalizeSniCode)
+  .refine(
+    (val) => levelOf(val) !== null,
+    'Invalid SNI code format (expected: section letter A-U or 2-5 digits)'
+  )
+  .refine((val) => sniTaxonomy.isValid(val), 'Unknown SNI 2007 code')
   .optional();
 
 export const LimitSchema = z
@@ -50,10 +68,12 @@ export const SearchCompanyByOrgNumberInput = z.object({
   org_number: OrgNumberSchema,
   force_refresh: z.boolean().default(false),
   include_board: z.boolean().default(true),
+  source: z.string().trim().toLowerCase().min(1).optional(),
 });
 
 export const GetCompanyDetailsInput = z.object({
   org_number: OrgNumberSchema,
+  include_provenance: z.boolean().default(false),
 });
 
 export const SearchCompaniesByIndustryInput = z.object({
@@ -61,12 +81,20 @@ export const SearchCompaniesByIndustryInput = z.object({
   category: z.string().optional(),
   city: CitySchema,
   min_revenue: z.number().optional(),
+  min_employees: z.number().int().min(0).optional(),
+  max_employees: z.number().int().min(0).optional(),
+  size_class: z.enum(SIZE_CLASSES).optional(),
+  min_share_capital: z.number().min(0).optional(),
+  has_website: z.boolean().optional(),
+  has_email: z.boolean().optional(),
   limit: LimitSchema,
 });
 
 export const SearchCompanyByNameInput = z.object({
   query: SearchQuerySchema,
   limit: LimitSchema,
+  live: z.boolean().default(false),
+  max_pages: z.number().int().min(1).max(10).default(3),
 });
 
 export const GetBoardMembersInput = z.object({
@@ -74,22 +102,144 @@ export const GetBoardMembersInput = z.object({
   force_refresh: z.boolean().default(false),
 });
 
+export const RoleSchema = z
+  .string()
+  .transform((val) => normalizeRole(val) || val)
+  .optional();
+
 export const SearchPersonInput = z.object({
   name: z.string().min(3, 'Name too short'),
-  role: z.string().optional(),
+  role: RoleSchema,
   limit: LimitSchema,
 });
 
+export const GetPersonEngagementsInput = z
+  .object({
+    profile_url: ProfileUrlSchema.optional(),
+    person_id: z.number().int().min(1).optional(),
+    include_past: z.boolean().default(true),
+    enqueue_companies: z.boolean().default(false),
+    force_refresh: z.boolean().default(false),
+  })
+  .refine((val) => val.profile_url || val.person_id, {
+    message: 'Either profile_url or person_id is required',
+  });
+
+export const GetSelectorHealthInput = z.object({
+  recent_pages: z.number().int().min(1).max(500).default(20),
+  baseline_pages: z.number().int().min(1).max(5000).default(100),
+  only_drift: z.boolean().default(false),
+});
+
 export const GetCachedCompaniesInput = z.object({
   city: CitySchema,
   status: z.string().optional(),
   has_remarks: z.boolean().optional(),
+  remark_type: z.enum(REMARK_TYPES).optional(),
   sort_by: z.enum(['name', 'revenue', 'scraped_at']).default('scraped_at'),
   order: z.enum(['asc', 'desc']).default('desc'),
   limit: LimitSchema,
   offset: OffsetSchema,
 });
 
+export const ImportRegisterFileInput = z.object({
+  file: z.string().min(1),
+  limit: z.number().int().min(1).optional(),
+  dry_run: z.boolean().default(false),
+  confirm: z.boolean().refine((val) => val === true, {
+    message: 'Must explicitly confirm the import',
+  }),
+});
+
+export const BrowseSniTaxonomyInput = z.object({
+  code: SNICodeSchema,
+  query: z.string().min(2).max(100).optional(),
+  include_counts: z.boolean().default(true),
+});
+
+export const EnqueueCompaniesInput = z.object({
+  org_numbers: z.array(OrgNumberSchema).min(1).max(1000),
+  priority: z.number().int().min(1).max(10).default(5),
+  include_board: z.boolean().default(true),
+});
+
+export const GetJobStatusInput = z.object({
+  job_id: z.number().int().min(1).optional(),
+  org_number: OrgNumberSchema.optional(),
+});
+
+export const ListFailedJobsInput = z.object({
+  limit: LimitSchema,
+});
+
+export const RetryFailedJobsInput = z
+  .object({
+    job_ids: z.array(z.number().int().min(1)).min(1).optional(),
+    all: z.boolean().default(false),
+  })
+  .refine((val) => val.job_ids || val.all, {
+    message: 'Either job_ids or all: true is required',
+  });
+
+export const ListScrapeFailuresInput = z.object({
+  limit: LimitSchema,
+  kind: z.enum(['failed', 'partial']).optional(),
+  operation: z.string().optional(),
+});
+
+export const ReparseArchiveInput = z.object({
+  org_numbers: z.array(OrgNumberSchema).min(1).optional(),
+  limit: z.number().int().min(1).optional(),
+  dry_run: z.boolean().default(false),
+  confirm: z.boolean().refine((val) => val === true, {
+    message: 'Must explicitly confirm the re-parse',
+  }),
+});
+
+export const ValidateOrgNumbersInput = z.object({
+  org_numbers: z.array(z.string()).min(1).max(10000),
+  check_cache: z.boolean().default(true),
+});
+
+const DataSubjectFields = z.object({
+  name: z.string().trim().min(3, 'Name too short').optional(),
+  birth_year: z.number().int().min(1900).max(new Date().getFullYear()).optional(),
+  profile_url: ProfileUrlSchema.optional(),
+});
+
+const identifiesSubject = (val: z.infer<typeof DataSubjectFields>) =>
+  !!val.profile_url || (!!val.name && val.birth_year !== undefined);
+const SUBJECT_REQUIRED = { message: 'Either profile_url or name with birth_year is required' };
+
+export const ExportPersonDataInput = DataSubjectFields.refine(identifiesSubject, SUBJECT_REQUIRED);
+
+export const ErasePersonDataInput = DataSubjectFields.extend({
+  mode: z.enum(['delete', 'anonymize']).default('delete'),
+  suppress: z.boolean().default(true),
+  dry_run: z.boolean().default(false),
+  confirm: z.boolean().refine((val) => val === true, {
+    message: 'Must explicitly confirm the erasure',
+  }),
+}).refine(identifiesSubject, SUBJECT_REQUIRED);
+
+const KeepOrDrop = z.enum(['keep', 'drop']).optional();
+
+export const RedactionProfileConfigSchema = z
+  .object({
+    extends: z.string().optional(),
+    name: z.enum(['keep', 'initials', 'pseudonym']).optional(),
+    personal_number: KeepOrDrop,
+    age: z.enum(['keep', 'range', 'drop']).optional(),
+    phone: KeepOrDrop,
+    email: KeepOrDrop,
+    street: KeepOrDrop,
+    apartment: KeepOrDrop,
+    postal_code: KeepOrDrop,
+    city: KeepOrDrop,
+    profile_url: KeepOrDrop,
+  })
+  .strict();
+
 export const ClearCacheInput = z.object({
   older_than_days: z.number().int().min(1).default(30),
   confirm: z.boolean().refine((val) => val === true, {
@@ -104,5 +254,18 @@ export type SearchCompaniesByIndustryInput = z.infer<typeof SearchCompaniesByInd
 export type SearchCompanyByNameInput = z.infer<typeof SearchCompanyByNameInput>;
 export type GetBoardMembersInput = z.infer<typeof GetBoardMembersInput>;
 export type SearchPersonInput = z.infer<typeof SearchPersonInput>;
+export type GetPersonEngagementsInput = z.infer<typeof GetPersonEngagementsInput>;
+export type GetSelectorHealthInput = z.infer<typeof GetSelectorHealthInput>;
 export type GetCachedCompaniesInput = z.infer<typeof GetCachedCompaniesInput>;
 export type ClearCacheInput = z.infer<typeof ClearCacheInput>;
+export type BrowseSniTaxonomyInput = z.infer<typeof BrowseSniTaxonomyInput>;
+export type ImportRegisterFileInput = z.infer<typeof ImportRegisterFileInput>;
+export type EnqueueCompaniesInput = z.infer<typeof EnqueueCompaniesInput>;
+export type GetJobStatusInput = z.infer<typeof GetJobStatusInput>;
+export type ListFailedJobsInput = z.infer<typeof ListFailedJobsInput>;
+export type RetryFailedJobsInput = z.infer<typeof RetryFailedJobsInput>;
+export type ListScrapeFailuresInput = z.infer<typeof ListScrapeFailuresInput>;
+export type ReparseArchiveInput = z.infer<typeof ReparseArchiveInput>;
+export type ValidateOrgNumbersInput = z.infer<typeof ValidateOrgNumbersInput>;
+export type ExportPersonDataInput = z.infer<typeof ExportPersonDataInput>;
+export type ErasePersonDataInput = z.infer<typeof ErasePersonDataInput>;
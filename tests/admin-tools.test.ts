@@ -0,0 +1,56 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CompanyDatabase } from '../src/cache/database.js';
+import { ProviderRegistry } from '../src/providers/registry.js';
+import { redactionProfiles } from '../src/server/redaction.js';
+import { MerinfoTools } from '../src/server/tools.js';
+
+const PROFILE_URL = 'https://www.merinfo.se/person/anna-andersson-a1b2c3';
+
+describe('admin tools', () => {
+  let dir: string;
+  let db: CompanyDatabase;
+
+  function tools(admin: boolean, profile = 'full'): MerinfoTools {
+    return new MerinfoTools(db, {} as ProviderRegistry, undefined, undefined, redactionProfiles.get(profile), admin);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merinfo-admin-'));
+    db = new CompanyDatabase(path.join(dir, 'cache.db'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses a client on the full profile without admin access', async () => {
+    const client = tools(false);
+
+    await expect(client.exportPersonData({ profile_url: PROFILE_URL })).rejects.toThrow(/admin tool/);
+    const erase = { profile_url: PROFILE_URL, confirm: true } as never;
+    await expect(client.erasePersonData(erase)).rejects.toThrow(/admin tool/);
+    await expect(client.retryFailedJobs({ all: true })).rejects.toThrow(/admin tool/);
+    await expect(client.reparseArchive({ dry_run: true, confirm: true } as never)).rejects.toThrow(/admin tool/);
+    const register = { file: 'register.csv', confirm: true } as never;
+    await expect(client.importRegisterFile(register)).rejects.toThrow(/admin tool/);
+    await expect(client.clearCache({ confirm: true } as never)).rejects.toThrow(/admin tool/);
+  });
+
+  it('lets an admin client through', async () => {
+    await expect(tools(true).exportPersonData({ profile_url: PROFILE_URL })).resolves.toMatchObject({
+      success: true,
+      found: false,
+    });
+    await expect(tools(true).retryFailedJobs({ all: true })).resolves.toMatchObject({ success: true });
+  });
+
+  it('still keeps personal-data tools from admins on a redacted profile', async () => {
+    await expect(tools(true, 'business_only').exportPersonData({ profile_url: PROFILE_URL })).rejects.toThrow(
+      /full redaction profile/
+    );
+  });
+});
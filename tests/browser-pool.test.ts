@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BrowserPool } from '../src/scraper/browser.js';
+import { ProxyPool } from '../src/scraper/proxy-pool.js';
+import { ScraperError } from '../src/types.js';
+
+vi.mock('playwright', () => {
+  const fakeContext = () => {
+    const context = {
+      closed: false,
+      addInitScript: async () => undefined,
+      on: () => undefined,
+      pages: () => [],
+      close: async () => {
+        context.closed = true;
+      },
+    };
+    return context;
+  };
+
+  return {
+    chromium: {
+      launch: async () => ({
+        on: () => undefined,
+        isConnected: () => true,
+        newContext: async () => fakeContext(),
+        close: async () => undefined,
+      }),
+    },
+  };
+});
+
+function pool() {
+  const blocking = { block_resource_types: [], block_domains: [], allow_domains: [] };
+  return new BrowserPool(true, blocking, new ProxyPool([]), 2, 1000);
+}
+
+describe('BrowserPool.retireFailedContext', () => {
+  it('closes the context the failed scrape ran in and leaves other leases open', async () => {
+    const browserPool = pool();
+    const failed = await browserPool.acquireContext();
+    const other = await browserPool.acquireContext();
+
+    const error = new ScraperError('Timed out reading the page');
+    await browserPool.releaseContext(failed, error);
+    await browserPool.retireFailedContext(error);
+
+    expect((failed as unknown as { closed: boolean }).closed).toBe(true);
+    expect((other as unknown as { closed: boolean }).closed).toBe(false);
+    expect(browserPool.getPoolStats()).toMatchObject({ open_contexts: 1, leased: 1, contexts_replaced: 1 });
+  });
+
+  it('closes a context leased again in the meantime only when it is returned', async () => {
+    const browserPool = pool();
+    const context = await browserPool.acquireContext();
+
+    const error = new ScraperError('Timed out reading the page');
+    await browserPool.releaseContext(context, error);
+    const again = await browserPool.acquireContext();
+    await browserPool.retireFailedContext(error);
+
+    expect(again).toBe(context);
+    expect((context as unknown as { closed: boolean }).closed).toBe(false);
+
+    await browserPool.releaseContext(again);
+    expect((context as unknown as { closed: boolean }).closed).toBe(true);
+    expect(browserPool.getPoolStats().open_contexts).toBe(0);
+  });
+});
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CompanyDatabase } from '../src/cache/database.js';
+import { PageArchive } from '../src/cache/page-archive.js';
+import { erasePersonData, exportPersonData } from '../src/privacy/data-subjects.js';
+import { FailureArtifactStore } from '../src/scraper/failure-artifacts.js';
+import { CompanyData, PersonDetails } from '../src/types.js';
+import { ANONYMIZED_NAME, birthYears, matchPerson, nameKey } from '../src/utils/person-match.js';
+
+const PROFILE_URL = 'https://www.merinfo.se/person/anna-andersson-a1b2c3';
+
+function person(overrides: Partial<PersonDetails> = {}): PersonDetails {
+  return {
+    org_number: '556036-0793',
+    name: 'Anna Andersson',
+    role: 'VD',
+    age: 45,
+    address: { street: 'Storgatan 1', city: 'Stockholm' },
+    profile_url: PROFILE_URL,
+    scraped_at: '2026-10-01T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function company(org_number: string): CompanyData {
+  return {
+    org_number,
+    name: `Bolag ${org_number}`,
+    contact: {},
+    tax_info: { f_skatt: true, vat_registered: true, employer_registered: false },
+    industry: {},
+    has_remarks: false,
+    source_url: `https://www.merinfo.se/foretag/${org_number}`,
+    scraped_at: '2026-10-01T08:00:00.000Z',
+  };
+}
+
+describe('person matching', () => {
+  it('compares names ignoring case, spacing and Unicode form', () => {
+    expect(nameKey('  ANNA   Andersson ')).toBe('anna andersson');
+    expect(nameKey('Ångström'.normalize('NFD'))).toBe(nameKey('ångström'));
+  });
+
+  it('dates a person from the personal number or the age when scraped', () => {
+    expect(birthYears({ personal_number: '19800101-1234' })).toEqual([1980]);
+    expect(birthYears({ age: 45, scraped_at: '2026-10-01T08:00:00.000Z' })).toEqual([1981, 1980]);
+    expect(birthYears({ age: 45, personal_number: '800101-1234', scraped_at: '2026-10-01T08:00:00.000Z' })).toEqual([
+      1980,
+    ]);
+    expect(birthYears({})).toEqual([]);
+  });
+
+  it('matches on profile URL, or on name plus birth year', () => {
+    expect(matchPerson(person({ name: 'Someone Else' }), { profile_url: PROFILE_URL })).toBe('match');
+    expect(matchPerson(person(), { name: 'anna andersson', birth_year: 1981 })).toBe('match');
+    expect(matchPerson(person(), { name: 'Anna Andersson', birth_year: 1990 })).toBeNull();
+    expect(matchPerson(person(), { name: 'Anna Berg', birth_year: 1981 })).toBeNull();
+  });
+
+  it('flags a same-name row with nothing to date it as unverified', () => {
+    expect(matchPerson(person({ age: undefined }), { name: 'Anna Andersson', birth_year: 1981 })).toBe('unverified');
+  });
+});
+
+describe('data subject requests', () => {
+  let dir: string;
+  let db: CompanyDatabase;
+  let archive: PageArchive;
+  let artifacts: FailureArtifactStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merinfo-dsr-'));
+    db = new CompanyDatabase(path.join(dir, 'cache.db'));
+    archive = new PageArchive(path.join(dir, 'archive.db'), true);
+    artifacts = new FailureArtifactStore({ enabled: false, dir: path.join(dir, 'artifacts'), max_count: 10, max_age_days: 1 });
+
+    db.saveCompany(company('556036-0793'));
+    db.saveCompany(company('556987-6544'));
+    db.saveBoardMembers('556036-0793', [
+      person(),
+      person({ name: 'Bertil Berg', role: 'Ordförande', profile_url: 'https://www.merinfo.se/person/bertil' }),
+    ]);
+    db.saveBoardMembers('556987-6544', [
+      person({ org_number: '556987-6544', role: 'Ordförande', profile_url: undefined }),
+      person({ org_number: '556987-6544', role: 'Styrelseledamot', age: undefined, profile_url: undefined }),
+    ]);
+    db.savePersonProfile({
+      name: 'Anna Andersson',
+      profile_url: PROFILE_URL,
+      engagements: [
+        { org_number: '556036-0793', company_name: 'Bolag 556036-0793', role: 'VD', current: true },
+      ],
+      scraped_at: '2026-10-01T08:00:00.000Z',
+    });
+    archive.save({ source: 'merinfo', kind: 'person', org_number: '556036-0793', url: PROFILE_URL, html: '<h1>Anna</h1>' });
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('exports every matching row, profile and archived page', async () => {
+    const exported = await exportPersonData(db, { name: 'Anna Andersson', birth_year: 1981 }, { archive, artifacts });
+
+    expect(exported.people.map((p) => `${p.org_number} ${p.role}`).sort()).toEqual([
+      '556036-0793 VD',
+      '556987-6544 Ordförande',
+    ]);
+    expect(exported.unverified_matches).toHaveLength(1);
+    expect(exported.profiles).toHaveLength(1);
+    expect(exported.archived_pages.map((p) => p.url)).toEqual([PROFILE_URL]);
+    expect(exported.suppressed).toBeNull();
+  });
+
+  it('counts without changing anything on a dry run', async () => {
+    const result = await erasePersonData(db, { profile_url: PROFILE_URL }, { archive, artifacts, dry_run: true });
+
+    expect(result).toMatchObject({ people_deleted: 1, engagements_deleted: 1, archived_pages_deleted: 1, suppressed: false });
+    expect(db.getBoardMembers('556036-0793')).toHaveLength(2);
+  });
+
+  it('deletes the person and keeps them out of later scrapes', async () => {
+    const result = await erasePersonData(db, { profile_url: PROFILE_URL }, { archive, artifacts });
+
+    expect(result).toMatchObject({ people_deleted: 1, engagements_deleted: 1, archived_pages_deleted: 1, suppressed: true });
+    expect(db.getBoardMembers('556036-0793').map((p) => p.name)).toEqual(['Bertil Berg']);
+    expect(db.getPersonProfile(PROFILE_URL)).toBeNull();
+    expect(db.getSuppression({ profile_url: PROFILE_URL })).toBe('delete');
+
+    db.saveBoardMembers('556036-0793', [person(), person({ name: 'Bertil Berg', profile_url: undefined })]);
+    expect(db.getBoardMembers('556036-0793').map((p) => p.name)).toEqual(['Bertil Berg']);
+
+    archive.save({ source: 'merinfo', kind: 'person', org_number: '556036-0793', url: PROFILE_URL, html: '<h1>Anna</h1>' });
+    expect(archive.getPersonPages([PROFILE_URL])).toEqual([]);
+  });
+
+  it('anonymizes rows in place and suppresses by name and birth year', async () => {
+    const result = await erasePersonData(
+      db,
+      { name: 'Anna Andersson', birth_year: 1981 },
+      { archive, artifacts, mode: 'anonymize' }
+    );
+
+    expect(result.people_anonymized).toBe(2);
+    expect(result.unverified_matches).toBe(1);
+    const board = db.getBoardMembers('556987-6544');
+    const anonymized = board.find((p) => p.role === 'Ordförande');
+    expect(anonymized?.name).toBe(ANONYMIZED_NAME);
+    expect(anonymized?.age).toBeFalsy();
+    expect(anonymized?.address.street).toBeFalsy();
+    // Same name, but nothing to confirm it is the same person
+    expect(board.find((p) => p.role === 'Styrelseledamot')?.name).toBe('Anna Andersson');
+
+    db.saveBoardMembers('556987-6544', [person({ org_number: '556987-6544', profile_url: undefined })]);
+    expect(db.getBoardMembers('556987-6544')[0]).toMatchObject({ name: ANONYMIZED_NAME, role: 'VD' });
+  });
+});
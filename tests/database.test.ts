@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CompanyDatabase } from '../src/cache/database.js';
+import { CompanyData } from '../src/types.js';
+
+function company(org_number: string, name: string): CompanyData {
+  return {
+    org_number,
+    name,
+    contact: {},
+    tax_info: { f_skatt: true, vat_registered: true, employer_registered: false },
+    industry: { sni_description: 'Dataprogrammering' },
+    has_remarks: false,
+    source_url: `https://www.merinfo.se/foretag/${org_number}`,
+    scraped_at: '2026-10-01T08:00:00.000Z',
+  };
+}
+
+describe('company full-text search', () => {
+  let dir: string;
+  let file: string;
+  let db: CompanyDatabase;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merinfo-db-'));
+    file = path.join(dir, 'cache.db');
+    db = new CompanyDatabase(file);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function integrityCheck(): void {
+    const raw = new Database(file);
+    try {
+      raw.exec(`INSERT INTO companies_fts(companies_fts, rank) VALUES ('integrity-check', 1)`);
+    } finally {
+      raw.close();
+    }
+  }
+
+  it('follows a company name change', () => {
+    db.saveCompany(company('556036-0793', 'Alfa Konsult AB'));
+    db.saveCompany(company('556987-6544', 'Gamma Data AB'));
+    db.saveCompany(company('556036-0793', 'Beta Konsult AB'));
+
+    expect(db.searchCompaniesByName('Beta').map((c) => c.org_number)).toEqual(['556036-0793']);
+    expect(db.searchCompaniesByName('Alfa')).toEqual([]);
+    expect(db.searchCompaniesByName('Gamma').map((c) => c.name)).toEqual(['Gamma Data AB']);
+    expect(() => integrityCheck()).not.toThrow();
+  });
+
+  it('forgets cleared companies', () => {
+    db.saveCompany(company('556036-0793', 'Alfa Konsult AB'));
+    expect(db.clearCache(7)).toBe(1);
+
+    expect(db.searchCompaniesByName('Alfa')).toEqual([]);
+    expect(() => integrityCheck()).not.toThrow();
+  });
+
+  it('replaces the triggers of older databases and rebuilds the index', () => {
+    db.saveCompany(company('556036-0793', 'Alfa Konsult AB'));
+    db.close();
+
+    const raw = new Database(file);
+    raw.exec(`
+      DROP TRIGGER companies_fts_update;
+      CREATE TRIGGER companies_fts_update AFTER UPDATE ON companies BEGIN
+        UPDATE companies_fts SET name = new.name WHERE org_number = new.org_number;
+      END;
+    `);
+    raw.close();
+
+    db = new CompanyDatabase(file);
+    db.saveCompany(company('556036-0793', 'Beta Konsult AB'));
+
+    expect(db.searchCompaniesByName('Beta').map((c) => c.org_number)).toEqual(['556036-0793']);
+    expect(() => integrityCheck()).not.toThrow();
+  });
+});
+
+describe('refresh candidates', () => {
+  let dir: string;
+  let db: CompanyDatabase;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merinfo-db-'));
+    db = new CompanyDatabase(path.join(dir, 'cache.db'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drops a company once it has been scraped again', () => {
+    db.saveCompany({ ...company('556036-0793', 'Alfa Konsult AB'), scraped_at: '2020-01-01T00:00:00.000Z' });
+    expect(db.getRefreshCandidates(30, 10)).toEqual(['556036-0793']);
+    expect(db.countStaleCompanies(30)).toBe(1);
+
+    const scraped_at = new Date().toISOString();
+    db.saveCompany({ ...company('556036-0793', 'Alfa Konsult AB'), scraped_at });
+
+    expect(db.getCompany('556036-0793')?.scraped_at).toBe(scraped_at);
+    expect(db.getRefreshCandidates(30, 10)).toEqual([]);
+    expect(db.countStaleCompanies(30)).toBe(0);
+    expect(db.isCacheStale('556036-0793', 30)).toBe(false);
+  });
+
+  it('dates a register import from its first scrape', () => {
+    db.upsertRegisterCompanies([{ org_number: '556036-0793', name: 'Alfa Konsult AB', city: 'Stockholm' }]);
+    db.recordCompanyAccess('556036-0793');
+    expect(db.getCompany('556036-0793')?.scraped_at).toBeFalsy();
+    expect(db.getRefreshCandidates(30, 10)).toEqual(['556036-0793']);
+
+    const scraped_at = new Date().toISOString();
+    db.saveCompany({ ...company('556036-0793', 'Alfa Konsult AB'), scraped_at });
+    db.upsertRegisterCompanies([{ org_number: '556036-0793', name: 'Alfa Konsult AB', city: 'Stockholm' }]);
+
+    expect(db.getCompany('556036-0793')).toMatchObject({ origin: 'scrape', scraped_at });
+    expect(db.getRefreshCandidates(30, 10)).toEqual([]);
+    expect(db.isCacheStale('556036-0793', 30)).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { changedFields, mergeProviderResults, mergeWithCached, providerOrder } from '../src/providers/merge.js';
+import { FieldProvenance, MergePolicy, ProviderResult } from '../src/types.js';
+
+const FETCHED_AT = '2026-10-01T08:00:00.000Z';
+const policy: MergePolicy = { default_order: ['merinfo', 'allabolag'], fields: { financials: ['allabolag'] } };
+
+function provenance(source: string, status: FieldProvenance['status']): FieldProvenance {
+  return { source, extracted_at: FETCHED_AT, status, confidence: status === 'found' ? 'high' : 'medium' };
+}
+
+const merinfo: ProviderResult = {
+  provider: 'merinfo',
+  fetched_at: FETCHED_AT,
+  source_url: 'https://www.merinfo.se/foretag/exempelbolaget',
+  company: {
+    org_number: '556036-0793',
+    name: 'Exempelbolaget i Stockholm AB',
+    contact: { city: 'Stockholm' },
+    tax_info: { f_skatt: true, vat_registered: false, employer_registered: false },
+    has_remarks: false,
+    financials: { fiscal_year: 2023, period: '2023-12', currency: 'SEK', revenue: 12_000_000 },
+    field_provenance: {
+      name: provenance('merinfo', 'found'),
+      has_remarks: provenance('merinfo', 'absent'),
+      'tax_info.f_skatt': provenance('merinfo', 'found'),
+      'tax_info.vat_registered': provenance('merinfo', 'found'),
+      'tax_info.employer_registered': provenance('merinfo', 'absent'),
+    },
+  },
+  board_members: [],
+};
+
+const allabolag: ProviderResult = {
+  provider: 'allabolag',
+  fetched_at: FETCHED_AT,
+  source_url: 'https://www.allabolag.se/5560360793',
+  company: {
+    org_number: '556036-0793',
+    name: 'Exempelbolaget i Stockholm Aktiebolag',
+    contact: { city: 'Stockholm', phone: '08-123 456 78' },
+    tax_info: { f_skatt: false, vat_registered: true, employer_registered: true },
+    has_remarks: true,
+    remark_details: [{ type: 'payment_remark', count: 2, text: '2 betalningsanmärkningar', source: 'company_page' }],
+    financials: { fiscal_year: 2023, period: '2023-12', currency: 'SEK', revenue: 12_345_000 },
+    field_provenance: {
+      has_remarks: provenance('allabolag', 'found'),
+      'tax_info.employer_registered': provenance('allabolag', 'found'),
+    },
+  },
+  board_members: [{ org_number: '556036-0793', name: 'Anna Andersson', role: 'VD', address: {} }],
+};
+
+describe('providerOrder', () => {
+  it('puts field overrides first, then the default order, then the rest', () => {
+    expect(providerOrder('financials', policy, ['merinfo', 'allabolag', 'register'])).toEqual([
+      'allabolag',
+      'merinfo',
+      'register',
+    ]);
+    expect(providerOrder('name', policy, ['allabolag'])).toEqual(['allabolag']);
+  });
+});
+
+describe('mergeProviderResults', () => {
+  const { company, board_members } = mergeProviderResults('556036-0793', [merinfo, allabolag], policy);
+
+  it('takes each field from the first provider with a value', () => {
+    expect(company.name).toBe('Exempelbolaget i Stockholm AB');
+    expect(company.contact.phone).toBe('08-123 456 78');
+    expect(company.financials?.revenue).toBe(12_345_000);
+    expect(company.field_sources).toMatchObject({
+      name: 'merinfo',
+      'contact.phone': 'allabolag',
+      financials: 'allabolag',
+    });
+    expect(company.source_url).toBe(merinfo.source_url);
+  });
+
+  it('takes booleans only from providers that found the field', () => {
+    expect(company.has_remarks).toBe(true);
+    expect(company.field_sources?.has_remarks).toBe('allabolag');
+    expect(company.remark_details).toHaveLength(1);
+    expect(company.tax_info.employer_registered).toBe(true);
+    expect(company.field_sources?.['tax_info.employer_registered']).toBe('allabolag');
+  });
+
+  it('keeps a false that was read from the page', () => {
+    expect(company.tax_info.vat_registered).toBe(false);
+    expect(company.field_sources?.['tax_info.vat_registered']).toBe('merinfo');
+  });
+
+  it('leaves a boolean no provider found at its default, without a source', () => {
+    const alone = mergeProviderResults('556036-0793', [merinfo], policy).company;
+
+    expect(alone.has_remarks).toBe(false);
+    expect(alone.field_sources?.has_remarks).toBeUndefined();
+    expect(alone.field_provenance?.has_remarks?.status).toBe('absent');
+  });
+
+  it('takes the board from one provider, tagged with its source', () => {
+    expect(board_members).toEqual([{ ...allabolag.board_members![0], source: 'allabolag' }]);
+    expect(company.field_sources?.board_members).toBe('allabolag');
+  });
+});
+
+describe('mergeWithCached', () => {
+  it('fills fields the fresh result lacks, except from replaced sources', () => {
+    const cached = mergeProviderResults('556036-0793', [merinfo, allabolag], policy).company;
+    const fresh = mergeProviderResults('556036-0793', [merinfo], policy).company;
+
+    const merged = mergeWithCached(fresh, cached);
+    expect(merged.contact.phone).toBe('08-123 456 78');
+    expect(merged.field_sources?.['contact.phone']).toBe('allabolag');
+
+    const replaced = mergeWithCached(fresh, cached, ['allabolag']);
+    expect(replaced.contact.phone).toBeUndefined();
+    expect(changedFields(replaced, cached)).toContain('contact.phone');
+  });
+});
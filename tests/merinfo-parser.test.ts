@@ -0,0 +1,333 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  isSearchLimitPage,
+  parseBoardRoster,
+  parseCompanyPage,
+  parseCompanyPageWithReport,
+  parsePersonEngagements,
+  parsePersonPage,
+  parseSearchCard,
+  parseSearchResults,
+} from '../src/scraper/merinfo-parser.js';
+
+const BASE_URL = 'https://www.merinfo.se';
+const SCRAPED_AT = '2026-10-01T08:00:00.000Z';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures/merinfo', `${name}.html`), 'utf-8');
+}
+
+const companyMeta = { org_number: '556036-0793', url: `${BASE_URL}/foretag/exempelbolaget`, scraped_at: SCRAPED_AT };
+
+describe('parseCompanyPage', () => {
+  const company = parseCompanyPage(fixture('company'), companyMeta);
+
+  it('reads identity and registration fields', () => {
+    expect(company).toMatchObject({
+      org_number: '556036-0793',
+      name: 'Exempelbolaget i Stockholm AB',
+      legal_form: 'Aktiebolag',
+      status: 'Aktiv',
+      registration_date: '1998-04-15',
+      source_url: companyMeta.url,
+      scraped_at: SCRAPED_AT,
+    });
+  });
+
+  it('reads contact details, stripping the company name from the address', () => {
+    expect(company.contact).toEqual({
+      phone: '08-123 456 78',
+      email: 'info@exempelbolaget.se',
+      website: 'https://www.exempelbolaget.se',
+      address: 'Storgatan 1, 111 22 Stockholm',
+      postal_code: '11122',
+      city: 'Stockholm',
+      municipality: 'Stockholm',
+      county: 'Stockholms län',
+    });
+  });
+
+  it('reads tax registrations as booleans', () => {
+    expect(company.tax_info).toEqual({ f_skatt: true, vat_registered: true, employer_registered: false });
+  });
+
+  it('reads industry code, categories and the expanded activity description', () => {
+    expect(company.industry).toEqual({
+      sni_code: '62010',
+      sni_description: 'Dataprogrammering',
+      categories: ['IT-konsulter', 'Programvara'],
+      activity_description:
+        'Bolaget ska bedriva utveckling och försäljning av programvara samt därmed förenlig verksamhet.',
+    });
+  });
+
+  it('reads the key figures snapshot in SEK', () => {
+    expect(company.financials).toEqual({
+      fiscal_year: 2023,
+      period: '2023-12',
+      currency: 'SEK',
+      revenue: 12_345_000,
+      profit_after_financial: 1_020_000,
+      net_profit: -310_000,
+      total_assets: 8_400_000,
+    });
+  });
+
+  it('leaves fields missing from the page undefined', () => {
+    const bare = parseCompanyPage('<html><body><h1><span class="namn">Tomt AB</span></h1></body></html>', companyMeta);
+    expect(bare.name).toBe('Tomt AB');
+    expect(bare.legal_form).toBeUndefined();
+    expect(bare.financials).toBeUndefined();
+    expect(bare.has_remarks).toBe(false);
+    expect(bare.contact).toEqual({});
+  });
+});
+
+describe('parsePersonPage', () => {
+  const meta = { org_number: '556036-0793', role: 'VD', url: `${BASE_URL}/person/anna`, scraped_at: SCRAPED_AT };
+  const person = parsePersonPage(fixture('person'), meta);
+
+  it('reads name, age and phone, keeping the role and company from the caller', () => {
+    expect(person).toMatchObject({
+      org_number: '556036-0793',
+      name: 'Anna Andersson',
+      role: 'VD',
+      age: 45,
+      phone: '070-123 45 67',
+      profile_url: meta.url,
+      scraped_at: SCRAPED_AT,
+    });
+  });
+
+  it('splits the apartment number out of the street address', () => {
+    expect(person.address).toEqual({
+      street: 'Storgatan 1',
+      apartment: 'lgh 1102',
+      postal_code: '11122',
+      city: 'Stockholm',
+    });
+  });
+});
+
+describe('parseBoardRoster', () => {
+  it('returns every person once per role, with absolute profile URLs', () => {
+    const roster = parseBoardRoster(fixture('company'), BASE_URL);
+
+    expect(roster.map((r) => `${r.role}: ${r.name}`)).toEqual(
+      expect.arrayContaining([
+        'VD: Anna Andersson',
+        'Ordförande: Bertil Berg',
+        'Styrelseledamot: Anna Andersson',
+        'Styrelseledamot: Cecilia Carlsson',
+        'Styrelsesuppleant: David Dahl',
+        'Prokurist: Erik Ek',
+        'Huvudansvarig revisor: Fia Fors',
+      ])
+    );
+    expect(roster).toHaveLength(8);
+    expect(roster.find((r) => r.name === 'David Dahl')?.profile_url).toBe(`${BASE_URL}/person/david-dahl-j1k2l3`);
+    expect(roster.find((r) => r.name === 'Bertil Berg')?.profile_url).toBe(`${BASE_URL}/person/bertil-berg-d4e5f6`);
+  });
+
+  it('keeps people under labels it does not know as Övrig', () => {
+    const roster = parseBoardRoster(fixture('company'), BASE_URL);
+    expect(roster.find((r) => r.name === 'Gustav Gran')?.role).toBe('Övrig');
+  });
+
+  it('ignores people linked from tables other than the roster', () => {
+    const roster = parseBoardRoster(fixture('company'), BASE_URL);
+    expect(roster.find((r) => r.name === 'Hanna Holm')).toBeUndefined();
+  });
+});
+
+describe('search pages', () => {
+  it('parses one candidate per organization number', () => {
+    expect(parseSearchResults(fixture('search'), BASE_URL)).toEqual([
+      {
+        org_number: '556036-0793',
+        name: 'Exempelbolaget i Stockholm AB',
+        city: 'Stockholm',
+        status: 'Aktiv',
+        has_remarks: true,
+        url: `${BASE_URL}/foretag/exempelbolaget-i-stockholm-ab-5560360793`,
+      },
+      {
+        org_number: '556987-6544',
+        name: 'Exempelbolaget i Göteborg AB',
+        city: 'Göteborg',
+        status: 'Likvidation',
+        has_remarks: false,
+        url: `${BASE_URL}/foretag/exempelbolaget-i-goteborg-ab-5569876544`,
+      },
+    ]);
+  });
+
+  it('finds the card for an organization number with its warning remark', () => {
+    const card = parseSearchCard(fixture('search'), '556036-0793', BASE_URL);
+
+    expect(card?.url).toBe(`${BASE_URL}/foretag/exempelbolaget-i-stockholm-ab-5560360793`);
+    expect(card?.remark).toMatchObject({ type: 'payment_remark', count: 2, source: 'search_card' });
+    expect(parseSearchCard(fixture('search'), '556000-0000', BASE_URL)).toBeNull();
+  });
+
+  it('recognizes the search limit page', () => {
+    expect(isSearchLimitPage(fixture('search-limit'))).toBe(true);
+    expect(isSearchLimitPage(fixture('search'))).toBe(false);
+  });
+});
+
+describe('financial history', () => {
+  it('returns every year in the table, oldest first, in SEK', () => {
+    const { financial_history } = parseCompanyPage(fixture('company'), companyMeta);
+
+    expect(financial_history?.map((y) => y.fiscal_year)).toEqual([2021, 2022, 2023]);
+    expect(financial_history?.[1]).toEqual({
+      fiscal_year: 2022,
+      period: '2022-12',
+      currency: 'SEK',
+      revenue: 11_002_000,
+      profit_after_financial: 845_000,
+      net_profit: 640_000,
+      total_assets: 7_950_000,
+    });
+    // "-" is no value, not zero
+    expect(financial_history?.[0].profit_after_financial).toBeUndefined();
+  });
+});
+
+describe('parsePersonEngagements', () => {
+  const profile = parsePersonEngagements(fixture('person'), {
+    url: `${BASE_URL}/person/anna`,
+    base_url: BASE_URL,
+    scraped_at: SCRAPED_AT,
+  });
+
+  it('lists one engagement per company and role', () => {
+    expect(profile.name).toBe('Anna Andersson');
+    expect(profile.age).toBe(45);
+    expect(profile.engagements.map((e) => `${e.org_number} ${e.role}`)).toEqual([
+      '556036-0793 VD',
+      '556036-0793 Styrelseledamot',
+      '556987-6544 Ordförande',
+      '556123-4567 Styrelsesuppleant',
+    ]);
+  });
+
+  it('marks roles under a past heading as ended, with both dates', () => {
+    const past = profile.engagements.find((e) => e.org_number === '556123-4567');
+    expect(past).toEqual({
+      org_number: '556123-4567',
+      company_name: 'Gamla Bolaget AB',
+      role: 'Styrelsesuppleant',
+      current: false,
+      from_date: '2010-05-01',
+      to_date: '2014-12-31',
+      company_url: `${BASE_URL}/foretag/gamla-bolaget-5561234567`,
+    });
+    expect(profile.engagements.filter((e) => e.current)).toHaveLength(3);
+  });
+});
+
+describe('remarks', () => {
+  it('parses red and orange warnings into structured remarks', () => {
+    const { has_remarks, remark_details } = parseCompanyPage(fixture('company'), companyMeta);
+
+    expect(has_remarks).toBe(true);
+    expect(remark_details).toEqual([
+      {
+        type: 'payment_remark',
+        count: 2,
+        date: '2024-02-01',
+        text: '2 betalningsanmärkningar, senast 2024-02-01',
+        source: 'company_page',
+      },
+      {
+        type: 'enforcement_debt',
+        amount: 12_500,
+        text: 'Ärende hos Kronofogden: 12 500 kr',
+        source: 'company_page',
+      },
+    ]);
+  });
+
+  it('reads the green all-clear text as no remarks', () => {
+    const company = parseCompanyPage(fixture('company-no-remarks'), companyMeta);
+
+    expect(company.has_remarks).toBe(false);
+    expect(company.remarks).toBeUndefined();
+    expect(company.remark_details).toBeUndefined();
+    expect(company.field_provenance?.has_remarks).toMatchObject({
+      rule: 'css:.mi-text-green',
+      status: 'found',
+      confidence: 'high',
+    });
+    expect(company.field_provenance?.remarks.status).toBe('absent');
+  });
+});
+
+describe('registration and size fields', () => {
+  it('reads bankgiro, share capital and the employee range', () => {
+    const company = parseCompanyPage(fixture('company'), companyMeta);
+
+    expect(company.bankgiro_number).toBe('5050-1055');
+    expect(company.share_capital).toBe(100_000);
+    expect(company.employees).toBe(10);
+    expect(company.employees_range).toBe('10-19');
+  });
+
+  it('derives the size class when the page leaves it blank', () => {
+    expect(parseCompanyPage(fixture('company'), companyMeta).size_class).toBe('small');
+  });
+});
+
+describe('extraction report', () => {
+  const { report } = parseCompanyPageWithReport(fixture('company'), companyMeta);
+
+  it('records the matching selector and whether it was a fallback', () => {
+    expect(report.page_type).toBe('company');
+    expect(report.fields.legal_form).toEqual({ resolved: true, selector: 'th:Bolagsform:', fallback: false });
+    expect(report.fields.registration_date).toEqual({
+      resolved: true,
+      selector: 'th:Registreringsdatum:',
+      fallback: true,
+    });
+  });
+
+  it('tells a blank labelled field apart from a field the page does not have', () => {
+    expect(report.fields.size_class).toEqual({ resolved: false, anchor_found: true });
+
+    const bare = parseCompanyPageWithReport('<html><body><h1>Tomt AB</h1></body></html>', companyMeta);
+    expect(bare.report.fields.bankgiro_number).toEqual({ resolved: false, anchor_found: false });
+  });
+});
+
+describe('field provenance', () => {
+  it('rates primary selectors high and fallbacks medium', () => {
+    const { field_provenance } = parseCompanyPage(fixture('company'), companyMeta);
+
+    expect(field_provenance?.legal_form).toEqual({
+      source: 'merinfo',
+      extracted_at: SCRAPED_AT,
+      rule: 'th:Bolagsform:',
+      status: 'found',
+      confidence: 'high',
+    });
+    expect(field_provenance?.registration_date).toMatchObject({ status: 'found', confidence: 'medium' });
+    expect(field_provenance?.size_class).toMatchObject({ rule: 'derived', status: 'found', confidence: 'medium' });
+  });
+
+  it('marks missing required fields failed and missing optional fields absent', () => {
+    const { field_provenance } = parseCompanyPage(
+      '<html><body><h1><span class="namn">Tomt AB</span></h1><table><tr><th>Bankgiro:</th><td></td></tr></table></body></html>',
+      companyMeta
+    );
+
+    expect(field_provenance?.name.status).toBe('found');
+    expect(field_provenance?.legal_form).toMatchObject({ status: 'failed', confidence: 'low' });
+    expect(field_provenance?.bankgiro_number).toMatchObject({ status: 'failed', confidence: 'low' });
+    expect(field_provenance?.share_capital).toMatchObject({ status: 'absent', confidence: 'medium' });
+    expect(field_provenance?.['tax_info.f_skatt']).toMatchObject({ status: 'absent' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { checkIdentityNumber, luhnCheckDigit } from '../src/utils/org-number.js';
+
+describe('checkIdentityNumber', () => {
+  it('accepts organization numbers and infers the entity group', () => {
+    expect(checkIdentityNumber('556036-0793')).toEqual({
+      input: '556036-0793',
+      valid: true,
+      normalized: '556036-0793',
+      kind: 'organization',
+      entity_group: 'limited_company',
+      entity_description: 'Aktiebolag',
+    });
+    expect(checkIdentityNumber('16 5560360793')).toMatchObject({ valid: true, normalized: '556036-0793' });
+    expect(checkIdentityNumber('802002-4280')).toMatchObject({ valid: true, entity_group: 'non_profit_association' });
+  });
+
+  it('accepts personal and coordination numbers as sole traders', () => {
+    expect(checkIdentityNumber('19121212-1212')).toMatchObject({
+      valid: true,
+      normalized: '121212-1212',
+      kind: 'personal',
+      entity_group: 'sole_trader',
+    });
+    expect(checkIdentityNumber('121272-1219')).toMatchObject({ valid: true, kind: 'coordination' });
+  });
+
+  it('rejects bad checksums, dates and shapes', () => {
+    expect(checkIdentityNumber('556036-0794')).toMatchObject({ valid: false, error: 'Checksum digit is 4, expected 3' });
+    expect(checkIdentityNumber('121312-1210').valid).toBe(false);
+    expect(checkIdentityNumber('19010229-1234').error).toMatch(/valid birth date/);
+    expect(checkIdentityNumber('556036-079').valid).toBe(false);
+    expect(checkIdentityNumber('165560360793X').valid).toBe(false);
+    expect(checkIdentityNumber('19556036-0793').error).toMatch(/do not have a birth century/);
+    expect(checkIdentityNumber('16121212-1212').error).toMatch(/"16" prefix/);
+    expect(checkIdentityNumber('402002-4280').error).toMatch(/leading digit 4/);
+  });
+
+  it('accepts a "+" separator only for people aged 100 or more', () => {
+    expect(checkIdentityNumber('121212+1212')).toMatchObject({ valid: true, normalized: '121212-1212' });
+    expect(checkIdentityNumber('19121212+1212')).toMatchObject({ valid: true, kind: 'personal' });
+    expect(checkIdentityNumber('20121212+1212')).toMatchObject({
+      valid: false,
+      error: 'A "+" separator means 100 or older, which contradicts birth year 2012',
+    });
+  });
+});
+
+describe('luhnCheckDigit', () => {
+  it('weights digits 2, 1, 2, ... from the left', () => {
+    expect(luhnCheckDigit('556036079')).toBe(3);
+    expect(luhnCheckDigit('121212121')).toBe(2);
+  });
+});
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PageArchive } from '../src/cache/page-archive.js';
+
+describe('PageArchive', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merinfo-archive-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores pages compressed and returns them per company', () => {
+    const archive = new PageArchive(path.join(dir, 'archive.db'), true);
+    archive.save({ source: 'merinfo', kind: 'company', org_number: '556036-0793', url: 'https://a', html: '<h1>A</h1>' });
+    archive.save({ source: 'merinfo', kind: 'company', org_number: '556036-0793', url: 'https://a', html: '<h1>A2</h1>' });
+    archive.save({ source: 'merinfo', kind: 'person', org_number: '556036-0793', url: 'https://p', html: '<h1>P</h1>' });
+
+    expect(archive.listOrgNumbers()).toEqual(['556036-0793']);
+    expect(archive.getPages('556036-0793').map((p) => p.html).sort()).toEqual(['<h1>A2</h1>', '<h1>P</h1>']);
+  });
+
+  it('reads nothing and creates no file while disabled', () => {
+    const file = path.join(dir, 'archive.db');
+    const archive = new PageArchive(file, false);
+
+    archive.save({ source: 'merinfo', kind: 'company', org_number: '556036-0793', url: 'https://a', html: '<h1>A</h1>' });
+    expect(archive.listOrgNumbers()).toEqual([]);
+    expect(archive.getPages('556036-0793')).toEqual([]);
+    expect(archive.getPersonPages(['https://p'])).toEqual([]);
+    expect(fs.existsSync(file)).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from '../src/scraper/circuit-breaker.js';
+import { classifyPage, pageClassError } from '../src/scraper/page-classifier.js';
+import { BlockedPageError, CircuitOpenError, ScraperError, SearchLimitError } from '../src/types.js';
+import { BackoffStrategy, withRetry } from '../src/utils/rate-limiter.js';
+
+const company = fs.readFileSync(path.join(__dirname, 'fixtures/merinfo/company.html'), 'utf-8');
+const searchLimit = fs.readFileSync(path.join(__dirname, 'fixtures/merinfo/search-limit.html'), 'utf-8');
+
+describe('classifyPage', () => {
+  it('tells content from block pages', () => {
+    expect(classifyPage(company, 200).page_class).toBe('ok');
+    expect(classifyPage(searchLimit, 200).page_class).toBe('search_limit');
+    expect(classifyPage('<html><body></body></html>', 429)).toMatchObject({ page_class: 'search_limit', detail: 'HTTP 429' });
+    expect(classifyPage('<iframe src="https://challenges.cloudflare.com/x"></iframe>', 200).page_class).toBe('captcha');
+    expect(classifyPage('<title>Underhåll</title>', 200).page_class).toBe('maintenance');
+    expect(classifyPage('<h1>Sidan kunde inte hittas</h1>', 200).page_class).toBe('not_found');
+    expect(classifyPage('<h1>Sökresultat</h1><p>Inga träffar på "xyz"</p>', 200).page_class).toBe('no_results');
+  });
+
+  it('classifies refused access apart from other HTTP errors', () => {
+    expect(classifyPage('<h1>Access denied</h1>', 403)).toMatchObject({ page_class: 'forbidden', status: 403 });
+    expect(classifyPage('', 401).page_class).toBe('forbidden');
+    expect(classifyPage('', 400).page_class).toBe('http_error');
+    expect(classifyPage('', 502).page_class).toBe('http_error');
+  });
+});
+
+describe('pageClassError', () => {
+  it('returns a block error for block pages and nothing for content', () => {
+    expect(pageClassError('merinfo.se', { page_class: 'ok' })).toBeNull();
+    expect(pageClassError('merinfo.se', { page_class: 'not_found', status: 404 })).toBeNull();
+    expect(pageClassError('merinfo.se', { page_class: 'search_limit' })).toBeInstanceOf(SearchLimitError);
+    expect(pageClassError('merinfo.se', { page_class: 'forbidden', status: 403, detail: 'HTTP 403' })).toMatchObject({
+      name: 'BlockedPageError',
+      page_class: 'forbidden',
+    });
+  });
+
+  it('marks only 5xx responses retryable', () => {
+    const clientError = pageClassError('merinfo.se', { page_class: 'http_error', status: 400, detail: 'HTTP 400' });
+    const serverError = pageClassError('merinfo.se', { page_class: 'http_error', status: 500, detail: 'HTTP 500' });
+    expect((clientError as ScraperError).retryable).toBe(false);
+    expect((serverError as ScraperError).retryable).toBe(true);
+  });
+});
+
+describe('withRetry', () => {
+  const backoff = new BackoffStrategy(0, 0, 1, false);
+
+  it('retries listed errors up to the attempt limit', async () => {
+    const operation = vi.fn().mockRejectedValue(new ScraperError('HTTP 500'));
+
+    await expect(withRetry(operation, { backoff })).rejects.toThrow('HTTP 500');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a ScraperError marked not retryable', async () => {
+    const onRetry = vi.fn();
+    const operation = vi.fn().mockRejectedValue(new ScraperError('HTTP 404', false));
+
+    await expect(withRetry(operation, { backoff, onRetry })).rejects.toThrow('HTTP 404');
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('retries a search limit only when the caller lists it', async () => {
+    const operation = vi.fn().mockRejectedValueOnce(new SearchLimitError()).mockResolvedValue('ok');
+
+    await expect(withRetry(operation, { backoff })).rejects.toBeInstanceOf(SearchLimitError);
+    await expect(
+      withRetry(operation, { backoff, retryableErrors: ['ScraperError', 'SearchLimitError'] })
+    ).resolves.toBe('ok');
+  });
+
+  it('waits for onRetry before the next attempt', async () => {
+    const events: string[] = [];
+    const operation = vi
+      .fn()
+      .mockImplementationOnce(async () => {
+        events.push('attempt 1');
+        throw new ScraperError('HTTP 500');
+      })
+      .mockImplementation(async () => {
+        events.push('attempt 2');
+        return 'ok';
+      });
+    const onRetry = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      events.push('retry handled');
+    };
+
+    await expect(withRetry(operation, { backoff, onRetry })).resolves.toBe('ok');
+    expect(events).toEqual(['attempt 1', 'retry handled', 'attempt 2']);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive block pages, including refused access', () => {
+    const breaker = new CircuitBreaker('merinfo.se', { threshold: 2, cooldown_ms: 60_000 });
+
+    breaker.recordFailure('forbidden');
+    expect(breaker.getState().state).toBe('closed');
+    breaker.recordFailure('forbidden');
+    expect(breaker.getState()).toMatchObject({ state: 'open', last_page_class: 'forbidden', trips: 1 });
+    expect(() => breaker.check()).toThrow(CircuitOpenError);
+  });
+
+  it('ignores failures that are not block pages', () => {
+    const breaker = new CircuitBreaker('merinfo.se', { threshold: 1, cooldown_ms: 60_000 });
+
+    breaker.recordFailure('http_error');
+    breaker.recordFailure(undefined);
+    expect(breaker.getState().state).toBe('closed');
+    expect(() => breaker.check()).not.toThrow();
+  });
+
+  it('lets one probe through after the cooldown and closes on success', () => {
+    const breaker = new CircuitBreaker('merinfo.se', { threshold: 1, cooldown_ms: 0 });
+
+    breaker.recordFailure(new BlockedPageError('captcha', 'captcha').page_class);
+    breaker.check();
+    expect(breaker.getState().state).toBe('half_open');
+    expect(() => breaker.check()).toThrow(/probe in progress/);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toMatchObject({ state: 'closed', consecutive_blocks: 0, trips: 0 });
+  });
+});
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getFetchStats, withPageSession } from '../src/scraper/page-session.js';
+
+const pages = new Map<string, { status: number; html: string }>();
+
+vi.mock('../src/scraper/http-fetcher.js', () => ({
+  HttpFetcher: class {
+    async get(url: string) {
+      return { url, ...pages.get(url)! };
+    }
+    getChain() {
+      return [];
+    }
+  },
+}));
+
+vi.mock('../src/scraper/browser.js', () => ({
+  browserPool: {
+    acquirePage: async () => {
+      throw new Error('browser requested');
+    },
+  },
+}));
+
+const SEARCH_URL = 'https://www.merinfo.se/search?q=finnsinte';
+const failure = { operation: 'search_company', key: 'finnsinte' };
+
+describe('withPageSession in http mode', () => {
+  beforeEach(() => {
+    pages.clear();
+  });
+
+  it('answers a search with no hits over HTTP instead of falling back to the browser', async () => {
+    pages.set(SEARCH_URL, {
+      status: 200,
+      html: '<html><body><h1>Sökresultat</h1><p>Inga träffar på "finnsinte"</p></body></html>',
+    });
+    const { fallbacks } = getFetchStats();
+
+    const loaded = await withPageSession(
+      'merinfo.se',
+      failure,
+      (session) => session.load(SEARCH_URL, '.mi-p-4'),
+      'http'
+    );
+
+    expect(loaded).toMatchObject({ page_class: 'no_results', ready: false });
+    expect(getFetchStats().fallbacks).toBe(fallbacks);
+  });
+
+  it('answers a missing page over HTTP', async () => {
+    pages.set(SEARCH_URL, { status: 404, html: '<html><body><h1>Sidan kunde inte hittas</h1></body></html>' });
+
+    const loaded = await withPageSession(
+      'merinfo.se',
+      failure,
+      (session) => session.load(SEARCH_URL, 'h1.namn'),
+      'http'
+    );
+
+    expect(loaded).toMatchObject({ page_class: 'not_found', ready: false });
+  });
+
+  it('falls back to the browser for a page whose content renders with JavaScript', async () => {
+    pages.set(SEARCH_URL, { status: 200, html: '<html><body><div id="app"></div></body></html>' });
+    const { fallbacks } = getFetchStats();
+
+    await expect(
+      withPageSession('merinfo.se', failure, (session) => session.load(SEARCH_URL, '.mi-p-4'), 'http')
+    ).rejects.toThrow('browser requested');
+    expect(getFetchStats().fallbacks).toBe(fallbacks + 1);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeRole } from '../src/utils/parsers.js';
+
+describe('normalizeRole', () => {
+  it.each([
+    ['Verkställande direktör', 'VD'],
+    ['Extern VD', 'VD'],
+    ['Vice verkställande direktör', 'Vice VD'],
+    ['Styrelseordförande', 'Ordförande'],
+    ['Ordinarie ledamot', 'Styrelseledamot'],
+    ['Suppleant', 'Styrelsesuppleant'],
+    ['Revisorssuppleant', 'Revisorssuppleant'],
+    ['Huvudansvarig revisor', 'Huvudansvarig revisor'],
+    ['Lekmannarevisor', 'Lekmannarevisor'],
+    ['Revisor', 'Revisor'],
+    ['Extern firmatecknare', 'Extern firmatecknare'],
+    ['Prokurist', 'Prokurist'],
+    ['Avvecklare', 'Avvecklare'],
+    ['Likvidator', 'Likvidator'],
+    ['Särskild delgivningsmottagare', 'Delgivningsmottagare'],
+    ['Innehavare', 'Innehavare'],
+  ])('maps "%s" to %s', (label, role) => {
+    expect(normalizeRole(label)).toBe(role);
+  });
+
+  it('returns null for text that is no role', () => {
+    expect(normalizeRole('Bolagsform:')).toBeNull();
+    expect(normalizeRole('')).toBeNull();
+    expect(normalizeRole(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { RedactionProfiles } from '../src/server/redaction.js';
+import { CompanyData, PersonDetails, PersonProfile } from '../src/types.js';
+
+const person: PersonDetails = {
+  org_number: '556036-0793',
+  name: 'Anna Andersson',
+  role: 'VD',
+  personal_number: '19800101-1234',
+  age: 45,
+  phone: '070-123 45 67',
+  address: { street: 'Storgatan 1', apartment: 'lgh 1102', postal_code: '11122', city: 'Stockholm' },
+  profile_url: 'https://www.merinfo.se/person/anna-andersson-a1b2c3',
+};
+
+const soleTrader: CompanyData = {
+  org_number: '121212-1212',
+  name: 'Anna Anderssons Konsultfirma',
+  contact: {
+    phone: '070-123 45 67',
+    email: 'anna@example.se',
+    address: 'Storgatan 1',
+    postal_code: '11122',
+    city: 'Stockholm',
+    website: 'https://anna.example.se',
+  },
+  tax_info: { f_skatt: true, vat_registered: true, employer_registered: false },
+  industry: {},
+  has_remarks: false,
+  source_url: 'https://www.merinfo.se/foretag/anna',
+  scraped_at: '2026-10-01T08:00:00.000Z',
+};
+
+describe('Redactor', () => {
+  const profiles = new RedactionProfiles({}, {}, 'full', 'test-salt');
+
+  it('passes everything through under the full profile', () => {
+    const redactor = profiles.get('full');
+    expect(redactor.isFull).toBe(true);
+    expect(redactor.person(person)).toBe(person);
+    expect(redactor.company(soleTrader)).toBe(soleTrader);
+  });
+
+  it('keeps only name, role, city and profile link under business_only', () => {
+    expect(profiles.get('business_only').person(person)).toEqual({
+      org_number: '556036-0793',
+      name: 'Anna Andersson',
+      role: 'VD',
+      address: { city: 'Stockholm' },
+      profile_url: person.profile_url,
+    });
+  });
+
+  it('pseudonymizes names stably per salt and reduces age to a decade', () => {
+    const redacted = profiles.get('anonymized').person(person);
+
+    expect(redacted.name).toMatch(/^Person [0-9a-f]{8}$/);
+    expect(redacted.age_range).toBe('40-49');
+    expect(redacted.age).toBeUndefined();
+    expect(redacted.profile_url).toBeUndefined();
+    expect(profiles.get('anonymized').person(person).name).toBe(redacted.name);
+
+    const otherSalt = new RedactionProfiles({}, {}, 'full', 'other-salt');
+    expect(otherSalt.get('anonymized').person(person).name).not.toBe(redacted.name);
+  });
+
+  it('keys pseudonyms on the profile URL even when the URL is dropped', () => {
+    const redactor = profiles.get('anonymized');
+    const profile: PersonProfile = {
+      name: person.name,
+      age: 45,
+      profile_url: person.profile_url!,
+      engagements: [],
+      scraped_at: '2026-10-01T08:00:00.000Z',
+    };
+
+    const redacted = redactor.personProfile(profile);
+    expect(redacted.name).toBe(redactor.person(person).name);
+    expect(redacted.profile_url).toBeUndefined();
+  });
+
+  it('drops contact details of sole traders only', () => {
+    const redactor = profiles.get('business_only');
+
+    expect(redactor.company(soleTrader).contact).toEqual({ city: 'Stockholm', website: 'https://anna.example.se' });
+    const limited = { ...soleTrader, org_number: '556036-0793' };
+    expect(redactor.company(limited)).toBe(limited);
+  });
+});
+
+describe('RedactionProfiles', () => {
+  it('builds custom profiles on top of business_only unless told otherwise', () => {
+    const profiles = new RedactionProfiles(
+      { initials: { name: 'initials' }, press: { extends: 'full', phone: 'drop' } },
+      {},
+      'full',
+      'test-salt'
+    );
+
+    expect(profiles.get('initials').person({ ...person, name: 'Anna-Karin Andersson' })).toMatchObject({
+      name: 'A. K. A.',
+      address: { city: 'Stockholm' },
+    });
+    expect(profiles.get('initials').person(person).phone).toBeUndefined();
+
+    const press = profiles.get('press').person(person);
+    expect(press.phone).toBeUndefined();
+    expect(press.personal_number).toBe(person.personal_number);
+  });
+
+  it('rejects unknown profiles and invalid rules', () => {
+    expect(() => new RedactionProfiles({}, {}, 'secret')).toThrow(/Unknown redaction profile: secret/);
+    expect(() => new RedactionProfiles({}, { key: 'secret' })).toThrow(/Unknown redaction profile/);
+    expect(() => new RedactionProfiles({ bad: { name: 'blur' } as any })).toThrow(/Invalid redaction profile "bad"/);
+  });
+
+  it('selects a profile per API key once keys are configured', () => {
+    const open = new RedactionProfiles({}, {}, 'business_only');
+    expect(open.requiresApiKey).toBe(false);
+    expect(open.forApiKey(undefined)?.profile).toBe('business_only');
+
+    const keyed = new RedactionProfiles({}, { 'key-a': 'full', 'key-b': '' }, 'anonymized');
+    expect(keyed.requiresApiKey).toBe(true);
+    expect(keyed.forApiKey('key-a')?.profile).toBe('full');
+    expect(keyed.forApiKey('key-b')?.profile).toBe('anonymized');
+    expect(keyed.forApiKey('key-c')).toBeNull();
+    expect(keyed.forApiKey(undefined)).toBeNull();
+    expect(keyed.forApiKey('constructor')).toBeNull();
+  });
+});
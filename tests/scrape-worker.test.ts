@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CompanyDatabase } from '../src/cache/database.js';
+import { ProviderRegistry } from '../src/providers/registry.js';
+import { REFRESH_PRIORITY } from '../src/queue/refresh-scheduler.js';
+import { ScrapeWorker } from '../src/queue/scrape-worker.js';
+
+describe('ScrapeWorker refresh pacing', () => {
+  let dir: string;
+  let db: CompanyDatabase;
+  let scraped: string[];
+
+  const providers = {
+    fetchCompany: async (org_number: string) => {
+      scraped.push(org_number);
+      return {
+        company: {
+          org_number,
+          name: `Bolag ${org_number}`,
+          contact: {},
+          tax_info: { f_skatt: false, vat_registered: false, employer_registered: false },
+          industry: {},
+          has_remarks: false,
+          source_url: `https://www.merinfo.se/foretag/${org_number}`,
+          scraped_at: new Date().toISOString(),
+        },
+        board_members: [],
+        extraction: [],
+        providers: ['merinfo'],
+        provider_errors: {},
+      };
+    },
+  } as unknown as ProviderRegistry;
+
+  function worker(refresh_rpm: number): ScrapeWorker {
+    return new ScrapeWorker(db, providers, { poll_interval_ms: 5000, max_attempts: 3, refresh_rpm });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merinfo-worker-'));
+    db = new CompanyDatabase(path.join(dir, 'cache.db'));
+    scraped = [];
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it('spaces refresh jobs at the refresh rate instead of draining them back to back', async () => {
+    db.enqueueScrape(['5560000001', '5560000002', '5560000003'], REFRESH_PRIORITY);
+    const w = worker(2);
+
+    expect(await w.processNext()).toBe(true);
+    expect(await w.processNext()).toBe(false);
+
+    vi.advanceTimersByTime(29_000);
+    expect(await w.processNext()).toBe(false);
+
+    vi.advanceTimersByTime(1_000);
+    expect(await w.processNext()).toBe(true);
+    expect(await w.processNext()).toBe(false);
+
+    expect(scraped).toEqual(['5560000001', '5560000002']);
+    expect(db.countPendingScrapeJobs(REFRESH_PRIORITY)).toBe(1);
+  });
+
+  it('runs on-demand jobs while refresh jobs wait for their slot', async () => {
+    db.enqueueScrape(['5560000001', '5560000002'], REFRESH_PRIORITY);
+    const w = worker(2);
+
+    expect(await w.processNext()).toBe(true);
+    db.enqueueScrape(['5560000009'], 5);
+    expect(await w.processNext()).toBe(true);
+    expect(await w.processNext()).toBe(false);
+
+    expect(scraped).toEqual(['5560000001', '5560000009']);
+  });
+
+  it('does not pace client jobs at the lowest client priority', async () => {
+    db.enqueueScrape(['5560000001', '5560000002'], 1);
+    const w = worker(2);
+
+    expect(db.countPendingScrapeJobs(REFRESH_PRIORITY)).toBe(0);
+    expect(await w.processNext()).toBe(true);
+    expect(await w.processNext()).toBe(true);
+    expect(scraped).toEqual(['5560000001', '5560000002']);
+  });
+
+  it('leaves refresh jobs queued when the refresh rate is zero', async () => {
+    db.enqueueScrape(['5560000001'], REFRESH_PRIORITY);
+    const w = worker(0);
+
+    expect(await w.processNext()).toBe(false);
+    vi.advanceTimersByTime(60 * 60_000);
+    expect(await w.processNext()).toBe(false);
+    expect(db.countPendingScrapeJobs(REFRESH_PRIORITY)).toBe(1);
+  });
+});
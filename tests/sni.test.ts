@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { SniTaxonomy, hierarchyProblems, levelOf, normalizeSniCode, sniTaxonomy } from '../src/taxonomy/sni.js';
+import { SNI_2007 } from '../src/taxonomy/sni2007-data.js';
+
+const FULL: Array<[string, string | null, string, string]> = [
+  ['J', null, 'Informations- och kommunikationsverksamhet', 'Information and communication'],
+  ['62', 'J', 'Dataprogrammering, datakonsultverksamhet o.d.', 'Computer programming, consultancy and related activities'],
+  ['63', 'J', 'Informationstjänster', 'Information service activities'],
+  ['620', '62', 'Dataprogrammering, datakonsultverksamhet o.d.', 'Computer programming, consultancy and related activities'],
+  ['6201', '620', 'Dataprogrammering', 'Computer programming activities'],
+  ['62010', '6201', 'Dataprogrammering', 'Computer programming activities'],
+  ['6202', '620', 'Datakonsultverksamhet', 'Computer consultancy activities'],
+  ['62020', '6202', 'Datakonsultverksamhet', 'Computer consultancy activities'],
+];
+
+describe('bundled SNI 2007 data', () => {
+  it('keeps names containing the CSV delimiter in one column', () => {
+    expect(sniTaxonomy.get('E')).toMatchObject({
+      name_sv: 'Vattenförsörjning; avloppsrening, avfallshantering och sanering',
+      name_en: 'Water supply; sewerage, waste management and remediation activities',
+    });
+    expect(sniTaxonomy.get('38')?.name_sv).toBe('Avfallshantering; återvinning');
+  });
+
+  it('gives every row an English name that starts with a capital', () => {
+    for (const [code, , , name_en] of SNI_2007) {
+      expect(name_en, code).toMatch(/^[A-Z]/);
+    }
+  });
+
+  it('links every division to a section', () => {
+    for (const node of sniTaxonomy.sections().flatMap((s) => sniTaxonomy.children(s.code))) {
+      expect(node.level).toBe('division');
+    }
+    expect(sniTaxonomy.path('62')).toEqual([sniTaxonomy.get('J'), sniTaxonomy.get('62')]);
+  });
+});
+
+describe('SniTaxonomy', () => {
+  const taxonomy = new SniTaxonomy(FULL, ['section', 'division', 'group', 'class', 'subclass']);
+
+  it('accepts only exact rows when every level is bundled', () => {
+    expect(taxonomy.isValid('62.010')).toBe(true);
+    expect(taxonomy.isValid('6201')).toBe(true);
+    expect(taxonomy.isValid('62999')).toBe(false);
+    expect(taxonomy.isValid('6299')).toBe(false);
+    expect(taxonomy.isValid('99')).toBe(false);
+    expect(taxonomy.isValid('X')).toBe(false);
+  });
+
+  it('checks codes below the deepest bundled level against their ancestor at it', () => {
+    const partial = new SniTaxonomy(
+      FULL.filter(([code]) => code.length <= 4),
+      ['section', 'division', 'group', 'class']
+    );
+    expect(partial.isValid('62010')).toBe(true);
+    expect(partial.isValid('62999')).toBe(false);
+    expect(partial.isValid('6299')).toBe(false);
+  });
+
+  it('expands codes at every level to prefixes covering their subcodes', () => {
+    expect(taxonomy.expand('J')).toEqual(['62', '63']);
+    expect(taxonomy.expand('62')).toEqual(['62']);
+    expect(taxonomy.expand('620')).toEqual(['620']);
+    expect(taxonomy.expand('62.01')).toEqual(['6201']);
+    expect(taxonomy.expand('62010')).toEqual(['62010']);
+  });
+
+  it('finds the path from section to subclass', () => {
+    expect(taxonomy.path('62010').map((n) => n.code)).toEqual(['J', '62', '620', '6201', '62010']);
+  });
+});
+
+describe('hierarchyProblems', () => {
+  it('accepts a complete hierarchy with both names', () => {
+    expect(hierarchyProblems(FULL)).toEqual([]);
+  });
+
+  it('reports missing levels, orphaned codes and missing names', () => {
+    const divisions = FULL.filter(([code]) => code.length <= 2);
+    expect(hierarchyProblems(divisions)).toEqual(['missing levels: group, class, subclass']);
+    const orphaned = FULL.filter(([code]) => code !== '6201');
+    expect(hierarchyProblems(orphaned)).toEqual(['1 code(s) without a parent row: 62010']);
+    const unnamed = FULL.map(([code, parent, name_sv, name_en]): [string, string | null, string, string] => [
+      code,
+      parent,
+      name_sv,
+      code === '63' ? '' : name_en,
+    ]);
+    expect(hierarchyProblems(unnamed)).toEqual(['1 code(s) without a Swedish and English name: 63']);
+  });
+});
+
+describe('normalizeSniCode / levelOf', () => {
+  it('derives the level from the code shape', () => {
+    expect(normalizeSniCode(' 62.010 ')).toBe('62010');
+    expect(levelOf('j'.toUpperCase())).toBe('section');
+    expect(levelOf('620')).toBe('group');
+    expect(levelOf('620100')).toBeNull();
+  });
+});